@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { getSupabaseAdmin } from './lib/supabase.js';
+import { loadTicketHolder } from './lib/tickets.js';
+import { recordAuditEvent } from './lib/audit.js';
+
+const checkInSchema = z.object({
+  checkedIn: z.boolean().optional(),
+  tShirtsPickedUp: z.boolean().optional(),
+});
+
+// Registrations that have paid for their spots
+const CHECK_IN_STATUSES = ['paid', 'partially_refunded'];
+
+// Records (or, with false, undoes) check-in and t-shirt pickup at the desk.
+// Times already recorded are kept so a second scan does not move them.
+export default async function handler(req, res) {
+  // No registration has an id that is not a UUID, and Postgres rejects one
+  if (!z.string().uuid().safeParse(req.params.id).success) {
+    return res.status(404).json({ error: 'Registration not found' });
+  }
+
+  const parsed = checkInSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid check-in details',
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const { checkedIn, tShirtsPickedUp } = parsed.data;
+
+  try {
+    const registration = await loadTicketHolder(req.params.id);
+
+    if (!registration) {
+      return res.status(404).json({ error: 'Registration not found' });
+    }
+
+    if (!CHECK_IN_STATUSES.includes(registration.payment_status)) {
+      return res.status(409).json({ error: `This registration is ${registration.payment_status}, not paid` });
+    }
+
+    const now = new Date().toISOString();
+    const changes = {};
+
+    if (checkedIn !== undefined) {
+      changes.checked_in_at = checkedIn ? registration.checked_in_at || now : null;
+    }
+
+    if (tShirtsPickedUp !== undefined) {
+      changes.t_shirts_picked_up_at = tShirtsPickedUp ? registration.t_shirts_picked_up_at || now : null;
+    }
+
+    const { error } = await getSupabaseAdmin()
+      .from('registrations')
+      .update({ ...changes, updated_at: now })
+      .eq('id', registration.id);
+
+    if (error) throw error;
+
+    await recordAuditEvent({
+      actor: req.admin,
+      entityType: 'registration',
+      entityId: registration.id,
+      action: 'check_in',
+      before: registration,
+      after: changes,
+    });
+
+    res.status(200).json({ registration: { ...registration, ...changes, updated_at: now } });
+  } catch (error) {
+    console.error('Error recording check-in:', error);
+    res.status(500).json({ error: 'Failed to record check-in' });
+  }
+}
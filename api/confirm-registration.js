@@ -0,0 +1,47 @@
+import { getStripe } from './lib/stripe.js';
+import { getSupabaseAdmin } from './lib/supabase.js';
+import { syncPaymentIntent } from './lib/payments.js';
+
+// Called by the browser straight after confirmCardPayment so the registration
+// is marked paid without waiting for the webhook. Stripe stays the source of
+// truth: the PaymentIntent is re-fetched rather than trusting the client.
+export default async function handler(req, res) {
+  const { id } = req.params;
+  const { paymentIntentId } = req.body || {};
+
+  if (!paymentIntentId) {
+    return res.status(400).json({ error: 'paymentIntentId is required' });
+  }
+
+  try {
+    const paymentIntent = await getStripe().paymentIntents.retrieve(paymentIntentId);
+
+    if (paymentIntent.metadata?.registration_id !== id) {
+      return res.status(400).json({ error: 'Payment does not belong to this registration' });
+    }
+
+    if (paymentIntent.status !== 'succeeded') {
+      return res.status(409).json({ error: `Payment has not succeeded (status: ${paymentIntent.status})` });
+    }
+
+    await syncPaymentIntent(paymentIntent, 'succeeded');
+
+    const { data: registration, error } = await getSupabaseAdmin()
+      .from('registrations')
+      .select('payment_status, receipt_token')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+
+    res.status(200).json({
+      // waitlisted when the payment came after the hold expired and the event was full
+      paymentStatus: registration.payment_status,
+      transactionId: paymentIntent.id,
+      receiptToken: registration.receipt_token,
+    });
+  } catch (error) {
+    console.error('Error confirming registration payment:', error);
+    res.status(500).json({ error: 'Failed to confirm registration payment' });
+  }
+}
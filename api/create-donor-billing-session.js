@@ -0,0 +1,33 @@
+import { getStripe } from './lib/stripe.js';
+import { loadDonorRow } from './lib/donors.js';
+import { isManageable } from '../src/lib/recurring-donations.js';
+import { siteUrl } from './lib/urls.js';
+
+// Sends the donor to a Stripe-hosted page to change the card a recurring gift
+// is charged to. Needs the customer portal to be configured in the Stripe dashboard.
+export default async function handler(req, res) {
+  try {
+    const recurringDonation = await loadDonorRow('recurring_donations', req.params.id, req.donor);
+
+    if (!recurringDonation) {
+      return res.status(404).json({ error: 'Recurring donation not found' });
+    }
+
+    if (!isManageable(recurringDonation)) {
+      return res.status(409).json({ error: `This recurring donation is ${recurringDonation.status}` });
+    }
+
+    const session = await getStripe().billingPortal.sessions.create({
+      customer: recurringDonation.stripe_customer_id,
+      return_url: `${siteUrl()}/my-giving`,
+      flow_data: {
+        type: 'payment_method_update',
+      },
+    });
+
+    res.status(200).json({ url: session.url });
+  } catch (error) {
+    console.error('Error creating billing portal session:', error);
+    res.status(500).json({ error: 'Failed to open card update page' });
+  }
+}
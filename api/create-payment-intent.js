@@ -1,28 +1,186 @@
-// Create this file for your API endpoint
-// This would typically be in a server directory or API routes folder
-import Stripe from 'stripe';
+import { z } from 'zod';
+import { getStripe, INDIA_EXPORT_METADATA, MIN_CHARGE_CENTS } from './lib/stripe.js';
+import { getSupabaseAdmin } from './lib/supabase.js';
+import { getEventAvailability, holdRegistrationSpots, paymentHoldExpiry } from './lib/capacity.js';
+import {
+  checkEventOpen,
+  checkParticipants,
+  insertRegistration,
+  priceRegistration,
+  registrationFields,
+} from './lib/registrations.js';
+import { donationFields, donorMetadata, newDonationReceipt } from './lib/donations.js';
+import { processingFeeFor } from './lib/processing-fees.js';
 
-const stripe = new Stripe(process.env.VITE_STRIPE_SECRET_KEY || 'sk_test_placeholder');
+const donationSchema = donationFields.extend({
+  type: z.literal('donation'),
+});
+
+const registrationSchema = registrationFields.extend({
+  type: z.literal('registration'),
+  // Adds the processing fee on top of the registration price
+  coverFees: z.boolean().optional(),
+});
+
+const paymentIntentSchema = z
+  .discriminatedUnion('type', [donationSchema, registrationSchema])
+  .superRefine((payload, ctx) => {
+    if (payload.type === 'registration') {
+      checkParticipants(payload, ctx);
+    }
+  });
+
+// Amounts are always derived here so the browser can never choose what it is charged.
+// Registrations go through the same pricing engine the form uses for its summary.
+// A covered processing fee is charged on top and reported separately in dollars.
+const calculateAmount = async (payload) => {
+  if (payload.type === 'donation') {
+    const feeCovered = processingFeeFor(payload.amount, payload.coverFees);
+
+    return { amount: Math.round((payload.amount + feeCovered) * 100), feeCovered };
+  }
+
+  const quote = await priceRegistration(payload);
+  const feeCovered = processingFeeFor(quote.total, payload.coverFees);
+
+  return { amount: Math.round((quote.total + feeCovered) * 100), feeCovered, quote };
+};
+
+// Everything the webhook needs to record the payment, since the browser may close before it can
+const describeMetadata = (payload, donationReceipt) => {
+  if (payload.type === 'donation') {
+    return {
+      ...donationReceipt,
+      ...donorMetadata(payload),
+    };
+  }
+
+  return {
+    event_id: payload.eventId,
+    name: payload.name,
+    email: payload.email,
+  };
+};
+
+const describePayment = (payload) => {
+  if (payload.type === 'donation') {
+    return `Donation to Tulip Kids Foundation - ${payload.designation || 'General'}`;
+  }
+
+  return `Tulip Trot registration - ${payload.name}`;
+};
+
+const FULL_RESPONSE = {
+  error: 'This event is full. Please join the waitlist instead.',
+  waitlist: true,
+};
+
+const hasRoomFor = (availability, payload) =>
+  availability.remaining == null || availability.remaining >= payload.adultCount + payload.kidsCount;
+
+// Holds the family's spots while they pay. The registration is saved without a
+// hold, so it takes no spots until the database confirms there is room.
+const reserveRegistration = async (payload, quote, feeCovered) => {
+  if (!hasRoomFor(await getEventAvailability(payload.eventId), payload)) {
+    return null;
+  }
+
+  const registrationId = await insertRegistration(payload, quote, {
+    paymentStatus: 'pending',
+    feeCoveredAmount: feeCovered,
+  });
+
+  if (!(await holdRegistrationSpots(registrationId, paymentHoldExpiry()))) {
+    const { error } = await getSupabaseAdmin()
+      .from('registrations')
+      .delete()
+      .eq('id', registrationId);
+
+    if (error) throw error;
+
+    return null;
+  }
+
+  return registrationId;
+};
 
 export default async function handler(req, res) {
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
+  const parsed = paymentIntentSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid payment details',
+      details: parsed.error.flatten().fieldErrors,
+    });
   }
 
+  const payload = parsed.data;
+
   try {
-    const { amount } = req.body;
-    
-    // Create a PaymentIntent
-    const paymentIntent = await stripe.paymentIntents.create({
+    if (payload.type === 'registration') {
+      const closedReason = await checkEventOpen(payload.eventId);
+
+      if (closedReason) {
+        return res.status(409).json({ error: closedReason });
+      }
+    }
+
+    const { amount, feeCovered, quote } = await calculateAmount(payload);
+
+    // e.g. a registration discounted to nothing, which Stripe would reject
+    if (amount < MIN_CHARGE_CENTS) {
+      return res.status(400).json({
+        error: 'The total is below the $0.50 minimum card payment. Please contact us to complete your registration.',
+      });
+    }
+
+    let registrationId;
+
+    const donationReceipt = payload.type === 'donation' ? newDonationReceipt() : undefined;
+
+    if (payload.type === 'registration') {
+      registrationId = await reserveRegistration(payload, quote, feeCovered);
+
+      if (!registrationId) {
+        return res.status(409).json(FULL_RESPONSE);
+      }
+    }
+
+    const paymentIntent = await getStripe().paymentIntents.create({
       amount,
       currency: 'usd',
-      // Add any additional options as needed
+      description: describePayment(payload),
+      receipt_email: payload.email,
+      metadata: {
+        ...INDIA_EXPORT_METADATA,
+        ...describeMetadata(payload, donationReceipt),
+        ...(registrationId && { registration_id: registrationId }),
+        fee_covered_amount: String(feeCovered),
+        type: payload.type,
+      },
+      automatic_payment_methods: {
+        enabled: true,
+      },
     });
 
-    // Return the client secret
-    res.status(200).json({ clientSecret: paymentIntent.client_secret });
+    if (registrationId) {
+      const { error } = await getSupabaseAdmin()
+        .from('registrations')
+        .update({ transaction_id: paymentIntent.id })
+        .eq('id', registrationId);
+
+      if (error) throw error;
+    }
+
+    // Only the client secret and the ids the browser needs to find its record leave the server
+    res.status(200).json({
+      clientSecret: paymentIntent.client_secret,
+      registrationId,
+      donationId: donationReceipt?.donation_id,
+      receiptToken: donationReceipt?.receipt_token,
+    });
   } catch (error) {
     console.error('Error creating payment intent:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: 'Failed to create payment intent' });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { getStripe, getRecurringDonationProduct, INDIA_EXPORT_METADATA } from './lib/stripe.js';
+import { getSupabaseAdmin } from './lib/supabase.js';
+import { donationFields, donorMetadata, newDonationReceipt, DEFAULT_DESIGNATION } from './lib/donations.js';
+import { processingFeeFor } from './lib/processing-fees.js';
+
+const recurringDonationSchema = donationFields.extend({
+  interval: z.enum(['month', 'year']),
+});
+
+const INTERVAL_LABELS = { month: 'Monthly', year: 'Annual' };
+
+// Starts a monthly or annual gift. The subscription's first invoice is paid in
+// the browser like a one-off donation; the webhook records each paid invoice
+// as a donation and keeps recurring_donations in step with the subscription.
+export default async function handler(req, res) {
+  const parsed = recurringDonationSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid donation details',
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const payload = parsed.data;
+
+  try {
+    const stripe = getStripe();
+    const recurringDonationId = crypto.randomUUID();
+    const firstDonation = newDonationReceipt();
+    // Fixed when the gift is set up, so every payment charges the same
+    const feeCovered = processingFeeFor(payload.amount, payload.coverFees);
+
+    const customer = await stripe.customers.create({
+      name: `${payload.firstName} ${payload.lastName}`,
+      email: payload.email,
+      metadata: { recurring_donation_id: recurringDonationId },
+    });
+
+    const subscription = await stripe.subscriptions.create({
+      customer: customer.id,
+      description: `${INTERVAL_LABELS[payload.interval]} donation to Tulip Kids Foundation - ${payload.designation || 'General'}`,
+      items: [
+        {
+          price_data: {
+            currency: 'usd',
+            product: await getRecurringDonationProduct(),
+            unit_amount: Math.round((payload.amount + feeCovered) * 100),
+            recurring: { interval: payload.interval },
+          },
+        },
+      ],
+      payment_behavior: 'default_incomplete',
+      payment_settings: { save_default_payment_method: 'on_subscription' },
+      expand: ['latest_invoice.payment_intent'],
+      // Invoices carry these as subscription_details.metadata, so the webhook can record each payment
+      metadata: {
+        ...INDIA_EXPORT_METADATA,
+        ...donorMetadata(payload),
+        type: 'recurring_donation',
+        recurring_donation_id: recurringDonationId,
+        first_donation_id: firstDonation.donation_id,
+        first_receipt_token: firstDonation.receipt_token,
+        fee_covered_amount: String(feeCovered),
+      },
+    });
+
+    const { error } = await getSupabaseAdmin()
+      .from('recurring_donations')
+      .insert({
+        id: recurringDonationId,
+        first_name: payload.firstName,
+        last_name: payload.lastName,
+        email: payload.email,
+        amount: payload.amount,
+        fee_covered_amount: feeCovered,
+        interval: payload.interval,
+        designation: payload.designation || DEFAULT_DESIGNATION,
+        is_anonymous: payload.isAnonymous || false,
+        stripe_customer_id: customer.id,
+        stripe_subscription_id: subscription.id,
+        status: subscription.status,
+        current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
+      });
+
+    if (error) {
+      // Nothing has been charged yet, so don't leave an untracked subscription behind
+      await stripe.subscriptions.cancel(subscription.id);
+      throw error;
+    }
+
+    res.status(200).json({
+      clientSecret: subscription.latest_invoice.payment_intent.client_secret,
+      recurringDonationId,
+      donationId: firstDonation.donation_id,
+      receiptToken: firstDonation.receipt_token,
+    });
+  } catch (error) {
+    console.error('Error creating recurring donation:', error);
+    res.status(500).json({ error: 'Failed to set up recurring donation' });
+  }
+}
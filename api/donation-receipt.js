@@ -0,0 +1,31 @@
+import { getSupabaseAdmin } from './lib/supabase.js';
+
+// Backs /donation-success/:donationId. Returns 404 until the Stripe webhook has
+// recorded the donation, so the page keeps retrying for a few seconds.
+export default async function handler(req, res) {
+  const { token } = req.query;
+
+  if (!token) {
+    return res.status(400).json({ error: 'token is required' });
+  }
+
+  try {
+    const { data: donation, error } = await getSupabaseAdmin()
+      .from('donations')
+      .select('id, first_name, last_name, email, amount, fee_covered_amount, designation, is_anonymous, tribute_type, tribute_honoree_name, payment_id, status, created_at, recurring_donations (interval)')
+      .eq('id', req.params.id)
+      .eq('receipt_token', token)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!donation) {
+      return res.status(404).json({ error: 'Receipt not found' });
+    }
+
+    res.status(200).json({ donation });
+  } catch (error) {
+    console.error('Error loading donation receipt:', error);
+    res.status(500).json({ error: 'Failed to load receipt' });
+  }
+}
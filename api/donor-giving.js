@@ -0,0 +1,34 @@
+import { escapeLike, getSupabaseAdmin } from './lib/supabase.js';
+
+// Everything the signed-in donor has given under their email, newest first
+export default async function handler(req, res) {
+  const supabase = getSupabaseAdmin();
+  const email = escapeLike(req.donor.email);
+
+  try {
+    const [donationsResult, recurringResult] = await Promise.all([
+      supabase
+        .from('donations')
+        .select('id, first_name, last_name, amount, fee_covered_amount, refunded_amount, designation, is_anonymous, payment_id, donation_type, status, created_at, receipt_number, recurring_donation_id')
+        .ilike('email', email)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('recurring_donations')
+        .select('id, amount, fee_covered_amount, interval, designation, status, is_paused, current_period_end, canceled_at, created_at')
+        .ilike('email', email)
+        .order('created_at', { ascending: false }),
+    ]);
+
+    if (donationsResult.error) throw donationsResult.error;
+    if (recurringResult.error) throw recurringResult.error;
+
+    res.status(200).json({
+      email: req.donor.email,
+      donations: donationsResult.data,
+      recurringDonations: recurringResult.data,
+    });
+  } catch (error) {
+    console.error('Error loading donor giving history:', error);
+    res.status(500).json({ error: 'Failed to load your giving history' });
+  }
+}
@@ -0,0 +1,27 @@
+import { formatReceiptNumber, isReceiptable, loadDonation, renderDonationReceiptPdf } from './lib/tax-receipts.js';
+
+// The same PDF the donor is emailed, for admins to download or print
+export default async function handler(req, res) {
+  try {
+    const donation = await loadDonation(req.params.id);
+
+    if (!donation) {
+      return res.status(404).json({ error: 'Donation not found' });
+    }
+
+    if (!isReceiptable(donation)) {
+      return res.status(409).json({ error: `This donation is ${donation.status}; only completed or partially refunded donations get a receipt` });
+    }
+
+    const pdf = await renderDonationReceiptPdf(donation);
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${formatReceiptNumber(donation)}.pdf"`,
+    });
+    res.status(200).send(pdf);
+  } catch (error) {
+    console.error('Error generating donation receipt:', error);
+    res.status(500).json({ error: 'Failed to generate receipt' });
+  }
+}
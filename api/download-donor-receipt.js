@@ -0,0 +1,28 @@
+import { formatReceiptNumber, isReceiptable, renderDonationReceiptPdf } from './lib/tax-receipts.js';
+import { loadDonorRow } from './lib/donors.js';
+
+// A donor's own tax receipt, as emailed to them
+export default async function handler(req, res) {
+  try {
+    const donation = await loadDonorRow('donations', req.params.id, req.donor);
+
+    if (!donation) {
+      return res.status(404).json({ error: 'Donation not found' });
+    }
+
+    if (!isReceiptable(donation)) {
+      return res.status(409).json({ error: `This donation is ${donation.status}; only completed or partially refunded donations get a receipt` });
+    }
+
+    const pdf = await renderDonationReceiptPdf(donation);
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${formatReceiptNumber(donation)}.pdf"`,
+    });
+    res.status(200).send(pdf);
+  } catch (error) {
+    console.error('Error generating donor receipt:', error);
+    res.status(500).json({ error: 'Failed to generate receipt' });
+  }
+}
@@ -0,0 +1,31 @@
+import { loadGivingStatement, renderGivingStatementPdf, statementYearSchema } from './lib/giving-statements.js';
+
+// The same year-end statement PDF the donor is emailed, for admins to download
+export default async function handler(req, res) {
+  const parsed = statementYearSchema.safeParse(req.params.year);
+
+  if (!parsed.success || typeof req.query.email !== 'string') {
+    return res.status(400).json({ error: 'A year and donor email are required' });
+  }
+
+  const year = parsed.data;
+
+  try {
+    const statement = await loadGivingStatement(year, req.query.email);
+
+    if (!statement) {
+      return res.status(404).json({ error: `No completed donations from this donor in ${year}` });
+    }
+
+    const pdf = await renderGivingStatementPdf(statement, year);
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="TKF-giving-statement-${year}.pdf"`,
+    });
+    res.status(200).send(pdf);
+  } catch (error) {
+    console.error('Error generating giving statement:', error);
+    res.status(500).json({ error: 'Failed to generate giving statement' });
+  }
+}
@@ -0,0 +1,13 @@
+import { getEventAvailability } from './lib/capacity.js';
+
+// Lets RegistrationForm show the waitlist up front instead of after the family fills in the form
+export default async function handler(req, res) {
+  try {
+    const { capacity, remaining } = await getEventAvailability(req.params.id);
+
+    res.status(200).json({ capacity, remaining, isFull: remaining === 0 });
+  } catch (error) {
+    console.error('Error loading event availability:', error);
+    res.status(500).json({ error: 'Failed to load event availability' });
+  }
+}
@@ -0,0 +1,34 @@
+import { loadGivingStatements, statementYearSchema } from './lib/giving-statements.js';
+
+// Donors who gave in a calendar year, with their totals and whether their
+// year-end statement has been sent
+export default async function handler(req, res) {
+  const parsed = statementYearSchema.safeParse(req.query.year);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid year',
+      details: { year: parsed.error.flatten().formErrors },
+    });
+  }
+
+  const year = parsed.data;
+
+  try {
+    const statements = await loadGivingStatements(year);
+
+    res.status(200).json({
+      year,
+      statements: statements.map(({ email, name, donations, total, sentAt }) => ({
+        email,
+        name,
+        donationCount: donations.length,
+        total,
+        sentAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error loading giving statements:', error);
+    res.status(500).json({ error: 'Failed to load giving statements' });
+  }
+}
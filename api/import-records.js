@@ -0,0 +1,41 @@
+import { commitImport, importRequestSchema } from './lib/imports.js';
+import { recordAuditEvent } from './lib/audit.js';
+
+// Saves the valid rows of a CSV import of historical donations or
+// registrations in one batch. Invalid and duplicate rows are skipped.
+export default async function handler(req, res) {
+  const parsed = importRequestSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid import',
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  try {
+    const result = await commitImport(parsed.data, req.admin);
+
+    if (!result) {
+      return res.status(409).json({ error: 'None of the rows can be imported' });
+    }
+
+    await recordAuditEvent({
+      actor: req.admin,
+      entityType: 'import',
+      entityId: result.importId,
+      action: 'import',
+      before: {},
+      after: {
+        entity_type: parsed.data.entityType,
+        file_name: parsed.data.fileName,
+        row_count: result.imported,
+      },
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    console.error('Error importing records:', error);
+    res.status(500).json({ error: 'Failed to import' });
+  }
+}
@@ -0,0 +1,33 @@
+import { checkEventOpen, checkParticipants, insertRegistration, priceRegistration, registrationFields } from './lib/registrations.js';
+
+const waitlistSchema = registrationFields.superRefine(checkParticipants);
+
+// Saves a family who could not get a spot. The amount is re-priced when they are promoted.
+export default async function handler(req, res) {
+  const parsed = waitlistSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid waitlist details',
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const payload = parsed.data;
+
+  try {
+    const closedReason = await checkEventOpen(payload.eventId);
+
+    if (closedReason) {
+      return res.status(409).json({ error: closedReason });
+    }
+
+    const quote = await priceRegistration(payload);
+    const registrationId = await insertRegistration(payload, quote, { paymentStatus: 'waitlisted' });
+
+    res.status(200).json({ registrationId });
+  } catch (error) {
+    console.error('Error joining waitlist:', error);
+    res.status(500).json({ error: 'Failed to join waitlist' });
+  }
+}
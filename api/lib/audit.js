@@ -0,0 +1,39 @@
+import { getSupabaseAdmin } from './supabase.js';
+
+/**
+ * Records an admin action in audit_events. Changes admins make from the
+ * browser are logged by a database trigger; the Express admin routes write
+ * with the service role, which the trigger skips, so they call this instead.
+ * Only the fields that actually changed are stored.
+ * @param {{
+ *   actor: { email: string },
+ *   entityType: string,
+ *   entityId: string,
+ *   action: string,
+ *   before: Record<string, unknown>,
+ *   after: Record<string, unknown>,
+ * }} event
+ */
+export const recordAuditEvent = async ({ actor, entityType, entityId, action, before, after }) => {
+  const changed = Object.keys(after).filter((key) => before[key] !== after[key]);
+
+  if (!changed.length) return;
+
+  const pick = (row) => Object.fromEntries(changed.map((key) => [key, row[key] ?? null]));
+
+  // The change itself has already been saved, so a logging failure is reported but not thrown
+  const { error } = await getSupabaseAdmin()
+    .from('audit_events')
+    .insert({
+      actor_email: actor.email,
+      entity_type: entityType,
+      entity_id: entityId,
+      action,
+      before: pick(before),
+      after: pick(after),
+    });
+
+  if (error) {
+    console.error('Error recording audit event:', error);
+  }
+};
@@ -0,0 +1,97 @@
+import { escapeLike, getSupabaseAdmin } from './supabase.js';
+import { hasPermission } from '../../src/lib/permissions.js';
+
+/**
+ * Looks up the admin behind a Supabase Auth access token.
+ * @param {string} accessToken
+ * @returns {Promise<{ id: string, email: string, role: import('../../src/lib/permissions.js').AdminRole } | null>}
+ *   null unless the user is in admin_users and has confirmed their email
+ */
+export const getAdminUser = async (accessToken) => {
+  const supabase = getSupabaseAdmin();
+  const { data: { user }, error } = await supabase.auth.getUser(accessToken);
+
+  // An unconfirmed account could have been signed up with someone else's address
+  if (error || !user?.email || !user.email_confirmed_at) return null;
+
+  const { data: admin, error: adminError } = await supabase
+    .from('admin_users')
+    .select('id, email, role')
+    .ilike('email', escapeLike(user.email))
+    .maybeSingle();
+
+  if (adminError) throw adminError;
+
+  return admin;
+};
+
+const bearerToken = (req) => {
+  const [scheme, accessToken] = (req.headers.authorization || '').split(' ');
+  return scheme === 'Bearer' ? accessToken : undefined;
+};
+
+// Express middleware for /admin routes. Expects the admin's Supabase session
+// token as a Bearer token and sets req.admin for the handlers.
+export const requireAdmin = async (req, res, next) => {
+  const accessToken = bearerToken(req);
+
+  if (!accessToken) {
+    return res.status(401).json({ error: 'Sign in to continue' });
+  }
+
+  try {
+    const admin = await getAdminUser(accessToken);
+
+    if (!admin) {
+      return res.status(403).json({ error: 'You do not have access to the admin area' });
+    }
+
+    req.admin = admin;
+    next();
+  } catch (error) {
+    console.error('Error checking admin session:', error);
+    res.status(500).json({ error: 'Failed to check admin session' });
+  }
+};
+
+/**
+ * Express middleware for a single admin route; use after requireAdmin.
+ * @param {import('../../src/lib/permissions.js').AdminPermission} permission
+ */
+export const requirePermission = (permission) => (req, res, next) => {
+  if (!hasPermission(req.admin?.role, permission)) {
+    return res.status(403).json({ error: 'Your admin role does not allow this action' });
+  }
+
+  next();
+};
+
+// Express middleware for /donor routes. Donors sign in with an emailed link
+// (see api/send-donor-sign-in-link.js), which proves they own the address;
+// req.donor.email is then used to find their donations.
+export const requireDonor = async (req, res, next) => {
+  const accessToken = bearerToken(req);
+
+  if (!accessToken) {
+    return res.status(401).json({ error: 'Sign in to continue' });
+  }
+
+  try {
+    const { data: { user }, error } = await getSupabaseAdmin().auth.getUser(accessToken);
+
+    if (error || !user?.email) {
+      return res.status(401).json({ error: 'Your sign-in link has expired. Please request a new one.' });
+    }
+
+    // Only a confirmed address proves the donor owns it
+    if (!user.email_confirmed_at) {
+      return res.status(403).json({ error: 'Please sign in with the link we emailed you.' });
+    }
+
+    req.donor = { id: user.id, email: user.email };
+    next();
+  } catch (error) {
+    console.error('Error checking donor session:', error);
+    res.status(500).json({ error: 'Failed to check donor session' });
+  }
+};
@@ -0,0 +1,66 @@
+import { getSupabaseAdmin } from './supabase.js';
+
+// How long a pending registration keeps its spots while the family enters card details
+export const PAYMENT_HOLD_MINUTES = 30;
+
+export const paymentHoldExpiry = (from = new Date()) =>
+  new Date(from.getTime() + PAYMENT_HOLD_MINUTES * 60 * 1000).toISOString();
+
+/**
+ * Counts the participants holding a spot at an event: paid registrations,
+ * plus pending ones whose payment hold has not expired. Waitlisted, failed
+ * and refunded registrations do not take up space. For showing availability;
+ * holdRegistrationSpots makes the decision when spots are taken.
+ * @param {string} eventId
+ * @returns {Promise<{ capacity: number | null, taken: number, remaining: number | null }>}
+ *   remaining is null when the event has no capacity limit
+ */
+export const getEventAvailability = async (eventId) => {
+  const supabase = getSupabaseAdmin();
+
+  const { data: event, error: eventError } = await supabase
+    .from('events')
+    .select('capacity')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (eventError) throw eventError;
+
+  const { data: registrations, error } = await supabase
+    .from('registrations')
+    .select('adult_count, kids_count')
+    .eq('event_id', eventId)
+    .or(`payment_status.in.(paid,partially_refunded),and(payment_status.eq.pending,hold_expires_at.gt.${new Date().toISOString()})`);
+
+  if (error) throw error;
+
+  const taken = registrations.reduce((sum, reg) => sum + reg.adult_count + reg.kids_count, 0);
+  const capacity = event?.capacity ?? null;
+
+  return {
+    capacity,
+    taken,
+    remaining: capacity == null ? null : Math.max(capacity - taken, 0),
+  };
+};
+
+/**
+ * Holds a registration's spots until `until` if the event still has room for
+ * them, moving it to pending. Runs in the database with the event locked, so
+ * families reserving at the same time can't together go over capacity.
+ * @param {string} registrationId
+ * @param {string} until - ISO timestamp
+ * @param {'pending' | 'waitlisted'} [fromStatus] - the status the registration must be in
+ * @returns {Promise<boolean>} false when the event is full or the registration has moved on
+ */
+export const holdRegistrationSpots = async (registrationId, until, fromStatus = 'pending') => {
+  const { data, error } = await getSupabaseAdmin().rpc('hold_registration_spots', {
+    target_registration_id: registrationId,
+    hold_until: until,
+    from_status: fromStatus,
+  });
+
+  if (error) throw error;
+
+  return data;
+};
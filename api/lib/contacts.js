@@ -0,0 +1,82 @@
+import { getSupabaseAdmin } from './supabase.js';
+
+// Tables whose records the database links to a contact by email or phone
+const CONTACT_TABLES = ['donations', 'registrations', 'volunteer_applications'];
+
+const union = (a, b) => [...new Set([...a, ...b])];
+
+/**
+ * Keeps a volunteer application from the Join Our Team page. The database
+ * links it to the applicant's contact.
+ * @param {{ firstName: string, lastName: string, email: string, phone?: string, reason: string }} application
+ */
+export const saveVolunteerApplication = async ({ firstName, lastName, email, phone, reason }) => {
+  const { error } = await getSupabaseAdmin()
+    .from('volunteer_applications')
+    .insert({
+      first_name: firstName,
+      last_name: lastName,
+      email,
+      phone: phone || null,
+      reason,
+    });
+
+  if (error) throw error;
+};
+
+/**
+ * Folds a duplicate contact into another. The surviving contact takes on the
+ * duplicate's emails and phone numbers first, so new records keep matching it,
+ * then its donations, registrations and volunteer applications, and the
+ * duplicate is deleted. Safe to run again if it fails part way.
+ * @param {string} contactId - the contact to keep
+ * @param {string} duplicateId - the contact merged into it
+ * @returns {Promise<{ before: object, after: object, duplicate: object } | null>}
+ *   the kept contact before and after, or null if either contact doesn't exist
+ */
+export const mergeContacts = async (contactId, duplicateId) => {
+  const supabase = getSupabaseAdmin();
+  const { data: contacts, error } = await supabase
+    .from('contacts')
+    .select('*')
+    .in('id', [contactId, duplicateId]);
+
+  if (error) throw error;
+
+  const before = contacts.find((contact) => contact.id === contactId);
+  const duplicate = contacts.find((contact) => contact.id === duplicateId);
+
+  if (!before || !duplicate) return null;
+
+  const { data: after, error: updateError } = await supabase
+    .from('contacts')
+    .update({
+      name: before.name || duplicate.name,
+      emails: union(before.emails, duplicate.emails),
+      phones: union(before.phones, duplicate.phones),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', contactId)
+    .select('*')
+    .single();
+
+  if (updateError) throw updateError;
+
+  for (const table of CONTACT_TABLES) {
+    const { error: moveError } = await supabase
+      .from(table)
+      .update({ contact_id: contactId })
+      .eq('contact_id', duplicateId);
+
+    if (moveError) throw moveError;
+  }
+
+  const { error: deleteError } = await supabase
+    .from('contacts')
+    .delete()
+    .eq('id', duplicateId);
+
+  if (deleteError) throw deleteError;
+
+  return { before, after, duplicate };
+};
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+/**
+ * Whether a yyyy-mm-dd string names a day on the calendar, so 2025-02-30 and
+ * 2025-13-01 are rejected rather than rolled over into the next month.
+ * @param {string} value
+ */
+export const isCalendarDate = (value) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return false;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+// A yyyy-mm-dd date from a form or query string
+export const isoDate = z.string().refine(isCalendarDate, 'Expected a date like 2025-01-31');
+
+/**
+ * The timestamp stored for something that happened on a yyyy-mm-dd date, such
+ * as a check received or an imported gift. Midday UTC falls on the same date
+ * in the foundation's time zone.
+ * @param {string} date
+ */
+export const middayTimestamp = (date) => `${date}T12:00:00Z`;
@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { expectedMatch, findEmployer } from '../../src/lib/matching-gifts.js';
+
+export const DEFAULT_DESIGNATION = 'Where Needed Most';
+
+// A gift made in honor or in memory of someone, optionally announced to a
+// recipient by email. Stripe metadata values are limited to 500 characters.
+export const tributeFields = z.object({
+  type: z.enum(['honor', 'memory']),
+  honoreeName: z.string().trim().min(1).max(100),
+  recipientEmail: z.string().email().optional(),
+  message: z.string().trim().max(500).optional(),
+});
+
+// Details every online donation carries, whether it is a one-off gift or recurring
+export const donationFields = z.object({
+  firstName: z.string().min(1).max(100),
+  lastName: z.string().min(1).max(100),
+  email: z.string().email(),
+  amount: z.number().min(1).max(100000),
+  designation: z.string().max(100).optional(),
+  isAnonymous: z.boolean().optional(),
+  // Adds the processing fee on top of amount
+  coverFees: z.boolean().optional(),
+  tribute: tributeFields.optional(),
+  // Set when the donor's employer matches gifts
+  employerName: z.string().trim().min(1).max(100).optional(),
+});
+
+/**
+ * The webhook creates the donation row, so its id and receipt token are chosen
+ * up front to let the browser link to the confirmation page straight away.
+ * @returns {{ donation_id: string, receipt_token: string }}
+ */
+export const newDonationReceipt = () => ({
+  donation_id: crypto.randomUUID(),
+  receipt_token: crypto.randomBytes(24).toString('hex'),
+});
+
+/**
+ * Stripe metadata describing the donor, read back by the webhook.
+ * @param {z.infer<typeof donationFields>} payload
+ * @returns {Record<string, string>}
+ */
+export const donorMetadata = (payload) => ({
+  first_name: payload.firstName,
+  last_name: payload.lastName,
+  email: payload.email,
+  designation: payload.designation || DEFAULT_DESIGNATION,
+  is_anonymous: String(payload.isAnonymous || false),
+  ...(payload.tribute && {
+    tribute_type: payload.tribute.type,
+    tribute_honoree_name: payload.tribute.honoreeName,
+    ...(payload.tribute.recipientEmail && { tribute_recipient_email: payload.tribute.recipientEmail }),
+    ...(payload.tribute.message && { tribute_message: payload.tribute.message }),
+  }),
+  ...(payload.employerName && { employer_name: payload.employerName }),
+});
+
+/**
+ * Donation row columns for the tribute in donorMetadata, if any.
+ * @param {Record<string, string>} metadata
+ */
+export const tributeFromMetadata = (metadata) => ({
+  tribute_type: metadata.tribute_type || null,
+  tribute_honoree_name: metadata.tribute_honoree_name || null,
+  tribute_recipient_email: metadata.tribute_recipient_email || null,
+  tribute_message: metadata.tribute_message || null,
+});
+
+/**
+ * Donation row columns for a gift the donor's employer should match, if any.
+ * @param {Record<string, string>} metadata - donorMetadata
+ * @param {number} amount - the gift in dollars, without any processing fee covered
+ */
+export const matchingGiftFromMetadata = (metadata, amount) =>
+  metadata.employer_name
+    ? {
+      // Listed employers are stored under one spelling so the admin totals group them
+      employer_name: findEmployer(metadata.employer_name)?.name ?? metadata.employer_name,
+      matching_gift_status: 'eligible',
+      matching_gift_expected_amount: expectedMatch(amount, metadata.employer_name),
+    }
+    : {};
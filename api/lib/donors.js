@@ -0,0 +1,21 @@
+import { escapeLike, getSupabaseAdmin } from './supabase.js';
+
+/**
+ * Loads a row only if it belongs to the signed-in donor, matched by email.
+ * @param {'donations' | 'recurring_donations'} table
+ * @param {string} id
+ * @param {{ email: string }} donor - req.donor
+ * @returns the row, or null if it doesn't exist or isn't theirs
+ */
+export const loadDonorRow = async (table, id, donor) => {
+  const { data, error } = await getSupabaseAdmin()
+    .from(table)
+    .select('*')
+    .eq('id', id)
+    .ilike('email', escapeLike(donor.email))
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+};
@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import { fetchAllRows, getSupabaseAdmin } from './supabase.js';
+import { escapeHtml, renderTemplate, sendMail } from './mailer.js';
+import {
+  ORGANIZATION,
+  RECEIPTABLE_STATUSES,
+  donationTotal,
+  donorName,
+  formatDate,
+  formatReceiptNumber,
+  paymentReference,
+  renderLetterPdf,
+} from './tax-receipts.js';
+
+// Calendar years statements can be issued for; query strings arrive as text
+export const statementYearSchema = z.coerce.number().int().min(2000).max(2100);
+
+// January 1 is always in standard time (UTC-8) in the foundation's time zone
+const yearStart = (year) => `${year}-01-01T00:00:00-08:00`;
+
+const formatAmount = (value) => `$${Number(value).toFixed(2)}`;
+
+const normalizeEmail = (email) => email.trim().toLowerCase();
+
+/**
+ * Groups a calendar year's completed donations by donor email, alongside
+ * when each donor's statement was last sent.
+ * @param {number} year
+ * @returns {Promise<Array<{
+ *   email: string,
+ *   name: string,
+ *   donations: Array<Record<string, any>>,
+ *   total: number,
+ *   sentAt: string | null,
+ * }>>} donors sorted by name; each donor's gifts oldest first
+ */
+export const loadGivingStatements = async (year) => {
+  const supabase = getSupabaseAdmin();
+
+  // Paged, so a year with more gifts than one API response holds is still counted in full
+  const [donations, statementsResult] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase
+        .from('donations')
+        .select('*')
+        .in('status', RECEIPTABLE_STATUSES)
+        .gte('created_at', yearStart(year))
+        .lt('created_at', yearStart(year + 1))
+        .order('created_at', { ascending: true })
+        .order('id')
+        .range(from, to)
+    ),
+    supabase
+      .from('giving_statements')
+      .select('email, sent_at')
+      .eq('year', year),
+  ]);
+
+  if (statementsResult.error) throw statementsResult.error;
+
+  const sentAt = new Map(statementsResult.data.map((row) => [row.email, row.sent_at]));
+  const byEmail = new Map();
+
+  for (const donation of donations) {
+    const email = normalizeEmail(donation.email);
+
+    // Offline gifts recorded without an email can't be grouped by donor; their own receipts cover them
+    if (!email) continue;
+
+    if (!byEmail.has(email)) {
+      byEmail.set(email, { email, name: '', donations: [], total: 0, sentAt: sentAt.get(email) ?? null });
+    }
+
+    const statement = byEmail.get(email);
+    statement.donations.push(donation);
+    statement.total += donationTotal(donation);
+    // The most recent gift has the donor's current name
+    statement.name = donorName(donation) || statement.name;
+  }
+
+  return [...byEmail.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * @param {number} year
+ * @param {string} email
+ * @returns one donor's statement from loadGivingStatements, or null if they gave nothing that year
+ */
+export const loadGivingStatement = async (year, email) => {
+  const statements = await loadGivingStatements(year);
+
+  return statements.find((statement) => statement.email === normalizeEmail(email)) ?? null;
+};
+
+/**
+ * Renders a donor's year-end statement, listing every gift, as a PDF.
+ * @param statement - from loadGivingStatements
+ * @param {number} year
+ * @returns {Promise<Buffer>}
+ */
+export const renderGivingStatementPdf = (statement, year) =>
+  renderLetterPdf(`${year} Giving Statement`, (doc) => {
+    doc.font('Helvetica').fontSize(11).fillColor('#333333')
+      .text(statement.name)
+      .text(statement.email);
+    doc.moveDown();
+
+    const columns = [
+      { header: 'Date', x: 72, width: 100 },
+      { header: 'Receipt', x: 172, width: 70 },
+      { header: 'Designation', x: 242, width: 92 },
+      { header: 'Payment reference', x: 334, width: 146 },
+      { header: 'Amount', x: 480, width: 60, align: 'right' },
+    ];
+
+    const drawRow = (values, font) => {
+      const y = doc.y;
+      doc.font(font).fontSize(9);
+      const heights = columns.map((column, index) => {
+        doc.text(values[index] || '-', column.x, y, { width: column.width - 6, align: column.align });
+        return doc.y - y;
+      });
+      doc.y = y + Math.max(...heights) + 4;
+    };
+
+    drawRow(columns.map((column) => column.header), 'Helvetica-Bold');
+
+    for (const donation of statement.donations) {
+      if (doc.y > doc.page.height - 144) {
+        doc.addPage();
+      }
+
+      drawRow(
+        [
+          formatDate(donation.created_at),
+          formatReceiptNumber(donation),
+          donation.designation,
+          paymentReference(donation),
+          formatAmount(donationTotal(donation)),
+        ],
+        'Helvetica'
+      );
+    }
+
+    doc.moveDown();
+    doc.x = 72;
+    doc.font('Helvetica-Bold').fontSize(11).text(
+      `Total contributions in ${year}: ${formatAmount(statement.total)} USD`,
+      { align: 'right', width: 468 }
+    );
+
+    doc.moveDown(2);
+    doc.font('Helvetica').fontSize(10).text(
+      `${ORGANIZATION.name} is a tax-exempt organization under section 501(c)(3) of the Internal ` +
+        `Revenue Code (Tax ID ${ORGANIZATION.taxId}). No goods or services were provided in exchange ` +
+        'for these contributions. They are tax-deductible to the extent allowed by law. Please keep ' +
+        'this statement for your tax records.',
+      { align: 'justify' }
+    );
+
+    doc.moveDown(2);
+    doc.text(`Thank you for supporting ${ORGANIZATION.name}.`);
+  });
+
+// One line per gift in the email body; the PDF is the formal record
+const renderGiftLines = (statement) => ({
+  html: statement.donations
+    .map((donation) =>
+      '<tr>' +
+        `<td>${escapeHtml(formatDate(donation.created_at))}</td>` +
+        `<td>${escapeHtml(donation.designation)}</td>` +
+        `<td>${escapeHtml(paymentReference(donation) || '-')}</td>` +
+        `<td class="amount">${escapeHtml(formatAmount(donationTotal(donation)))}</td>` +
+        '</tr>'
+    )
+    .join('\n'),
+  text: statement.donations
+    .map((donation) =>
+      `${formatDate(donation.created_at)} - ${formatAmount(donationTotal(donation))} - ` +
+        `${donation.designation} (${paymentReference(donation) || 'no payment reference'})`
+    )
+    .join('\n'),
+});
+
+/**
+ * Emails a donor their year-end statement as HTML with the PDF attached, and
+ * records it in giving_statements.
+ * @param statement - from loadGivingStatements
+ * @param {number} year
+ * @param {{ email: string }} actor - the admin sending it
+ * @returns {Promise<{ id: string, sentAt: string }>} the giving_statements row id and send time
+ */
+export const sendGivingStatement = async (statement, year, actor) => {
+  const pdf = await renderGivingStatementPdf(statement, year);
+
+  const { html, text } = renderTemplate('giving-statement', {
+    name: statement.donations[statement.donations.length - 1].first_name || statement.name,
+    year,
+    total: Number(statement.total).toFixed(2),
+    giftCount: statement.donations.length,
+    gifts: renderGiftLines(statement),
+  });
+
+  await sendMail({
+    to: statement.email,
+    subject: `Your ${year} giving statement - Tulip Kids Foundation`,
+    html,
+    text,
+    attachments: [
+      {
+        filename: `TKF-giving-statement-${year}.pdf`,
+        content: pdf,
+        contentType: 'application/pdf',
+      },
+    ],
+  });
+
+  const sentAt = new Date().toISOString();
+  const { data, error } = await getSupabaseAdmin()
+    .from('giving_statements')
+    .upsert(
+      {
+        email: statement.email,
+        year,
+        donation_count: statement.donations.length,
+        total_amount: statement.total,
+        sent_at: sentAt,
+        sent_by: actor.email,
+      },
+      { onConflict: 'email,year' }
+    )
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  return { id: data.id, sentAt };
+};
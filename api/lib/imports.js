@@ -0,0 +1,258 @@
+import { z } from 'zod';
+import { getSupabaseAdmin } from './supabase.js';
+import { donationFields, DEFAULT_DESIGNATION } from './donations.js';
+import { registrationFields } from './registrations.js';
+import { TIME_ZONE } from './tax-receipts.js';
+import { isCalendarDate, middayTimestamp } from './dates.js';
+import { determineFamilyCategory } from '../../src/lib/pricing.js';
+import { IMPORT_FIELDS, MAX_IMPORT_ROWS } from '../../src/lib/import-fields.js';
+
+// Two-digit years are rejected rather than guessed at: 1/31/25 could be 1925 or 2025
+const importDate = z.string().refine(isCalendarDate, 'Expected a real date with a four-digit year, like 2025-01-31 or 1/31/2025');
+
+// Rows arrive as the CSV's text, keyed by the field each column was mapped to
+export const importRequestSchema = z.object({
+  entityType: z.enum(['donation', 'registration']),
+  fileName: z.string().trim().min(1).max(255),
+  // Registrations only: the event every imported registration belongs to
+  eventId: z.string().uuid().optional(),
+  rows: z.array(z.record(z.string())).min(1).max(MAX_IMPORT_ROWS),
+});
+
+const localDate = (timestamp) => new Date(timestamp).toLocaleDateString('en-CA', { timeZone: TIME_ZONE });
+
+// The schemas the server checks online donations and registrations against
+// (donationFields, registrationFields), narrowed to what a spreadsheet records
+// about a past gift or registration. DonationForm and RegistrationForm validate
+// in the browser with schemas of their own. The amount (amountField in the file, amountColumn in
+// the table), email and date make up the key imports are de-duplicated on.
+const IMPORT_TARGETS = {
+  donation: {
+    table: 'donations',
+    amountField: 'amount',
+    amountColumn: 'amount',
+    schema: donationFields
+      .pick({ firstName: true, lastName: true, email: true, amount: true, designation: true, isAnonymous: true })
+      .extend({ date: importDate, donationType: z.string().max(50).optional() }),
+    toRow: (record, importId) => ({
+      first_name: record.firstName,
+      last_name: record.lastName,
+      email: record.email,
+      amount: record.amount,
+      designation: record.designation || DEFAULT_DESIGNATION,
+      is_anonymous: record.isAnonymous || false,
+      donation_type: record.donationType || 'Imported',
+      status: 'completed',
+      created_at: middayTimestamp(record.date),
+      import_id: importId,
+    }),
+  },
+  registration: {
+    table: 'registrations',
+    amountField: 'totalAmount',
+    amountColumn: 'total_amount',
+    schema: registrationFields
+      .pick({ name: true, email: true, phone: true, adultCount: true, kidsCount: true, isTulipParent: true })
+      .extend({ date: importDate, totalAmount: z.number().min(0).max(100000) }),
+    toRow: (record, importId, { eventId }) => ({
+      event_id: eventId || null,
+      name: record.name,
+      email: record.email,
+      phone: record.phone,
+      adult_count: record.adultCount,
+      kids_count: record.kidsCount,
+      family_category: determineFamilyCategory(record.adultCount, record.kidsCount),
+      total_amount: record.totalAmount,
+      is_tulip_parent: record.isTulipParent || false,
+      payment_status: 'paid',
+      created_at: middayTimestamp(record.date),
+      updated_at: middayTimestamp(record.date),
+      import_id: importId,
+    }),
+  },
+};
+
+// Turns a spreadsheet date (2025-01-31 or 1/31/2025) into yyyy-mm-dd
+const parseDate = (text) => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+
+  const match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!match) return text;
+
+  const [, month, day, year] = match;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+// Text that can't be converted is passed through, so the schema reports it against the field
+const CONVERTERS = {
+  string: (text) => text,
+  number: (text) => {
+    const value = Number(text.replace(/[$,\s]/g, ''));
+    return Number.isNaN(value) ? text : value;
+  },
+  boolean: (text) => {
+    if (/^(y|yes|true|1|x)$/i.test(text)) return true;
+    if (/^(n|no|false|0)$/i.test(text)) return false;
+    return text;
+  },
+  date: parseDate,
+};
+
+const convertRow = (entityType, row) => {
+  const converted = {};
+
+  for (const field of IMPORT_FIELDS[entityType]) {
+    const text = row[field.key]?.trim();
+    if (text) converted[field.key] = CONVERTERS[field.type](text);
+  }
+
+  return converted;
+};
+
+const duplicateKey = (email, date, amount) => `${email.trim().toLowerCase()}|${date}|${Number(amount).toFixed(2)}`;
+
+// Keys of the records already in the table for these emails
+const loadExistingKeys = async (entityType, emails) => {
+  const { table, amountColumn } = IMPORT_TARGETS[entityType];
+  const supabase = getSupabaseAdmin();
+  const keys = new Set();
+  // Emails are matched as typed and lowercased, since .in() is case-sensitive
+  const candidates = [...new Set(emails.flatMap((email) => [email, email.toLowerCase()]))];
+
+  // Keeps the query string a reasonable length
+  for (let i = 0; i < candidates.length; i += 100) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(`email, created_at, ${amountColumn}`)
+      .in('email', candidates.slice(i, i + 100));
+
+    if (error) throw error;
+
+    for (const row of data) {
+      keys.add(duplicateKey(row.email, localDate(row.created_at), row[amountColumn]));
+    }
+  }
+
+  return keys;
+};
+
+/**
+ * Converts and validates every row of an import, and flags rows that repeat
+ * an existing record or an earlier row of the file (same email, date and amount).
+ * @param {'donation' | 'registration'} entityType
+ * @param {Array<Record<string, string>>} rows
+ * @returns {Promise<Array<{
+ *   row: number,
+ *   status: 'valid' | 'invalid' | 'duplicate',
+ *   errors?: Record<string, string[]>,
+ *   duplicateOf?: 'existing' | 'file',
+ *   record?: Record<string, any>,
+ * }>>} one result per row, numbered from 1
+ */
+export const validateImport = async (entityType, rows) => {
+  const { schema, amountField } = IMPORT_TARGETS[entityType];
+  const parsed = rows.map((row) => schema.safeParse(convertRow(entityType, row)));
+
+  const emails = parsed.filter((result) => result.success).map((result) => result.data.email);
+  const existingKeys = await loadExistingKeys(entityType, emails);
+  const fileKeys = new Set();
+
+  return parsed.map((result, index) => {
+    const row = index + 1;
+
+    if (!result.success) {
+      return { row, status: 'invalid', errors: result.error.flatten().fieldErrors };
+    }
+
+    const record = result.data;
+    const key = duplicateKey(record.email, record.date, record[amountField]);
+
+    if (existingKeys.has(key)) {
+      return { row, status: 'duplicate', duplicateOf: 'existing' };
+    }
+
+    if (fileKeys.has(key)) {
+      return { row, status: 'duplicate', duplicateOf: 'file' };
+    }
+
+    fileKeys.add(key);
+    return { row, status: 'valid', record };
+  });
+};
+
+/**
+ * Inserts an import's valid rows in a single batch, tagged with a new imports
+ * row so they can be undone together. Invalid and duplicate rows are skipped.
+ * @param {z.infer<typeof importRequestSchema>} request
+ * @param {{ email: string }} admin
+ * @returns {Promise<{ importId: string, imported: number, skipped: number } | null>}
+ *   null when no row could be imported
+ */
+export const commitImport = async ({ entityType, fileName, eventId, rows }, admin) => {
+  const { table, toRow } = IMPORT_TARGETS[entityType];
+  const results = await validateImport(entityType, rows);
+  const records = results.filter((result) => result.status === 'valid').map((result) => result.record);
+
+  if (!records.length) return null;
+
+  const supabase = getSupabaseAdmin();
+  const { data: batch, error } = await supabase
+    .from('imports')
+    .insert({
+      entity_type: entityType,
+      file_name: fileName,
+      row_count: records.length,
+      skipped_count: rows.length - records.length,
+      imported_by: admin.email,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  const { error: insertError } = await supabase
+    .from(table)
+    .insert(records.map((record) => toRow(record, batch.id, { eventId })));
+
+  if (insertError) {
+    // The batch insert is all or nothing, so only the imports row needs removing
+    await supabase.from('imports').delete().eq('id', batch.id);
+    throw insertError;
+  }
+
+  return { importId: batch.id, imported: records.length, skipped: rows.length - records.length };
+};
+
+/**
+ * Deletes every record an import added and marks the import undone.
+ * @param {string} importId
+ * @param {{ email: string }} admin
+ * @returns the imports row as it was before, or null if there is no such import
+ */
+export const undoImport = async (importId, admin) => {
+  const supabase = getSupabaseAdmin();
+  const { data: batch, error } = await supabase
+    .from('imports')
+    .select('*')
+    .eq('id', importId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!batch || batch.undone_at) return batch;
+
+  const { error: deleteError } = await supabase
+    .from(IMPORT_TARGETS[batch.entity_type].table)
+    .delete()
+    .eq('import_id', importId);
+
+  if (deleteError) throw deleteError;
+
+  const { error: updateError } = await supabase
+    .from('imports')
+    .update({ undone_at: new Date().toISOString(), undone_by: admin.email })
+    .eq('id', importId);
+
+  if (updateError) throw updateError;
+
+  return batch;
+};
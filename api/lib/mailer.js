@@ -0,0 +1,71 @@
+import nodemailer from 'nodemailer';
+import fs from 'fs';
+import path from 'path';
+
+let transporter;
+
+// Created on first use because dotenv has not run yet when this module is imported
+const getTransporter = () => {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      service: 'gmail',
+      auth: {
+        user: process.env.EMAIL_USER,
+        pass: process.env.EMAIL_PASSWORD,
+      },
+    });
+  }
+
+  return transporter;
+};
+
+export const escapeHtml = (value) =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const readTemplate = (fileName) =>
+  fs.readFileSync(path.join(process.cwd(), 'email-templates', fileName), 'utf8');
+
+/**
+ * Fills the {{placeholders}} in email-templates/<name>.html and <name>.txt.
+ * Values are HTML-escaped in the HTML version. A `{ html, text }` value is
+ * inserted as-is into each version, for markup like table rows that the
+ * caller has already escaped.
+ * @param {string} name - template file name without extension
+ * @param {Record<string, string | number | { html: string, text: string }>} values
+ * @returns {{ html: string, text: string }}
+ */
+export const renderTemplate = (name, values) => {
+  const fill = (template, format, transform) =>
+    template.replace(/{{(\w+)}}/g, (match, key) => {
+      if (!(key in values)) return match;
+      const value = values[key];
+      return typeof value === 'object' ? value[format] : transform(value);
+    });
+
+  return {
+    html: fill(readTemplate(`${name}.html`), 'html', escapeHtml),
+    text: fill(readTemplate(`${name}.txt`), 'text', String),
+  };
+};
+
+/**
+ * @param {{ to: string, subject: string, html: string, text: string, attachments?: import('nodemailer').SendMailOptions['attachments'] }} message
+ */
+export const sendMail = async ({ to, subject, html, text, attachments }) => {
+  const info = await getTransporter().sendMail({
+    from: process.env.EMAIL_FROM,
+    to,
+    subject,
+    text,
+    html,
+    attachments,
+  });
+
+  console.log('Email sent:', info.messageId);
+
+  return info;
+};
@@ -0,0 +1,412 @@
+import { getStripe } from './stripe.js';
+import { getSupabaseAdmin } from './supabase.js';
+import { sendTicketEmail } from './tickets.js';
+import { holdRegistrationSpots, paymentHoldExpiry } from './capacity.js';
+import { sendRefundEmail } from './refunds.js';
+import { sendFirstDonationReceipt } from './tax-receipts.js';
+import { DEFAULT_DESIGNATION, matchingGiftFromMetadata, tributeFromMetadata } from './donations.js';
+import { sendFirstTributeCard } from './tributes.js';
+
+// Statuses a row may move out of for each target status. Stripe can deliver
+// events out of order or more than once, so a completed payment is never
+// downgraded to failed and replays leave the row unchanged.
+const DONATION_TRANSITIONS = {
+  completed: ['pending', 'failed'],
+  failed: ['pending'],
+  partially_refunded: ['completed', 'partially_refunded'],
+  refunded: ['completed', 'partially_refunded'],
+};
+
+const REGISTRATION_TRANSITIONS = {
+  paid: ['pending', 'failed'],
+  failed: ['pending'],
+  partially_refunded: ['paid', 'partially_refunded'],
+  refunded: ['paid', 'partially_refunded'],
+  waitlisted: ['pending'],
+};
+
+const PAYMENT_INTENT_STATUSES = {
+  succeeded: { donation: 'completed', registration: 'paid' },
+  failed: { donation: 'failed', registration: 'failed' },
+};
+
+// Expandable Stripe fields hold either an id or the expanded object
+const idOf = (value) => (typeof value === 'string' ? value : value?.id);
+
+// Splits what Stripe charged into the gift and the processing fee the donor covered
+const splitCharge = (cents, metadata) => {
+  const feeCovered = Number(metadata.fee_covered_amount) || 0;
+
+  return {
+    amount: (cents - Math.round(feeCovered * 100)) / 100,
+    fee_covered_amount: feeCovered,
+  };
+};
+
+const donationFromPaymentIntent = (paymentIntent, status) => {
+  const { metadata } = paymentIntent;
+  const charge = splitCharge(paymentIntent.amount, metadata);
+
+  return {
+    // Chosen when the PaymentIntent was created so the browser can find this row
+    ...(metadata.donation_id && { id: metadata.donation_id }),
+    ...(metadata.receipt_token && { receipt_token: metadata.receipt_token }),
+    first_name: metadata.first_name || '',
+    last_name: metadata.last_name || '',
+    email: metadata.email || paymentIntent.receipt_email || '',
+    ...charge,
+    designation: metadata.designation || DEFAULT_DESIGNATION,
+    is_anonymous: metadata.is_anonymous === 'true',
+    ...tributeFromMetadata(metadata),
+    ...matchingGiftFromMetadata(metadata, charge.amount),
+    payment_id: paymentIntent.id,
+    donation_type: 'Website Donation',
+    status,
+  };
+};
+
+const updateDonationStatus = async (paymentIntentId, status) => {
+  const { error } = await getSupabaseAdmin()
+    .from('donations')
+    .update({ status })
+    .eq('payment_id', paymentIntentId)
+    .in('status', DONATION_TRANSITIONS[status]);
+
+  if (error) throw error;
+};
+
+const updateRegistrationStatus = async (paymentIntent, status) => {
+  let query = getSupabaseAdmin()
+    .from('registrations')
+    .update({
+      payment_status: status,
+      transaction_id: paymentIntent.id,
+      updated_at: new Date().toISOString(),
+    })
+    .in('payment_status', REGISTRATION_TRANSITIONS[status]);
+
+  query = paymentIntent.metadata?.registration_id
+    ? query.eq('id', paymentIntent.metadata.registration_id)
+    : query.eq('transaction_id', paymentIntent.id);
+
+  const { data, error } = await query.select('id');
+
+  if (error) throw error;
+
+  // Only the rows this call actually moved, so replays don't repeat side effects
+  return data.map((row) => row.id);
+};
+
+const sendTicketEmails = async (registrationIds) => {
+  for (const registrationId of registrationIds) {
+    try {
+      await sendTicketEmail(registrationId);
+    } catch (error) {
+      // The payment is already recorded; a retry would not resend, so just log it
+      console.error(`Error sending ticket email for registration ${registrationId}:`, error);
+    }
+  }
+};
+
+/**
+ * A family can finish paying after their hold has lapsed and the spots have
+ * gone to someone else. Holds the spots again if the event still has room;
+ * otherwise refunds the payment and puts the family on the waitlist.
+ * @param paymentIntent - succeeded Stripe PaymentIntent for a registration
+ * @returns {Promise<boolean>} whether the payment can be recorded as paid
+ */
+const claimLatePayment = async (paymentIntent) => {
+  const registrationId = paymentIntent.metadata?.registration_id;
+
+  if (!registrationId) return true;
+
+  const supabase = getSupabaseAdmin();
+  const { data: registration, error } = await supabase
+    .from('registrations')
+    .select('*')
+    .eq('id', registrationId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const holdExpired = registration?.payment_status === 'pending' &&
+    registration.hold_expires_at && new Date(registration.hold_expires_at) <= new Date();
+
+  if (!holdExpired || await holdRegistrationSpots(registration.id, paymentHoldExpiry())) {
+    return true;
+  }
+
+  // Keyed on the PaymentIntent so a replayed event can't refund twice
+  const refund = await getStripe().refunds.create(
+    {
+      payment_intent: paymentIntent.id,
+      metadata: { type: 'registration', entity_id: registration.id },
+    },
+    { idempotencyKey: `late-payment-refund-${paymentIntent.id}` }
+  );
+
+  const { error: refundError } = await supabase
+    .from('refunds')
+    .upsert({
+      entity_type: 'registration',
+      entity_id: registration.id,
+      payment_intent_id: paymentIntent.id,
+      stripe_refund_id: refund.id,
+      amount: refund.amount / 100,
+      reason: 'Paid after the payment hold expired and the event had filled up',
+      status: refund.status,
+    }, { onConflict: 'stripe_refund_id', ignoreDuplicates: true });
+
+  if (refundError) throw refundError;
+
+  const { data: waitlisted, error: updateError } = await supabase
+    .from('registrations')
+    .update({
+      payment_status: 'waitlisted',
+      hold_expires_at: null,
+      transaction_id: paymentIntent.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', registration.id)
+    .eq('payment_status', 'pending')
+    .select('id');
+
+  if (updateError) throw updateError;
+
+  if (waitlisted.length) {
+    try {
+      await sendRefundEmail('registration', registration, {
+        amount: refund.amount / 100,
+        isFull: true,
+        reason: 'because the walk filled up before your payment went through. Your family is on the waitlist, and we\'ll email you if spots open up',
+      });
+    } catch (emailError) {
+      // The refund and waitlisting are recorded; a retry would not resend, so just log it
+      console.error(`Error sending late payment refund email for registration ${registration.id}:`, emailError);
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Records the outcome of a PaymentIntent against the donation or registration
+ * it paid for. Safe to call repeatedly for the same PaymentIntent.
+ * @param paymentIntent - Stripe PaymentIntent object
+ * @param outcome - 'succeeded' or 'failed'
+ */
+export const syncPaymentIntent = async (paymentIntent, outcome) => {
+  const type = paymentIntent.metadata?.type;
+  const status = PAYMENT_INTENT_STATUSES[outcome]?.[type];
+
+  if (!status) {
+    console.log(`Ignoring PaymentIntent ${paymentIntent.id} (type: ${type}, outcome: ${outcome})`);
+    return;
+  }
+
+  if (type === 'donation') {
+    // The browser no longer writes donations, so create the row if this is the first event we see
+    const { error } = await getSupabaseAdmin()
+      .from('donations')
+      .upsert(donationFromPaymentIntent(paymentIntent, status), {
+        onConflict: 'payment_id',
+        ignoreDuplicates: true,
+      });
+
+    if (error) throw error;
+
+    await updateDonationStatus(paymentIntent.id, status);
+
+    if (status === 'completed') {
+      await sendFirstDonationReceipt(paymentIntent.id);
+      await sendFirstTributeCard(paymentIntent.id);
+    }
+    return;
+  }
+
+  if (status === 'paid' && !(await claimLatePayment(paymentIntent))) {
+    return;
+  }
+
+  const updatedIds = await updateRegistrationStatus(paymentIntent, status);
+
+  if (status === 'paid') {
+    await sendTicketEmails(updatedIds);
+  }
+};
+
+const donationFromInvoice = (invoice, paymentIntentId) => {
+  const metadata = invoice.subscription_details.metadata;
+  // The first invoice is paid in the browser, which already has this row's id
+  const isFirstPayment = invoice.billing_reason === 'subscription_create';
+  const charge = splitCharge(invoice.amount_paid, metadata);
+
+  return {
+    ...(isFirstPayment && metadata.first_donation_id && { id: metadata.first_donation_id }),
+    ...(isFirstPayment && metadata.first_receipt_token && { receipt_token: metadata.first_receipt_token }),
+    first_name: metadata.first_name || '',
+    last_name: metadata.last_name || '',
+    email: metadata.email || invoice.customer_email || '',
+    ...charge,
+    designation: metadata.designation || DEFAULT_DESIGNATION,
+    is_anonymous: metadata.is_anonymous === 'true',
+    ...tributeFromMetadata(metadata),
+    ...matchingGiftFromMetadata(metadata, charge.amount),
+    payment_id: paymentIntentId,
+    donation_type: 'Recurring',
+    recurring_donation_id: metadata.recurring_donation_id,
+    status: 'completed',
+  };
+};
+
+/**
+ * Records a paid invoice of a recurring donation as a completed donation.
+ * Safe to call repeatedly for the same invoice.
+ * @param invoice - Stripe Invoice object from an invoice.paid event
+ */
+export const syncInvoicePayment = async (invoice) => {
+  const paymentIntentId = idOf(invoice.payment_intent);
+
+  if (invoice.subscription_details?.metadata?.type !== 'recurring_donation' || !paymentIntentId) {
+    console.log(`Ignoring invoice ${invoice.id}`);
+    return;
+  }
+
+  const { error } = await getSupabaseAdmin()
+    .from('donations')
+    .upsert(donationFromInvoice(invoice, paymentIntentId), {
+      onConflict: 'payment_id',
+      ignoreDuplicates: true,
+    });
+
+  if (error) throw error;
+
+  await updateDonationStatus(paymentIntentId, 'completed');
+  await sendFirstDonationReceipt(paymentIntentId);
+
+  // Every gift of a recurring donation carries its tribute, but the card goes out once
+  if (invoice.billing_reason === 'subscription_create') {
+    await sendFirstTributeCard(paymentIntentId);
+  }
+};
+
+/**
+ * Copies a recurring donation's subscription status (active, past_due,
+ * canceled, ...), pause and billing period onto its recurring_donations row.
+ * @param subscription - Stripe Subscription from a customer.subscription.* event
+ */
+export const syncSubscription = async (subscription) => {
+  if (subscription.metadata?.type !== 'recurring_donation') {
+    console.log(`Ignoring subscription ${subscription.id}`);
+    return;
+  }
+
+  let query = getSupabaseAdmin()
+    .from('recurring_donations')
+    .update({
+      status: subscription.status,
+      is_paused: !!subscription.pause_collection,
+      current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
+      canceled_at: subscription.canceled_at ? new Date(subscription.canceled_at * 1000).toISOString() : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('stripe_subscription_id', subscription.id);
+
+  // Canceled subscriptions never come back, so a late update can't revive one
+  if (subscription.status !== 'canceled') {
+    query = query.neq('status', 'canceled');
+  }
+
+  const { error } = await query;
+
+  if (error) throw error;
+};
+
+// Stripe's refunded total only grows, so an older event delivered late can't lower it
+const recordRefundedAmount = async (table, paymentColumn, paymentIntentId, refundedAmount) => {
+  const { error } = await getSupabaseAdmin()
+    .from(table)
+    .update({ refunded_amount: refundedAmount })
+    .eq(paymentColumn, paymentIntentId)
+    .lt('refunded_amount', refundedAmount);
+
+  if (error) throw error;
+};
+
+/**
+ * Moves whatever a PaymentIntent paid for to refunded or partially_refunded.
+ * @param {string} paymentIntentId
+ * @param {'refunded' | 'partially_refunded'} status
+ * @param {string} [type] - 'donation' or 'registration'; both are checked when unknown
+ * @param {number} [refundedAmount] - dollars refunded from the charge so far
+ */
+export const recordRefundStatus = async (paymentIntentId, status, type, refundedAmount) => {
+  if (type !== 'registration') {
+    await updateDonationStatus(paymentIntentId, status);
+
+    if (refundedAmount !== undefined) {
+      await recordRefundedAmount('donations', 'payment_id', paymentIntentId, refundedAmount);
+    }
+  }
+
+  if (type !== 'donation') {
+    const { error } = await getSupabaseAdmin()
+      .from('registrations')
+      .update({ payment_status: status, updated_at: new Date().toISOString() })
+      .eq('transaction_id', paymentIntentId)
+      .in('payment_status', REGISTRATION_TRANSITIONS[status]);
+
+    if (error) throw error;
+
+    if (refundedAmount !== undefined) {
+      await recordRefundedAmount('registrations', 'transaction_id', paymentIntentId, refundedAmount);
+    }
+  }
+};
+
+/**
+ * Marks the donation or registration behind a refunded charge as refunded,
+ * or partially refunded when only part of the charge was returned.
+ * @param charge - Stripe Charge object from a charge.refunded event
+ */
+export const syncChargeRefund = async (charge) => {
+  const paymentIntentId = idOf(charge.payment_intent);
+
+  if (!paymentIntentId) {
+    console.log(`Ignoring refund for charge ${charge.id} without a PaymentIntent`);
+    return;
+  }
+
+  await recordRefundStatus(
+    paymentIntentId,
+    charge.refunded ? 'refunded' : 'partially_refunded',
+    charge.metadata?.type,
+    charge.amount_refunded / 100
+  );
+};
+
+/**
+ * Returns a promoted family to the waitlist when their Checkout link expires
+ * unpaid, releasing the spots it was holding.
+ * @param session - Stripe Checkout Session from a checkout.session.expired event
+ */
+export const syncExpiredCheckout = async (session) => {
+  const registrationId = session.metadata?.registration_id;
+
+  if (session.metadata?.type !== 'registration' || !registrationId) {
+    console.log(`Ignoring expired Checkout Session ${session.id}`);
+    return;
+  }
+
+  const { error } = await getSupabaseAdmin()
+    .from('registrations')
+    .update({
+      payment_status: 'waitlisted',
+      hold_expires_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', registrationId)
+    .in('payment_status', REGISTRATION_TRANSITIONS.waitlisted);
+
+  if (error) throw error;
+};
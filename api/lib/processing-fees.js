@@ -0,0 +1,38 @@
+import { calculateProcessingFee, DEFAULT_PROCESSING_FEE_RATE } from '../../src/lib/processing-fees.js';
+
+const envNumber = (name, fallback) => {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+/**
+ * The rate offered to donors and families, from PROCESSING_FEE_PERCENT and
+ * PROCESSING_FEE_FIXED (dollars), falling back to Stripe's standard rate.
+ * @returns {import('../../src/lib/processing-fees.js').ProcessingFeeRate}
+ */
+export const getProcessingFeeRate = () => ({
+  percent: envNumber('PROCESSING_FEE_PERCENT', DEFAULT_PROCESSING_FEE_RATE.percent),
+  fixed: envNumber('PROCESSING_FEE_FIXED', DEFAULT_PROCESSING_FEE_RATE.fixed),
+});
+
+/**
+ * @param {number} amount - dollars
+ * @param {boolean | undefined} coverFees - whether the payer chose to cover fees
+ * @returns {number} the fee to add, in dollars; 0 unless they chose to cover it
+ */
+export const processingFeeFor = (amount, coverFees) =>
+  coverFees ? calculateProcessingFee(amount, getProcessingFeeRate()) : 0;
+
+/**
+ * The total paid for emails, noting any processing fee the payer covered,
+ * e.g. "51.81 (including $1.81 to cover processing fees)".
+ * @param {number | string} amount - gift or registration price, dollars
+ * @param {number | string | null | undefined} feeCovered - dollars
+ * @returns {string}
+ */
+export const formatAmountPaid = (amount, feeCovered) => {
+  const fee = Number(feeCovered) || 0;
+  const total = (Number(amount) + fee).toFixed(2);
+
+  return fee > 0 ? `${total} (including $${fee.toFixed(2)} to cover processing fees)` : total;
+};
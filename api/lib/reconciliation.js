@@ -0,0 +1,289 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { getStripe } from './stripe.js';
+import { fetchAllRows, getSupabaseAdmin } from './supabase.js';
+import { TIME_ZONE } from './tax-receipts.js';
+import { isoDate } from './dates.js';
+import { isOfflineDonation } from '../../src/lib/offline-donations.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stripe lists every PaymentIntent in the range, so keep it to about a year
+const MAX_RANGE_DAYS = 366;
+
+// Inclusive yyyy-mm-dd dates in the foundation's time zone
+export const reconciliationRangeSchema = z
+  .object({ from: isoDate, to: isoDate })
+  .refine(({ from, to }) => from <= to, { message: 'Must not be before from', path: ['to'] })
+  .refine(({ from, to }) => Date.parse(to) - Date.parse(from) < MAX_RANGE_DAYS * DAY_MS, {
+    message: `Ranges are limited to ${MAX_RANGE_DAYS} days`,
+    path: ['to'],
+  });
+
+// Where each kind of record keeps its payment and amount, and the status it
+// should have for a payment that succeeded with nothing, part or all refunded.
+// Stripe charges the amount plus any processing fee the payer covered.
+// isOffline marks records that were never meant to go through Stripe, such as
+// checks recorded by hand and CSV imports of historical data.
+const RECORD_KINDS = {
+  registration: {
+    table: 'registrations',
+    paymentColumn: 'transaction_id',
+    amountColumn: 'total_amount',
+    statusColumn: 'payment_status',
+    settledStatuses: { none: 'paid', partial: 'partially_refunded', full: 'refunded' },
+    describe: (row) => ({ name: row.name, email: row.email }),
+    isOffline: (row) => !!row.import_id,
+  },
+  donation: {
+    table: 'donations',
+    paymentColumn: 'payment_id',
+    amountColumn: 'amount',
+    statusColumn: 'status',
+    settledStatuses: { none: 'completed', partial: 'partially_refunded', full: 'refunded' },
+    describe: (row) => ({ name: `${row.first_name} ${row.last_name}`.trim(), email: row.email }),
+    isOffline: (row) => isOfflineDonation(row) || !!row.import_id,
+  },
+};
+
+// The fixture replaces the Stripe API when STRIPE_RECONCILIATION_FIXTURE=true,
+// so the report can be tried without a Stripe account
+const FIXTURE_PATH = path.join(process.cwd(), 'api', 'fixtures', 'reconciliation', 'payment_intents.json');
+
+const useFixture = () => process.env.STRIPE_RECONCILIATION_FIXTURE === 'true';
+
+const readFixture = () => JSON.parse(fs.readFileSync(FIXTURE_PATH, 'utf8')).data;
+
+// Midnight at the start of a yyyy-mm-dd date in the foundation's time zone.
+// 08:00 UTC is midnight or 1am there, before any 2am daylight-saving change.
+const dayStart = (date) => {
+  const offset = new Intl.DateTimeFormat('en-US', { timeZone: TIME_ZONE, timeZoneName: 'longOffset' })
+    .formatToParts(new Date(`${date}T08:00:00Z`))
+    .find((part) => part.type === 'timeZoneName')
+    .value.replace('GMT', '');
+
+  return new Date(`${date}T00:00:00${offset || 'Z'}`);
+};
+
+const nextDay = (date) => new Date(Date.parse(date) + DAY_MS).toISOString().slice(0, 10);
+
+const toDollars = (cents) => cents / 100;
+
+// Recurring gifts are paid through invoices, whose PaymentIntents carry no metadata of ours
+const paymentKind = (paymentIntent) =>
+  paymentIntent.metadata?.type || (paymentIntent.invoice ? 'donation' : null);
+
+const summarizePayment = (paymentIntent) => {
+  const charge = typeof paymentIntent.latest_charge === 'object' ? paymentIntent.latest_charge : null;
+
+  return {
+    id: paymentIntent.id,
+    kind: paymentKind(paymentIntent),
+    status: paymentIntent.status,
+    amount: toDollars(paymentIntent.amount),
+    refunded: toDollars(charge?.amount_refunded ?? 0),
+    created: new Date(paymentIntent.created * 1000).toISOString(),
+    description: paymentIntent.description || null,
+    email: paymentIntent.receipt_email || paymentIntent.metadata?.email || null,
+  };
+};
+
+const listPaymentIntents = async (start, end) => {
+  if (useFixture()) {
+    return readFixture().filter(
+      (paymentIntent) => paymentIntent.created >= start / 1000 && paymentIntent.created < end / 1000
+    );
+  }
+
+  const paymentIntents = [];
+
+  for await (const paymentIntent of getStripe().paymentIntents.list({
+    created: { gte: Math.floor(start / 1000), lt: Math.floor(end / 1000) },
+    expand: ['data.latest_charge'],
+    limit: 100,
+  })) {
+    paymentIntents.push(paymentIntent);
+  }
+
+  return paymentIntents;
+};
+
+// PaymentIntents outside the range that records inside it point at, e.g. a
+// waitlisted family who registered in March but paid in April
+const retrievePaymentIntents = async (ids) => {
+  if (useFixture()) {
+    return readFixture().filter((paymentIntent) => ids.includes(paymentIntent.id));
+  }
+
+  const paymentIntents = [];
+
+  for (const id of ids) {
+    try {
+      paymentIntents.push(await getStripe().paymentIntents.retrieve(id, { expand: ['latest_charge'] }));
+    } catch (error) {
+      if (error.code !== 'resource_missing') throw error;
+    }
+  }
+
+  return paymentIntents;
+};
+
+// Records created in the range that claim a payment, plus any record
+// pointing at one of the range's PaymentIntents whenever it was created
+const loadRecords = async (kind, start, end, paymentIds) => {
+  const { table, paymentColumn, statusColumn, settledStatuses } = RECORD_KINDS[kind];
+  const supabase = getSupabaseAdmin();
+
+  // Paged, so a busy range isn't cut off at one API response and its charges reported as missing
+  const inRange = await fetchAllRows((from, to) =>
+    supabase
+      .from(table)
+      .select('*')
+      .in(statusColumn, Object.values(settledStatuses))
+      .gte('created_at', start.toISOString())
+      .lt('created_at', end.toISOString())
+      .order('created_at')
+      .order('id')
+      .range(from, to)
+  );
+
+  const records = new Map(inRange.map((row) => [row.id, row]));
+
+  // Keeps the query string a reasonable length
+  for (let i = 0; i < paymentIds.length; i += 100) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .in(paymentColumn, paymentIds.slice(i, i + 100));
+
+    if (error) throw error;
+
+    for (const row of data) {
+      records.set(row.id, row);
+    }
+  }
+
+  return [...records.values()];
+};
+
+const expectedStatus = (kind, payment) => {
+  const { settledStatuses } = RECORD_KINDS[kind];
+
+  if (payment.refunded <= 0) return settledStatuses.none;
+  return payment.refunded < payment.amount ? settledStatuses.partial : settledStatuses.full;
+};
+
+const sameAmount = (a, b) => Math.abs(Number(a) - Number(b)) < 0.005;
+
+const amountCharged = (kind, record) =>
+  Number(record[RECORD_KINDS[kind].amountColumn]) + Number(record.fee_covered_amount || 0);
+
+/**
+ * Why a record and its Stripe payment disagree, if they do:
+ * - missing_payment: the record says it was paid but Stripe has no successful
+ *   payment behind it, e.g. a registration marked paid by hand
+ * - amount_mismatch: Stripe charged a different amount than the record shows
+ * - status_mismatch: the record's status doesn't reflect Stripe's outcome or
+ *   refunds, usually because a webhook was missed
+ */
+const recordIssue = (kind, record, payment) => {
+  const { statusColumn } = RECORD_KINDS[kind];
+
+  if (payment?.status !== 'succeeded') return 'missing_payment';
+  if (!sameAmount(payment.amount, amountCharged(kind, record))) return 'amount_mismatch';
+  if (record[statusColumn] !== expectedStatus(kind, payment)) return 'status_mismatch';
+  return null;
+};
+
+/**
+ * Matches Stripe's PaymentIntents for a date range to registrations and
+ * donations by payment id. Besides the issues from recordIssue, a successful
+ * payment no record points at is flagged missing_record when it was made for
+ * a registration or donation, and orphan_payment when nothing says what it
+ * was for (e.g. charged from the Stripe dashboard).
+ * @param {{ from: string, to: string }} range - inclusive yyyy-mm-dd dates
+ * @returns {Promise<{ source: 'stripe' | 'fixture', items: Array<Record<string, any>> }>}
+ *   one item per record or payment, oldest first
+ */
+export const reconcilePayments = async ({ from, to }) => {
+  const start = dayStart(from);
+  const end = dayStart(nextDay(to));
+
+  const listed = await listPaymentIntents(start.getTime(), end.getTime());
+  const payments = new Map(listed.map((paymentIntent) => [paymentIntent.id, summarizePayment(paymentIntent)]));
+  const paymentIds = [...payments.keys()];
+
+  const recordsByKind = Object.fromEntries(
+    await Promise.all(
+      Object.keys(RECORD_KINDS).map(async (kind) => [kind, await loadRecords(kind, start, end, paymentIds)])
+    )
+  );
+
+  const unlisted = Object.entries(recordsByKind)
+    .flatMap(([kind, records]) => records.map((record) => record[RECORD_KINDS[kind].paymentColumn]))
+    .filter((id) => id?.startsWith('pi_') && !payments.has(id));
+
+  for (const paymentIntent of await retrievePaymentIntents([...new Set(unlisted)])) {
+    payments.set(paymentIntent.id, summarizePayment(paymentIntent));
+  }
+
+  const items = [];
+  const matchedPaymentIds = new Set();
+
+  for (const [kind, records] of Object.entries(recordsByKind)) {
+    const { paymentColumn, statusColumn, settledStatuses, describe, isOffline } = RECORD_KINDS[kind];
+
+    for (const record of records) {
+      // Records that didn't come through the website have no Stripe payment to match
+      if (isOffline(record)) continue;
+
+      const payment = payments.get(record[paymentColumn]) ?? null;
+
+      if (payment) {
+        matchedPaymentIds.add(payment.id);
+      }
+
+      // An unpaid record whose PaymentIntent never succeeded agrees with Stripe
+      const isSettled = Object.values(settledStatuses).includes(record[statusColumn]);
+      if (!isSettled && payment?.status !== 'succeeded') continue;
+
+      items.push({
+        kind,
+        recordId: record.id,
+        ...describe(record),
+        paymentId: record[paymentColumn] || null,
+        created: payment?.created ?? record.created_at,
+        recordAmount: amountCharged(kind, record),
+        recordStatus: record[statusColumn],
+        stripeAmount: payment?.amount ?? null,
+        stripeRefunded: payment?.refunded ?? null,
+        stripeStatus: payment?.status ?? null,
+        issue: recordIssue(kind, record, payment),
+      });
+    }
+  }
+
+  for (const payment of payments.values()) {
+    if (matchedPaymentIds.has(payment.id) || payment.status !== 'succeeded') continue;
+
+    items.push({
+      kind: payment.kind,
+      recordId: null,
+      name: payment.description,
+      email: payment.email,
+      paymentId: payment.id,
+      created: payment.created,
+      recordAmount: null,
+      recordStatus: null,
+      stripeAmount: payment.amount,
+      stripeRefunded: payment.refunded,
+      stripeStatus: payment.status,
+      issue: RECORD_KINDS[payment.kind] ? 'missing_record' : 'orphan_payment',
+    });
+  }
+
+  items.sort((a, b) => a.created.localeCompare(b.created));
+
+  return { source: useFixture() ? 'fixture' : 'stripe', items };
+};
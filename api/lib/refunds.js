@@ -0,0 +1,70 @@
+import { getSupabaseAdmin } from './supabase.js';
+import { renderTemplate, sendMail } from './mailer.js';
+
+// Where each refundable record keeps its payment, and which statuses mean it
+// has been paid through Stripe and not yet fully refunded
+export const REFUNDABLE = {
+  registration: {
+    table: 'registrations',
+    statusColumn: 'payment_status',
+    paymentColumn: 'transaction_id',
+    refundableStatuses: ['paid', 'partially_refunded'],
+  },
+  donation: {
+    table: 'donations',
+    statusColumn: 'status',
+    paymentColumn: 'payment_id',
+    refundableStatuses: ['completed', 'partially_refunded'],
+  },
+};
+
+/**
+ * @param {'registration' | 'donation'} entityType
+ * @param {string} id
+ * @returns the registrations or donations row, or null
+ */
+export const loadRefundable = async (entityType, id) => {
+  const { data, error } = await getSupabaseAdmin()
+    .from(REFUNDABLE[entityType].table)
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+};
+
+const payerDetails = (entityType, record) =>
+  entityType === 'registration'
+    ? { name: record.name, email: record.email, description: 'your Tulip Trot registration' }
+    : {
+      name: record.first_name,
+      email: record.email,
+      description: `your donation to Tulip Kids Foundation (${record.designation})`,
+    };
+
+/**
+ * Lets the payer know their money is on its way back.
+ * @param {'registration' | 'donation'} entityType
+ * @param record - the refunded registrations or donations row
+ * @param {{ amount: number, isFull: boolean, reason?: string }} refund - amount in dollars; reason
+ *   continues the sentence "We've issued a full refund for your Tulip Trot registration, ..."
+ */
+export const sendRefundEmail = async (entityType, record, { amount, isFull, reason }) => {
+  const payer = payerDetails(entityType, record);
+
+  const { html, text } = renderTemplate('refund-confirmation', {
+    name: payer.name,
+    description: reason ? `${payer.description}, ${reason}` : payer.description,
+    amount: amount.toFixed(2),
+    refundKind: isFull ? 'a full refund' : 'a partial refund',
+  });
+
+  await sendMail({
+    to: payer.email,
+    subject: 'Your refund from Tulip Kids Foundation',
+    html,
+    text,
+  });
+};
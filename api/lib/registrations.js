@@ -0,0 +1,148 @@
+import { z } from 'zod';
+import { getSupabaseAdmin } from './supabase.js';
+import { calculateRegistrationPrice, loadPricingRules } from '../../src/lib/pricing.js';
+import { getRegistrationStatus } from '../../src/lib/events.js';
+import { T_SHIRT_SIZES, validateParticipant } from '../../src/lib/participants.js';
+
+const participantSchema = z.object({
+  type: z.enum(['adult', 'child']),
+  name: z.string().trim().min(2).max(100),
+  age: z.number().int().nullable(),
+  tShirtSize: z.enum(T_SHIRT_SIZES),
+});
+
+// Details every Tulip Trot registration carries, whether it is paid now or waitlisted.
+// The name goes into Stripe metadata, whose values are limited to 500 characters.
+export const registrationFields = z.object({
+  eventId: z.string().uuid(),
+  name: z.string().min(2).max(100),
+  email: z.string().email(),
+  phone: z.string().min(10),
+  adultCount: z.number().int().min(1).max(5),
+  kidsCount: z.number().int().min(0).max(5),
+  isTulipParent: z.boolean().optional(),
+  participants: z.array(participantSchema).max(10),
+  emergencyContact: z.object({
+    name: z.string().trim().min(2).max(100),
+    phone: z.string().min(10),
+  }),
+});
+
+// Use with superRefine, since the checks cannot live inside a discriminated union member
+export const checkParticipants = (payload, ctx) => {
+  const count = (type) => payload.participants.filter((p) => p.type === type).length;
+
+  if (count('adult') !== payload.adultCount || count('child') !== payload.kidsCount) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['participants'],
+      message: 'Participants must match the number of adults and kids',
+    });
+  }
+
+  payload.participants.forEach((participant, index) => {
+    Object.entries(validateParticipant(participant)).forEach(([field, message]) => {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['participants', index, field], message });
+    });
+  });
+};
+
+// Adults first, in the order the form listed them
+const sortParticipants = (participants) =>
+  [...participants].sort((a, b) => (a.type === b.type ? 0 : a.type === 'adult' ? -1 : 1));
+
+const insertParticipants = async (registrationId, payload) => {
+  const rows = sortParticipants(payload.participants).map((participant, position) => ({
+    registration_id: registrationId,
+    participant_type: participant.type,
+    position,
+    name: participant.name,
+    age: participant.age,
+    t_shirt_size: participant.tShirtSize,
+    emergency_contact_name: payload.emergencyContact.name,
+    emergency_contact_phone: payload.emergencyContact.phone,
+  }));
+
+  const { error } = await getSupabaseAdmin().from('participants').insert(rows);
+
+  if (error) throw error;
+};
+
+/**
+ * Prices a registration with the event's current pricing rules.
+ * @param {{ eventId: string, adultCount: number, kidsCount: number, isTulipParent?: boolean }} payload
+ */
+export const priceRegistration = async (payload) => {
+  const rules = await loadPricingRules(getSupabaseAdmin(), payload.eventId);
+
+  return calculateRegistrationPrice(rules, {
+    adultCount: payload.adultCount,
+    kidsCount: payload.kidsCount,
+    isTulipParent: payload.isTulipParent,
+  });
+};
+
+/**
+ * Saves a registration and its participants before any money moves, so
+ * abandoned payments and waitlisted families are still visible to the admin panel.
+ * @param payload - validated registrationFields
+ * @param quote - PriceQuote from priceRegistration
+ * @param {{ paymentStatus: 'pending' | 'waitlisted', feeCoveredAmount?: number }} options - a pending
+ *   registration holds no spots until holdRegistrationSpots gives it a hold
+ * @returns {Promise<string>} the new registration's id
+ */
+export const insertRegistration = async (payload, quote, { paymentStatus, feeCoveredAmount }) => {
+  const { data, error } = await getSupabaseAdmin()
+    .from('registrations')
+    .insert({
+      event_id: payload.eventId,
+      name: payload.name,
+      email: payload.email,
+      phone: payload.phone,
+      adult_count: payload.adultCount,
+      kids_count: payload.kidsCount,
+      family_category: quote.familyCategory,
+      total_amount: quote.total,
+      fee_covered_amount: feeCoveredAmount || 0,
+      is_tulip_parent: payload.isTulipParent || false,
+      // Kept alongside the participants table for the CSV export
+      t_shirt_sizes: sortParticipants(payload.participants).map((p) => p.tShirtSize),
+      payment_status: paymentStatus,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  try {
+    await insertParticipants(data.id, payload);
+  } catch (participantError) {
+    // Don't leave a registration holding spots for people we have no details for
+    await getSupabaseAdmin().from('registrations').delete().eq('id', data.id);
+    throw participantError;
+  }
+
+  return data.id;
+};
+
+/**
+ * Returns an error message when the event cannot take registrations right now.
+ * @param {string} eventId
+ */
+export const checkEventOpen = async (eventId) => {
+  const { data: event, error } = await getSupabaseAdmin()
+    .from('events')
+    .select('*')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!event) return 'Event not found';
+
+  const status = getRegistrationStatus(event);
+  if (status === 'not_open') return 'Registration for this event has not opened yet';
+  if (status === 'closed') return 'Registration for this event is closed';
+
+  return null;
+};
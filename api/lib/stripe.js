@@ -0,0 +1,69 @@
+import Stripe from 'stripe';
+
+let stripeClient;
+
+// Metadata required on every PaymentIntent for India export compliance
+export const INDIA_EXPORT_METADATA = {
+  purpose_code: 'P1101', // Donations code
+  purpose_description: 'Charitable donation to non-profit organization',
+  beneficiary_name: 'Tulip Kids Foundation',
+  beneficiary_country: 'US'
+};
+
+// Stripe refuses card charges below 50 cents
+export const MIN_CHARGE_CENTS = 50;
+
+// Created lazily so the secret key is read after dotenv has loaded it
+export const getStripe = () => {
+  if (!stripeClient) {
+    if (!process.env.STRIPE_SECRET_KEY) {
+      throw new Error('STRIPE_SECRET_KEY is not set');
+    }
+
+    stripeClient = new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: '2025-02-24.acacia',
+    });
+  }
+
+  return stripeClient;
+};
+
+// Signature checks need only the endpoint secret, not an API key
+export const constructWebhookEvent = (payload, signature) => {
+  if (!process.env.STRIPE_WEBHOOK_SECRET) {
+    throw new Error('STRIPE_WEBHOOK_SECRET is not set');
+  }
+
+  return Stripe.webhooks.constructEvent(payload, signature, process.env.STRIPE_WEBHOOK_SECRET);
+};
+
+// Recurring gifts are priced per subscription, but Stripe prices need a product to belong to
+const RECURRING_DONATION_PRODUCT_ID = 'tulip_kids_recurring_donation';
+
+/**
+ * Returns the Stripe product recurring donations are billed under, creating it
+ * the first time. Products accept a custom id, so every server shares one.
+ * @returns {Promise<string>} the product id
+ */
+export const getRecurringDonationProduct = async () => {
+  const stripe = getStripe();
+
+  try {
+    const product = await stripe.products.retrieve(RECURRING_DONATION_PRODUCT_ID);
+    return product.id;
+  } catch (error) {
+    if (error.code !== 'resource_missing') throw error;
+  }
+
+  try {
+    const product = await stripe.products.create({
+      id: RECURRING_DONATION_PRODUCT_ID,
+      name: 'Recurring donation to Tulip Kids Foundation',
+    });
+    return product.id;
+  } catch (error) {
+    // Another request created it first
+    if (error.code !== 'resource_already_exists') throw error;
+    return RECURRING_DONATION_PRODUCT_ID;
+  }
+};
@@ -0,0 +1,53 @@
+import { createClient } from '@supabase/supabase-js';
+
+let supabaseAdmin;
+
+// Service-role client for server-side writes; never expose this key to the browser
+export const getSupabaseAdmin = () => {
+  if (!supabaseAdmin) {
+    const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+
+    if (!url || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+    }
+
+    supabaseAdmin = createClient(url, process.env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false },
+    });
+  }
+
+  return supabaseAdmin;
+};
+
+/**
+ * For .ilike() filters that should match a value exactly, ignoring case, e.g.
+ * an email address: escapes the LIKE wildcards it may contain.
+ * @param {string} value
+ */
+export const escapeLike = (value) => value.replace(/[\\%_]/g, '\\$&');
+
+// The most rows the Supabase API returns for one request
+const PAGE_SIZE = 1000;
+
+/**
+ * Reads every row of a query that can grow past the API's row limit, one page
+ * at a time; the server's counterpart of fetchAllRows in src/utils/supabaseUtils.ts.
+ * The query needs a stable order (e.g. ending with the id) so rows don't move
+ * between pages.
+ * @param {(from: number, to: number) => PromiseLike<{ data: any[] | null, error: any }>} page
+ *   runs the query for rows `from` to `to`, inclusive
+ * @returns {Promise<any[]>}
+ */
+export const fetchAllRows = async (page) => {
+  const rows = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    rows.push(...data);
+
+    if (data.length < PAGE_SIZE) return rows;
+  }
+};
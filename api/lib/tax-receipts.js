@@ -0,0 +1,245 @@
+import PDFDocument from 'pdfkit';
+import { getSupabaseAdmin } from './supabase.js';
+import { renderTemplate, sendMail } from './mailer.js';
+import { siteUrl } from './urls.js';
+import { formatAmountPaid } from './processing-fees.js';
+import { describeTribute } from './tributes.js';
+import { middayTimestamp } from './dates.js';
+import { isNoncashDonation, isOfflineDonation } from '../../src/lib/offline-donations.js';
+
+export const ORGANIZATION = {
+  name: 'Tulip Kids Foundation',
+  taxId: '84-4858209',
+  email: 'info@tulipkidsinc.com',
+  phone: '(408) 930-1862',
+};
+
+// Fully refunded gifts aren't deductible. A partially refunded gift is
+// receipted for the part the foundation kept.
+export const RECEIPTABLE_STATUSES = ['completed', 'partially_refunded'];
+
+// Gift dates are the foundation's local dates, whatever zone the server runs in
+export const TIME_ZONE = 'America/Los_Angeles';
+
+/**
+ * @param {{ receipt_number: number }} donation
+ * @returns {string} e.g. "TKF-000042"
+ */
+export const formatReceiptNumber = (donation) => `TKF-${String(donation.receipt_number).padStart(6, '0')}`;
+
+export const formatDate = (value) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: TIME_ZONE });
+
+export const donorName = (donation) => `${donation.first_name} ${donation.last_name}`.trim();
+
+// Processing fees a donor covers are part of their gift, so they count toward the deductible total;
+// anything refunded doesn't
+export const donationTotal = (donation) =>
+  Number(donation.amount) + Number(donation.fee_covered_amount || 0) - Number(donation.refunded_amount || 0);
+
+const formatDollars = (value) => `$${Number(value).toFixed(2)} USD`;
+
+/**
+ * How a gift was paid, as printed on receipts and statements.
+ * @param donation - donations row
+ * @returns {string | null} e.g. a Stripe payment id, "Check #1042" or "Cash"
+ */
+export const paymentReference = (donation) => {
+  if (donation.check_number) {
+    const dated = donation.check_date ? ` dated ${formatDate(middayTimestamp(donation.check_date))}` : '';
+    return `Check #${donation.check_number}${dated}`;
+  }
+
+  return isOfflineDonation(donation) ? donation.donation_type : donation.payment_id;
+};
+
+/**
+ * @param {string} donationId
+ * @returns the donations row, or null
+ */
+export const loadDonation = async (donationId) => {
+  const { data, error } = await getSupabaseAdmin()
+    .from('donations')
+    .select('*')
+    .eq('id', donationId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+};
+
+/**
+ * @param {{ status: string }} donation
+ * @returns {boolean} whether a tax receipt can be issued for the donation
+ */
+export const isReceiptable = (donation) => RECEIPTABLE_STATUSES.includes(donation.status);
+
+/**
+ * Renders a letter-size PDF under the foundation's letterhead.
+ * @param {string} title - heading below the letterhead
+ * @param {(doc: PDFKit.PDFDocument) => void} draw - adds the rest of the content
+ * @returns {Promise<Buffer>}
+ */
+export const renderLetterPdf = (title, draw) =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'LETTER', margin: 72 });
+    const chunks = [];
+
+    doc.on('data', (chunk) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.font('Helvetica-Bold').fontSize(22).fillColor('#f06292').text(ORGANIZATION.name);
+    doc.font('Helvetica').fontSize(10).fillColor('#555555')
+      .text(`501(c)(3) nonprofit organization · Tax ID ${ORGANIZATION.taxId}`)
+      .text(`${ORGANIZATION.email} · ${ORGANIZATION.phone}`);
+
+    doc.moveDown(2);
+    doc.font('Helvetica-Bold').fontSize(16).fillColor('#333333').text(title);
+    doc.moveDown();
+
+    draw(doc);
+
+    doc.end();
+  });
+
+// Stock and in-kind gifts are described and valued; money gifts show any processing fee covered
+// and any amount refunded
+const amountRows = (donation) => {
+  if (isNoncashDonation(donation)) {
+    return [
+      ['Gift', donation.gift_description],
+      ['Fair-market value', formatDollars(donation.amount)],
+    ];
+  }
+
+  if (Number(donation.fee_covered_amount) > 0 || Number(donation.refunded_amount) > 0) {
+    return [
+      ['Gift', formatDollars(donation.amount)],
+      ...(Number(donation.fee_covered_amount) > 0
+        ? [['Processing fees covered', formatDollars(donation.fee_covered_amount)]]
+        : []),
+      ...(Number(donation.refunded_amount) > 0 ? [['Refunded', `-${formatDollars(donation.refunded_amount)}`]] : []),
+      ['Total contribution', formatDollars(donationTotal(donation))],
+    ];
+  }
+
+  return [['Amount', formatDollars(donation.amount)]];
+};
+
+/**
+ * Renders the tax receipt for a donation as a one-page PDF.
+ * @param donation - donations row
+ * @returns {Promise<Buffer>}
+ */
+export const renderDonationReceiptPdf = (donation) =>
+  renderLetterPdf('Donation Receipt', (doc) => {
+    const rows = [
+      ['Receipt number', formatReceiptNumber(donation)],
+      ['Date of gift', formatDate(donation.created_at)],
+      ['Donor', donorName(donation)],
+      ['Email', donation.email],
+      ...amountRows(donation),
+      ['Designation', donation.designation],
+      ...(describeTribute(donation) ? [['Tribute', describeTribute(donation)]] : []),
+      ['Payment reference', paymentReference(donation)],
+    ];
+
+    for (const [label, value] of rows) {
+      const y = doc.y;
+      doc.font('Helvetica-Bold').fontSize(11).fillColor('#333333').text(label, 72, y, { width: 150 });
+      doc.font('Helvetica').text(value || '-', 230, y, { width: 310 });
+      doc.moveDown(0.5);
+    }
+
+    doc.moveDown(2);
+    doc.x = 72;
+    doc.font('Helvetica').fontSize(10).fillColor('#333333').text(
+      `${ORGANIZATION.name} is a tax-exempt organization under section 501(c)(3) of the Internal ` +
+        `Revenue Code (Tax ID ${ORGANIZATION.taxId}). No goods or services were provided in exchange ` +
+        'for this contribution. Your gift is tax-deductible to the extent allowed by law. Please keep ' +
+        'this receipt for your tax records.',
+      { align: 'justify' }
+    );
+
+    doc.moveDown(2);
+    doc.text(`Thank you for supporting ${ORGANIZATION.name}.`);
+  });
+
+/**
+ * Emails a donor their PDF tax receipt and records it as sent.
+ * @param donation - donations row
+ * @returns {Promise<string>} when the receipt was sent
+ */
+export const sendDonationReceipt = async (donation) => {
+  if (!isReceiptable(donation)) {
+    throw new Error(`Donation ${donation.id} is ${donation.status}; receipts are only issued for completed or partially refunded donations`);
+  }
+
+  const receiptNumber = formatReceiptNumber(donation);
+  const pdf = await renderDonationReceiptPdf(donation);
+
+  const { html, text } = renderTemplate('donation-receipt', {
+    name: donation.first_name || donorName(donation),
+    receiptNumber,
+    donationDate: formatDate(donation.created_at),
+    amount: Number(donation.refunded_amount) > 0
+      ? `${donationTotal(donation).toFixed(2)} (after a $${Number(donation.refunded_amount).toFixed(2)} refund)`
+      : formatAmountPaid(donation.amount, donation.fee_covered_amount),
+    designation: donation.designation,
+    myGivingUrl: `${siteUrl()}/my-giving`,
+  });
+
+  await sendMail({
+    to: donation.email,
+    subject: `Your donation receipt ${receiptNumber} - Tulip Kids Foundation`,
+    html,
+    text,
+    attachments: [
+      {
+        filename: `${receiptNumber}.pdf`,
+        content: pdf,
+        contentType: 'application/pdf',
+      },
+    ],
+  });
+
+  const sentAt = new Date().toISOString();
+  const { error } = await getSupabaseAdmin()
+    .from('donations')
+    .update({ certificate_sent: true, receipt_sent_at: sentAt })
+    .eq('id', donation.id);
+
+  if (error) throw error;
+
+  return sentAt;
+};
+
+/**
+ * Sends the receipt for a newly completed donation exactly once. The row is
+ * claimed before sending so webhook replays don't email the donor twice.
+ * @param {string} paymentIntentId
+ */
+export const sendFirstDonationReceipt = async (paymentIntentId) => {
+  const supabase = getSupabaseAdmin();
+  const { data: claimed, error } = await supabase
+    .from('donations')
+    .update({ certificate_sent: true })
+    .eq('payment_id', paymentIntentId)
+    .eq('status', 'completed')
+    .eq('certificate_sent', false)
+    .select('*');
+
+  if (error) throw error;
+
+  for (const donation of claimed) {
+    try {
+      await sendDonationReceipt(donation);
+    } catch (sendError) {
+      console.error(`Error sending receipt for donation ${donation.id}:`, sendError);
+      // Release the claim so an admin can send it from the dashboard
+      await supabase.from('donations').update({ certificate_sent: false }).eq('id', donation.id);
+    }
+  }
+};
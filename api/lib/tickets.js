@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { getSupabaseAdmin } from './supabase.js';
+import { renderTemplate, sendMail } from './mailer.js';
+import { registrationReceiptUrl } from './urls.js';
+import { formatAmountPaid } from './processing-fees.js';
+import { formatEventDate, formatEventTime } from '../../src/lib/events.js';
+
+// Ticket codes look like TT1.<registration id>.<signature>. The signature
+// stops anyone from checking in with a made-up or altered code.
+const TICKET_PREFIX = 'TT1';
+const SIGNATURE_LENGTH = 16;
+
+const sign = (registrationId) => {
+  if (!process.env.TICKET_SIGNING_SECRET) {
+    throw new Error('TICKET_SIGNING_SECRET is not set');
+  }
+
+  return crypto
+    .createHmac('sha256', process.env.TICKET_SIGNING_SECRET)
+    .update(`ticket:${registrationId}`)
+    .digest('hex')
+    .slice(0, SIGNATURE_LENGTH);
+};
+
+/**
+ * @param {string} registrationId
+ * @returns {string} the code encoded in the ticket's QR image
+ */
+export const createTicketCode = (registrationId) =>
+  `${TICKET_PREFIX}.${registrationId}.${sign(registrationId)}`;
+
+/**
+ * Checks a scanned or typed ticket code.
+ * @param {string} code
+ * @returns {string | null} the registration id, or null when the code is not genuine
+ */
+export const verifyTicketCode = (code) => {
+  const [prefix, registrationId, signature] = String(code).trim().split('.');
+
+  if (prefix?.toUpperCase() !== TICKET_PREFIX || !registrationId || signature?.length !== SIGNATURE_LENGTH) {
+    return null;
+  }
+
+  const id = registrationId.toLowerCase();
+  const expected = Buffer.from(sign(id));
+  const actual = Buffer.from(signature.toLowerCase());
+
+  // timingSafeEqual throws on buffers of different lengths, e.g. when the code has non-ASCII characters
+  if (actual.length !== expected.length) return null;
+
+  return crypto.timingSafeEqual(expected, actual) ? id : null;
+};
+
+/**
+ * Loads a registration with its event and participants, as printed on the
+ * ticket and shown at check-in.
+ * @param {string} registrationId
+ * @returns the registration row with `events` and `participants` embedded, or null
+ */
+export const loadTicketHolder = async (registrationId) => {
+  const { data, error } = await getSupabaseAdmin()
+    .from('registrations')
+    .select('*, events (*), participants (*)')
+    .eq('id', registrationId)
+    .order('position', { referencedTable: 'participants' })
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data;
+};
+
+/**
+ * Emails a paid family their confirmation with the QR ticket attached inline.
+ * @param {string} registrationId
+ */
+export const sendTicketEmail = async (registrationId) => {
+  const registration = await loadTicketHolder(registrationId);
+
+  if (!registration) {
+    throw new Error(`Registration ${registrationId} not found`);
+  }
+
+  const event = registration.events;
+  const code = createTicketCode(registration.id);
+  const qrImage = await QRCode.toBuffer(code, { width: 280, margin: 1 });
+
+  const participants = registration.participants.length
+    ? registration.participants.map((p) => `${p.name} (${p.participant_type}, ${p.t_shirt_size})`)
+    : [`${registration.adult_count} adult(s), ${registration.kids_count} kid(s)`];
+
+  const { html, text } = renderTemplate('registration-confirmation', {
+    name: registration.name,
+    eventName: event?.name || 'Tulip Trot',
+    eventDate: event ? formatEventDate(event) : 'To be announced',
+    checkInTime: event?.check_in_opens_at ? formatEventTime(event, 'check_in_opens_at') : 'the start of the event',
+    venue: event ? [event.venue_name, event.venue_address].filter(Boolean).join(', ') : 'To be announced',
+    participants: participants.join(', '),
+    amount: formatAmountPaid(registration.total_amount, registration.fee_covered_amount),
+    ticketCode: code,
+    receiptUrl: registrationReceiptUrl(registration),
+  });
+
+  await sendMail({
+    to: registration.email,
+    subject: `Your ${event?.name || 'Tulip Trot'} ticket - Tulip Kids Foundation`,
+    html,
+    text,
+    attachments: [
+      {
+        filename: 'tulip-trot-ticket.png',
+        content: qrImage,
+        cid: 'ticket-qr',
+      },
+    ],
+  });
+};
@@ -0,0 +1,96 @@
+import { getSupabaseAdmin } from './supabase.js';
+import { escapeHtml, renderTemplate, sendMail } from './mailer.js';
+import { donorName } from './tax-receipts.js';
+
+const TRIBUTE_PHRASES = {
+  honor: 'in honor of',
+  memory: 'in memory of',
+};
+
+/**
+ * @param {{ tribute_type: string | null, tribute_honoree_name: string | null }} donation
+ * @returns {string | null} e.g. "In memory of Rose Nguyen", or null for an ordinary gift
+ */
+export const describeTribute = (donation) => {
+  const phrase = TRIBUTE_PHRASES[donation.tribute_type];
+  if (!phrase || !donation.tribute_honoree_name) return null;
+
+  return `${phrase.charAt(0).toUpperCase()}${phrase.slice(1)} ${donation.tribute_honoree_name}`;
+};
+
+/**
+ * Emails the tribute card announcing a gift to its recipient and records it
+ * as sent. The card names the donor, unless they gave anonymously, but never
+ * the amount.
+ * @param donation - donations row with a tribute recipient
+ * @returns {Promise<string>} when the card was sent
+ */
+export const sendTributeCard = async (donation) => {
+  const phrase = TRIBUTE_PHRASES[donation.tribute_type];
+
+  if (!phrase || !donation.tribute_recipient_email) {
+    throw new Error(`Donation ${donation.id} has no tribute card to send`);
+  }
+
+  const giver = donation.is_anonymous ? 'A friend' : donorName(donation);
+  const message = donation.tribute_message
+    ? {
+      html: `<div class="message">${escapeHtml(donation.tribute_message).replace(/\n/g, '<br>')}</div>`,
+      text: `\n"${donation.tribute_message}"\n`,
+    }
+    : { html: '', text: '' };
+
+  const { html, text } = renderTemplate('tribute-card', {
+    heading: describeTribute(donation),
+    donorName: giver,
+    tributePhrase: phrase,
+    honoreeName: donation.tribute_honoree_name,
+    message,
+  });
+
+  await sendMail({
+    to: donation.tribute_recipient_email,
+    subject: `${giver} made a gift ${phrase} ${donation.tribute_honoree_name} - Tulip Kids Foundation`,
+    html,
+    text,
+  });
+
+  const sentAt = new Date().toISOString();
+  const { error } = await getSupabaseAdmin()
+    .from('donations')
+    .update({ tribute_notified_at: sentAt })
+    .eq('id', donation.id);
+
+  if (error) throw error;
+
+  return sentAt;
+};
+
+/**
+ * Sends the tribute card for a newly completed donation exactly once,
+ * claiming the row first like sendFirstDonationReceipt.
+ * @param {string} paymentIntentId
+ */
+export const sendFirstTributeCard = async (paymentIntentId) => {
+  const supabase = getSupabaseAdmin();
+  const { data: claimed, error } = await supabase
+    .from('donations')
+    .update({ tribute_notified_at: new Date().toISOString() })
+    .eq('payment_id', paymentIntentId)
+    .eq('status', 'completed')
+    .not('tribute_recipient_email', 'is', null)
+    .is('tribute_notified_at', null)
+    .select('*');
+
+  if (error) throw error;
+
+  for (const donation of claimed) {
+    try {
+      await sendTributeCard(donation);
+    } catch (sendError) {
+      console.error(`Error sending tribute card for donation ${donation.id}:`, sendError);
+      // Release the claim so an admin can send it from the dashboard
+      await supabase.from('donations').update({ tribute_notified_at: null }).eq('id', donation.id);
+    }
+  }
+};
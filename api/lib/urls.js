@@ -0,0 +1,15 @@
+// Links back to the public site, for Stripe redirects and emails
+export const siteUrl = () => process.env.SITE_URL || 'http://localhost:5173';
+
+/**
+ * Reload-safe confirmation page for a registration; the token keeps it private.
+ * @param {{ id: string, receipt_token: string }} registration
+ */
+export const registrationReceiptUrl = (registration) =>
+  `${siteUrl()}/success/${registration.id}?token=${registration.receipt_token}`;
+
+/**
+ * @param {{ id: string, receipt_token: string }} donation
+ */
+export const donationReceiptUrl = (donation) =>
+  `${siteUrl()}/donation-success/${donation.id}?token=${donation.receipt_token}`;
@@ -0,0 +1,29 @@
+import { loadTicketHolder, verifyTicketCode } from './lib/tickets.js';
+
+// Resolves a scanned or typed ticket code to the family it was issued to
+export default async function handler(req, res) {
+  const { code } = req.body || {};
+
+  if (!code) {
+    return res.status(400).json({ error: 'code is required' });
+  }
+
+  try {
+    const registrationId = verifyTicketCode(code);
+
+    if (!registrationId) {
+      return res.status(404).json({ error: 'This is not a valid Tulip Trot ticket' });
+    }
+
+    const registration = await loadTicketHolder(registrationId);
+
+    if (!registration) {
+      return res.status(404).json({ error: 'Registration not found' });
+    }
+
+    res.status(200).json({ registration });
+  } catch (error) {
+    console.error('Error looking up ticket:', error);
+    res.status(500).json({ error: 'Failed to look up ticket' });
+  }
+}
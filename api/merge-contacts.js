@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { mergeContacts } from './lib/contacts.js';
+import { recordAuditEvent } from './lib/audit.js';
+
+const mergeSchema = z.object({
+  duplicateId: z.string().uuid(),
+});
+
+// Merges a duplicate contact into the one in the URL
+export default async function handler(req, res) {
+  const parsed = mergeSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid merge request',
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  if (parsed.data.duplicateId === req.params.id) {
+    return res.status(400).json({ error: 'A contact cannot be merged into itself' });
+  }
+
+  try {
+    const result = await mergeContacts(req.params.id, parsed.data.duplicateId);
+
+    if (!result) {
+      return res.status(404).json({ error: 'Contact not found' });
+    }
+
+    const { before, after, duplicate } = result;
+
+    await recordAuditEvent({
+      actor: req.admin,
+      entityType: 'contact',
+      entityId: after.id,
+      action: 'merge',
+      before: { merged_contact: null, emails: before.emails, phones: before.phones },
+      after: { merged_contact: `${duplicate.name} (${duplicate.id})`, emails: after.emails, phones: after.phones },
+    });
+
+    res.status(200).json({ contact: after });
+  } catch (error) {
+    console.error('Error merging contacts:', error);
+    res.status(500).json({ error: 'Failed to merge contacts' });
+  }
+}
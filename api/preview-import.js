@@ -0,0 +1,24 @@
+import { importRequestSchema, validateImport } from './lib/imports.js';
+
+// Checks a CSV import row by row without saving anything, so the wizard can
+// show which rows are invalid or already recorded before committing
+export default async function handler(req, res) {
+  const parsed = importRequestSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid import',
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  try {
+    const results = await validateImport(parsed.data.entityType, parsed.data.rows);
+
+    // The converted records are only needed when committing
+    res.status(200).json({ rows: results.map(({ record, ...result }) => result) });
+  } catch (error) {
+    console.error('Error previewing import:', error);
+    res.status(500).json({ error: 'Failed to check import' });
+  }
+}
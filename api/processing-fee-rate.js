@@ -0,0 +1,6 @@
+import { getProcessingFeeRate } from './lib/processing-fees.js';
+
+// Lets the donation and registration forms show the fee the server will add
+export default function handler(req, res) {
+  res.status(200).json(getProcessingFeeRate());
+}
@@ -0,0 +1,184 @@
+import { getStripe, INDIA_EXPORT_METADATA, MIN_CHARGE_CENTS } from './lib/stripe.js';
+import { getSupabaseAdmin } from './lib/supabase.js';
+import { getEventAvailability, holdRegistrationSpots } from './lib/capacity.js';
+import { priceRegistration } from './lib/registrations.js';
+import { renderTemplate, sendMail } from './lib/mailer.js';
+import { registrationReceiptUrl, siteUrl } from './lib/urls.js';
+import { recordAuditEvent } from './lib/audit.js';
+import { formatEventDate } from '../src/lib/events.js';
+
+// Stripe Checkout links can stay open for at most 24 hours
+const PROMOTION_HOLD_HOURS = 23;
+
+// A Checkout link for the family's registration at the current price, open until expiresAt
+const createPromotionCheckout = (registration, quote, expiresAt) => {
+  const event = registration.events;
+  const participants = registration.adult_count + registration.kids_count;
+
+  return getStripe().checkout.sessions.create({
+    mode: 'payment',
+    customer_email: registration.email,
+    line_items: [
+      {
+        quantity: 1,
+        price_data: {
+          currency: 'usd',
+          unit_amount: Math.round(quote.total * 100),
+          product_data: {
+            name: `${event.name} registration`,
+            description: `${quote.familyCategory} (${participants} participant${participants === 1 ? '' : 's'})`,
+          },
+        },
+      },
+    ],
+    payment_intent_data: {
+      description: `Tulip Trot registration - ${registration.name}`,
+      receipt_email: registration.email,
+      metadata: {
+        ...INDIA_EXPORT_METADATA,
+        event_id: registration.event_id,
+        name: registration.name,
+        email: registration.email,
+        registration_id: registration.id,
+        type: 'registration',
+      },
+    },
+    metadata: {
+      registration_id: registration.id,
+      type: 'registration',
+    },
+    expires_at: Math.floor(expiresAt.getTime() / 1000),
+    success_url: registrationReceiptUrl(registration),
+    cancel_url: `${siteUrl()}/tulip-trot`,
+  });
+};
+
+// Moves a waitlisted family to pending, holds their spots and emails them a
+// Stripe Checkout link. The webhook marks them paid like any other
+// registration, or puts them back on the waitlist if the link expires.
+export default async function handler(req, res) {
+  const { id } = req.params;
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const { data: registration, error } = await supabase
+      .from('registrations')
+      .select('*, events (*)')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!registration) {
+      return res.status(404).json({ error: 'Registration not found' });
+    }
+
+    if (registration.payment_status !== 'waitlisted') {
+      return res.status(409).json({ error: 'Only waitlisted registrations can be promoted' });
+    }
+
+    const event = registration.events;
+    const participants = registration.adult_count + registration.kids_count;
+    const { remaining } = await getEventAvailability(registration.event_id);
+
+    if (remaining != null && remaining < participants) {
+      return res.status(409).json({
+        error: `Only ${remaining} spot${remaining === 1 ? '' : 's'} left; this family needs ${participants}`,
+      });
+    }
+
+    const quote = await priceRegistration({
+      eventId: registration.event_id,
+      adultCount: registration.adult_count,
+      kidsCount: registration.kids_count,
+      isTulipParent: registration.is_tulip_parent,
+    });
+
+    if (Math.round(quote.total * 100) < MIN_CHARGE_CENTS) {
+      return res.status(409).json({ error: 'This registration is below the $0.50 minimum card payment and cannot be paid by card' });
+    }
+
+    const expiresAt = new Date(Date.now() + PROMOTION_HOLD_HOURS * 60 * 60 * 1000);
+
+    // The spots are taken before the link goes out, so two promotions can't both get the last ones
+    if (!(await holdRegistrationSpots(registration.id, expiresAt.toISOString(), 'waitlisted'))) {
+      return res.status(409).json({ error: 'Those spots were just taken, or this family has already been promoted' });
+    }
+
+    let session;
+
+    try {
+      session = await createPromotionCheckout(registration, quote, expiresAt);
+    } catch (stripeError) {
+      // Without a payment link the family goes back to the waitlist and the spots are released
+      await supabase
+        .from('registrations')
+        .update({ payment_status: 'waitlisted', hold_expires_at: null, updated_at: new Date().toISOString() })
+        .eq('id', registration.id);
+
+      throw stripeError;
+    }
+
+    const promotion = {
+      payment_status: 'pending',
+      family_category: quote.familyCategory,
+      total_amount: quote.total,
+      hold_expires_at: expiresAt.toISOString(),
+    };
+
+    const { error: updateError } = await supabase
+      .from('registrations')
+      .update({
+        family_category: promotion.family_category,
+        total_amount: promotion.total_amount,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', registration.id);
+
+    if (updateError) throw updateError;
+
+    await recordAuditEvent({
+      actor: req.admin,
+      entityType: 'registration',
+      entityId: registration.id,
+      action: 'promote',
+      before: registration,
+      after: promotion,
+    });
+
+    const { html, text } = renderTemplate('waitlist-promotion', {
+      name: registration.name,
+      eventName: event.name,
+      eventDate: formatEventDate(event),
+      participants,
+      amount: quote.total.toFixed(2),
+      expiresAt: expiresAt.toLocaleString('en-US', {
+        timeZone: event.timezone,
+        dateStyle: 'medium',
+        timeStyle: 'short',
+      }),
+      paymentUrl: session.url,
+    });
+
+    // The family is already promoted at this point, so a mail failure is
+    // reported back for the admin to share the link by hand
+    let emailSent = true;
+
+    try {
+      await sendMail({
+        to: registration.email,
+        subject: `A spot opened up at ${event.name} - Tulip Kids Foundation`,
+        html,
+        text,
+      });
+    } catch (mailError) {
+      console.error('Error sending waitlist promotion email:', mailError);
+      emailSent = false;
+    }
+
+    res.status(200).json({ paymentUrl: session.url, expiresAt: expiresAt.toISOString(), emailSent });
+  } catch (error) {
+    console.error('Error promoting waitlisted registration:', error);
+    res.status(500).json({ error: 'Failed to promote registration' });
+  }
+}
@@ -0,0 +1,23 @@
+import { reconcilePayments, reconciliationRangeSchema } from './lib/reconciliation.js';
+
+// Stripe payments for a date range matched against registrations and
+// donations, with anything that doesn't line up flagged
+export default async function handler(req, res) {
+  const parsed = reconciliationRangeSchema.safeParse(req.query);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid date range',
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  try {
+    const { source, items } = await reconcilePayments(parsed.data);
+
+    res.status(200).json({ ...parsed.data, source, items });
+  } catch (error) {
+    console.error('Error reconciling payments:', error);
+    res.status(500).json({ error: 'Failed to reconcile payments' });
+  }
+}
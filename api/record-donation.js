@@ -0,0 +1,108 @@
+import { z } from 'zod';
+import { getSupabaseAdmin } from './lib/supabase.js';
+import { DEFAULT_DESIGNATION } from './lib/donations.js';
+import { sendDonationReceipt } from './lib/tax-receipts.js';
+import { recordAuditEvent } from './lib/audit.js';
+import { isoDate, middayTimestamp } from './lib/dates.js';
+import { NONCASH_METHODS, OFFLINE_DONATION_TYPES } from '../src/lib/offline-donations.js';
+
+const offlineDonationSchema = z
+  .object({
+    method: z.enum(Object.keys(OFFLINE_DONATION_TYPES)),
+    firstName: z.string().trim().min(1).max(100),
+    lastName: z.string().trim().max(100).optional(),
+    // Mailed checks often come without one; the receipt can still be downloaded and posted
+    email: z.string().email().optional(),
+    // For stock and in-kind gifts, the fair-market value
+    amount: z.number().positive().max(10000000),
+    designation: z.string().max(100).optional(),
+    isAnonymous: z.boolean().optional(),
+    receivedOn: isoDate,
+    checkNumber: z.string().trim().min(1).max(50).optional(),
+    checkDate: isoDate.optional(),
+    description: z.string().trim().min(1).max(500).optional(),
+    sendReceipt: z.boolean().optional(),
+  })
+  .refine((gift) => gift.method !== 'check' || gift.checkNumber, {
+    message: 'Required for checks',
+    path: ['checkNumber'],
+  })
+  .refine((gift) => !NONCASH_METHODS.includes(gift.method) || gift.description, {
+    message: 'Required for stock and in-kind gifts',
+    path: ['description'],
+  })
+  .refine((gift) => !gift.sendReceipt || gift.email, {
+    message: 'Required to email a receipt',
+    path: ['email'],
+  });
+
+// Records a check, cash, stock or in-kind gift received outside Stripe as a
+// completed donation, so it counts toward totals, receipts and statements
+// like a card gift. Optionally emails the donor their tax receipt.
+export default async function handler(req, res) {
+  const parsed = offlineDonationSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid donation details',
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const gift = parsed.data;
+
+  try {
+    const { data: donation, error } = await getSupabaseAdmin()
+      .from('donations')
+      .insert({
+        first_name: gift.firstName,
+        last_name: gift.lastName || '',
+        email: gift.email || '',
+        amount: gift.amount,
+        designation: gift.designation || DEFAULT_DESIGNATION,
+        is_anonymous: gift.isAnonymous || false,
+        donation_type: OFFLINE_DONATION_TYPES[gift.method],
+        status: 'completed',
+        check_number: gift.method === 'check' ? gift.checkNumber : null,
+        check_date: gift.method === 'check' ? gift.checkDate || null : null,
+        gift_description: NONCASH_METHODS.includes(gift.method) ? gift.description : null,
+        recorded_by: req.admin.email,
+        created_at: middayTimestamp(gift.receivedOn),
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+
+    await recordAuditEvent({
+      actor: req.admin,
+      entityType: 'donation',
+      entityId: donation.id,
+      action: 'record_donation',
+      before: {},
+      after: {
+        donation_type: donation.donation_type,
+        amount: donation.amount,
+        first_name: donation.first_name,
+        last_name: donation.last_name,
+      },
+    });
+
+    let receiptSent = false;
+
+    if (gift.sendReceipt) {
+      try {
+        await sendDonationReceipt(donation);
+        receiptSent = true;
+      } catch (sendError) {
+        // The gift is recorded; the receipt can be resent from the dashboard
+        console.error(`Error sending receipt for donation ${donation.id}:`, sendError);
+      }
+    }
+
+    res.status(200).json({ donation, receiptSent });
+  } catch (error) {
+    console.error('Error recording donation:', error);
+    res.status(500).json({ error: 'Failed to record donation' });
+  }
+}
@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { getStripe } from './lib/stripe.js';
+import { getSupabaseAdmin } from './lib/supabase.js';
+import { recordRefundStatus } from './lib/payments.js';
+import { loadRefundable, REFUNDABLE, sendRefundEmail } from './lib/refunds.js';
+import { recordAuditEvent } from './lib/audit.js';
+
+const refundSchema = z.object({
+  entityType: z.enum(['registration', 'donation']),
+  entityId: z.string().uuid(),
+  // In dollars; everything not yet refunded when omitted
+  amount: z.number().positive().optional(),
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Issues a full or partial Stripe refund for a registration or donation,
+// records it in refunds, updates the record's status and emails the payer.
+// The charge.refunded webhook that follows finds the status already set.
+export default async function handler(req, res) {
+  const parsed = refundSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid refund details',
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const { entityType, entityId, amount, reason } = parsed.data;
+  const { statusColumn, paymentColumn, refundableStatuses } = REFUNDABLE[entityType];
+
+  try {
+    const record = await loadRefundable(entityType, entityId);
+
+    if (!record) {
+      return res.status(404).json({ error: `${entityType === 'registration' ? 'Registration' : 'Donation'} not found` });
+    }
+
+    if (!refundableStatuses.includes(record[statusColumn])) {
+      return res.status(409).json({ error: `This ${entityType} is ${record[statusColumn]}, so there is nothing to refund` });
+    }
+
+    const paymentIntentId = record[paymentColumn];
+
+    // Payments marked paid by hand have a made-up transaction id and were never charged through Stripe
+    if (!paymentIntentId?.startsWith('pi_')) {
+      return res.status(409).json({ error: `This ${entityType} was not paid through Stripe; refund it outside the dashboard` });
+    }
+
+    const stripe = getStripe();
+    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId, { expand: ['latest_charge'] });
+    const charge = paymentIntent.latest_charge;
+
+    // Stripe's own figures, so refunds made in the Stripe dashboard are counted too
+    const remaining = charge ? charge.amount - charge.amount_refunded : 0;
+    const cents = amount === undefined ? remaining : Math.round(amount * 100);
+
+    if (remaining <= 0) {
+      return res.status(409).json({ error: 'This payment has already been fully refunded' });
+    }
+
+    if (cents > remaining) {
+      return res.status(400).json({ error: `Only $${(remaining / 100).toFixed(2)} can still be refunded` });
+    }
+
+    const refund = await stripe.refunds.create(
+      {
+        payment_intent: paymentIntentId,
+        amount: cents,
+        reason: 'requested_by_customer',
+        metadata: {
+          type: entityType,
+          entity_id: entityId,
+          refunded_by: req.admin.email,
+        },
+      },
+      // The same amount against the same refunded total is the same refund, so a
+      // double click or a retried request gets Stripe's first refund back instead of a second one
+      { idempotencyKey: `refund-${entityType}-${entityId}-${charge.amount_refunded}-${cents}` }
+    );
+
+    const { error: insertError } = await getSupabaseAdmin()
+      .from('refunds')
+      .insert({
+        entity_type: entityType,
+        entity_id: entityId,
+        payment_intent_id: paymentIntentId,
+        stripe_refund_id: refund.id,
+        amount: cents / 100,
+        reason: reason || null,
+        status: refund.status,
+        refunded_by: req.admin.email,
+      });
+
+    // Another request for the same refund recorded it first and is finishing it off
+    if (insertError?.code === '23505') {
+      return res.status(409).json({ error: 'This refund has already been issued' });
+    }
+
+    // The money has already gone back, so carry on and let the status update and email happen
+    if (insertError) {
+      console.error(`Error recording refund ${refund.id}:`, insertError);
+    }
+
+    const isFull = cents === remaining;
+    const status = isFull ? 'refunded' : 'partially_refunded';
+
+    await recordRefundStatus(paymentIntentId, status, entityType, (charge.amount_refunded + cents) / 100);
+
+    await recordAuditEvent({
+      actor: req.admin,
+      entityType,
+      entityId,
+      action: 'refund',
+      before: { [statusColumn]: record[statusColumn], refund_amount: null },
+      after: { [statusColumn]: status, refund_amount: cents / 100 },
+    });
+
+    let emailSent = true;
+
+    try {
+      await sendRefundEmail(entityType, record, { amount: cents / 100, isFull });
+    } catch (emailError) {
+      console.error(`Error sending refund email for ${entityType} ${entityId}:`, emailError);
+      emailSent = false;
+    }
+
+    res.status(200).json({
+      refundId: refund.id,
+      amount: cents / 100,
+      status,
+      emailSent,
+    });
+  } catch (error) {
+    console.error('Error issuing refund:', error);
+    res.status(500).json({ error: error.type === 'StripeInvalidRequestError' ? error.message : 'Failed to issue refund' });
+  }
+}
@@ -0,0 +1,46 @@
+import { getSupabaseAdmin } from './lib/supabase.js';
+import { createTicketCode } from './lib/tickets.js';
+
+// Paid statuses still get their ticket after a partial refund
+const TICKETED_STATUSES = ['paid', 'partially_refunded'];
+
+// Backs /success/:registrationId. The receipt token from the confirmation link
+// is required, so registration ids alone cannot be used to read someone's details.
+export default async function handler(req, res) {
+  const { token } = req.query;
+
+  if (!token) {
+    return res.status(400).json({ error: 'token is required' });
+  }
+
+  try {
+    const { data: registration, error } = await getSupabaseAdmin()
+      .from('registrations')
+      .select(`
+        id, name, email, adult_count, kids_count, family_category, total_amount, fee_covered_amount,
+        payment_status, transaction_id, created_at,
+        events (*),
+        participants (name, participant_type, t_shirt_size, position)
+      `)
+      .eq('id', req.params.id)
+      .eq('receipt_token', token)
+      .order('position', { referencedTable: 'participants' })
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!registration) {
+      return res.status(404).json({ error: 'Receipt not found' });
+    }
+
+    res.status(200).json({
+      registration,
+      ticketCode: TICKETED_STATUSES.includes(registration.payment_status)
+        ? createTicketCode(registration.id)
+        : null,
+    });
+  } catch (error) {
+    console.error('Error loading registration receipt:', error);
+    res.status(500).json({ error: 'Failed to load receipt' });
+  }
+}
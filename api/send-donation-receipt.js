@@ -0,0 +1,37 @@
+import { isReceiptable, loadDonation, sendDonationReceipt } from './lib/tax-receipts.js';
+import { recordAuditEvent } from './lib/audit.js';
+
+// Emails (or re-emails) a donor their PDF tax receipt from the admin dashboard
+export default async function handler(req, res) {
+  try {
+    const donation = await loadDonation(req.params.id);
+
+    if (!donation) {
+      return res.status(404).json({ error: 'Donation not found' });
+    }
+
+    if (!isReceiptable(donation)) {
+      return res.status(409).json({ error: `This donation is ${donation.status}; only completed or partially refunded donations get a receipt` });
+    }
+
+    if (!donation.email) {
+      return res.status(409).json({ error: 'This donation has no email address; download the PDF receipt instead' });
+    }
+
+    const sentAt = await sendDonationReceipt(donation);
+
+    await recordAuditEvent({
+      actor: req.admin,
+      entityType: 'donation',
+      entityId: donation.id,
+      action: 'send_receipt',
+      before: donation,
+      after: { certificate_sent: true, receipt_sent_at: sentAt },
+    });
+
+    res.status(200).json({ sentAt });
+  } catch (error) {
+    console.error('Error sending donation receipt:', error);
+    res.status(500).json({ error: 'Failed to send receipt' });
+  }
+}
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { escapeLike, getSupabaseAdmin } from './lib/supabase.js';
+import { renderTemplate, sendMail } from './lib/mailer.js';
+import { siteUrl } from './lib/urls.js';
+
+const signInSchema = z.object({
+  email: z.string().email(),
+});
+
+const hasGiven = async (email) => {
+  const { count, error } = await getSupabaseAdmin()
+    .from('donations')
+    .select('id', { count: 'exact', head: true })
+    .ilike('email', escapeLike(email));
+
+  if (error) throw error;
+
+  return count > 0;
+};
+
+// A one-time Supabase Auth link that signs the donor in and lands on /my-giving.
+// Their account is created on first use, already confirmed, since following
+// the link is what proves they own the address.
+const generateSignInLink = async (email) => {
+  const supabase = getSupabaseAdmin();
+  const request = { type: 'magiclink', email, options: { redirectTo: `${siteUrl()}/my-giving` } };
+
+  let { data, error } = await supabase.auth.admin.generateLink(request);
+
+  if (error) {
+    const { error: createError } = await supabase.auth.admin.createUser({ email, email_confirm: true });
+
+    if (createError) throw createError;
+
+    ({ data, error } = await supabase.auth.admin.generateLink(request));
+  }
+
+  if (error) throw error;
+
+  return data.properties.action_link;
+};
+
+// Emails a sign-in link for the donor portal. The response is the same whether
+// or not the address has given, so it can't be used to look up donors.
+export default async function handler(req, res) {
+  const parsed = signInSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid email address',
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const email = parsed.data.email.trim();
+
+  try {
+    if (await hasGiven(email)) {
+      const { html, text } = renderTemplate('donor-sign-in', {
+        signInUrl: await generateSignInLink(email),
+      });
+
+      await sendMail({
+        to: email,
+        subject: 'Your sign-in link - Tulip Kids Foundation',
+        html,
+        text,
+      });
+    }
+
+    res.status(200).json({ sent: true });
+  } catch (error) {
+    console.error('Error sending donor sign-in link:', error);
+    res.status(500).json({ error: 'Failed to send sign-in link' });
+  }
+}
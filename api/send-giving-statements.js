@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { loadGivingStatements, sendGivingStatement, statementYearSchema } from './lib/giving-statements.js';
+import { recordAuditEvent } from './lib/audit.js';
+
+const sendStatementsSchema = z.object({
+  year: statementYearSchema,
+  // Only these donors; everyone who gave that year when omitted
+  emails: z.array(z.string().email()).min(1).optional(),
+  // Send again to donors who already have this year's statement
+  resend: z.boolean().optional(),
+});
+
+// Emails year-end giving statements one donor at a time. A failed email is
+// reported and the rest are still sent, so the job can simply be run again.
+export default async function handler(req, res) {
+  const parsed = sendStatementsSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid statement details',
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const { year, emails, resend = false } = parsed.data;
+
+  try {
+    const wanted = emails && new Set(emails.map((email) => email.trim().toLowerCase()));
+    const statements = (await loadGivingStatements(year))
+      .filter((statement) => !wanted || wanted.has(statement.email));
+
+    if (wanted && !statements.length) {
+      return res.status(404).json({ error: `No completed donations from these donors in ${year}` });
+    }
+
+    const sent = [];
+    const skipped = [];
+    const failed = [];
+
+    for (const statement of statements) {
+      if (statement.sentAt && !resend) {
+        skipped.push(statement.email);
+        continue;
+      }
+
+      try {
+        const { id, sentAt } = await sendGivingStatement(statement, year, req.admin);
+        sent.push(statement.email);
+
+        await recordAuditEvent({
+          actor: req.admin,
+          entityType: 'giving_statement',
+          entityId: id,
+          action: 'send_statement',
+          before: { sent_at: statement.sentAt },
+          after: { email: statement.email, year, total_amount: statement.total, sent_at: sentAt },
+        });
+      } catch (error) {
+        console.error(`Error sending ${year} giving statement to ${statement.email}:`, error);
+        failed.push({ email: statement.email, error: error.message });
+      }
+    }
+
+    res.status(200).json({ year, sent, skipped, failed });
+  } catch (error) {
+    console.error('Error sending giving statements:', error);
+    res.status(500).json({ error: 'Failed to send giving statements' });
+  }
+}
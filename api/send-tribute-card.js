@@ -0,0 +1,38 @@
+import { loadDonation, isReceiptable } from './lib/tax-receipts.js';
+import { sendTributeCard } from './lib/tributes.js';
+import { recordAuditEvent } from './lib/audit.js';
+
+// Emails (or re-emails) a tribute gift's card to its recipient from the admin dashboard
+export default async function handler(req, res) {
+  try {
+    const donation = await loadDonation(req.params.id);
+
+    if (!donation) {
+      return res.status(404).json({ error: 'Donation not found' });
+    }
+
+    if (!donation.tribute_recipient_email) {
+      return res.status(409).json({ error: 'This donation has no tribute card recipient' });
+    }
+
+    if (!isReceiptable(donation)) {
+      return res.status(409).json({ error: `This donation is ${donation.status}; only completed or partially refunded donations send a tribute card` });
+    }
+
+    const sentAt = await sendTributeCard(donation);
+
+    await recordAuditEvent({
+      actor: req.admin,
+      entityType: 'donation',
+      entityId: donation.id,
+      action: 'send_tribute_card',
+      before: donation,
+      after: { tribute_notified_at: sentAt },
+    });
+
+    res.status(200).json({ sentAt });
+  } catch (error) {
+    console.error('Error sending tribute card:', error);
+    res.status(500).json({ error: 'Failed to send tribute card' });
+  }
+}
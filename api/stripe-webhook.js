@@ -0,0 +1,53 @@
+import { constructWebhookEvent } from './lib/stripe.js';
+import {
+  syncChargeRefund,
+  syncExpiredCheckout,
+  syncInvoicePayment,
+  syncPaymentIntent,
+  syncSubscription,
+} from './lib/payments.js';
+
+// Must be mounted with a raw body parser: the signature is computed over the exact bytes Stripe sent
+export default async function handler(req, res) {
+  let event;
+
+  try {
+    event = constructWebhookEvent(req.body, req.headers['stripe-signature']);
+  } catch (error) {
+    console.error('Webhook signature verification failed:', error.message);
+    return res.status(400).json({ error: 'Invalid signature' });
+  }
+
+  try {
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+        await syncPaymentIntent(event.data.object, 'succeeded');
+        break;
+      case 'payment_intent.payment_failed':
+        await syncPaymentIntent(event.data.object, 'failed');
+        break;
+      case 'charge.refunded':
+        await syncChargeRefund(event.data.object);
+        break;
+      case 'checkout.session.expired':
+        await syncExpiredCheckout(event.data.object);
+        break;
+      case 'invoice.paid':
+        await syncInvoicePayment(event.data.object);
+        break;
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        await syncSubscription(event.data.object);
+        break;
+      default:
+        console.log(`Unhandled Stripe event type: ${event.type}`);
+    }
+
+    res.status(200).json({ received: true });
+  } catch (error) {
+    // A non-2xx response makes Stripe retry the delivery later
+    console.error(`Error handling Stripe event ${event.id}:`, error);
+    res.status(500).json({ error: 'Failed to process event' });
+  }
+}
@@ -0,0 +1,31 @@
+import { undoImport } from './lib/imports.js';
+import { recordAuditEvent } from './lib/audit.js';
+
+// Deletes everything a CSV import added
+export default async function handler(req, res) {
+  try {
+    const batch = await undoImport(req.params.id, req.admin);
+
+    if (!batch) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+
+    if (batch.undone_at) {
+      return res.status(409).json({ error: 'This import has already been undone' });
+    }
+
+    await recordAuditEvent({
+      actor: req.admin,
+      entityType: 'import',
+      entityId: batch.id,
+      action: 'undo_import',
+      before: { undone_at: null },
+      after: { undone_at: new Date().toISOString() },
+    });
+
+    res.status(200).json({ undone: batch.row_count });
+  } catch (error) {
+    console.error('Error undoing import:', error);
+    res.status(500).json({ error: 'Failed to undo import' });
+  }
+}
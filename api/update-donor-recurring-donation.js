@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { getStripe } from './lib/stripe.js';
+import { syncSubscription } from './lib/payments.js';
+import { loadDonorRow } from './lib/donors.js';
+import { isManageable } from '../src/lib/recurring-donations.js';
+
+const updateSchema = z.object({
+  action: z.enum(['pause', 'resume', 'cancel']),
+});
+
+// Pauses, resumes or cancels one of the donor's recurring gifts in Stripe, then
+// saves the result straight away rather than waiting for the webhook.
+// Paused subscriptions stay active, but their invoices are voided unpaid.
+export default async function handler(req, res) {
+  const parsed = updateSchema.safeParse(req.body);
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid action',
+      details: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  const { action } = parsed.data;
+
+  try {
+    const recurringDonation = await loadDonorRow('recurring_donations', req.params.id, req.donor);
+
+    if (!recurringDonation) {
+      return res.status(404).json({ error: 'Recurring donation not found' });
+    }
+
+    if (!isManageable(recurringDonation)) {
+      return res.status(409).json({ error: `This recurring donation is ${recurringDonation.status}` });
+    }
+
+    if (action === 'pause' && recurringDonation.is_paused) {
+      return res.status(409).json({ error: 'This recurring donation is already paused' });
+    }
+
+    if (action === 'resume' && !recurringDonation.is_paused) {
+      return res.status(409).json({ error: 'This recurring donation is not paused' });
+    }
+
+    const stripe = getStripe();
+    const subscriptionId = recurringDonation.stripe_subscription_id;
+
+    const subscription = action === 'cancel'
+      ? await stripe.subscriptions.cancel(subscriptionId)
+      : await stripe.subscriptions.update(subscriptionId, {
+        // An empty string clears pause_collection
+        pause_collection: action === 'pause' ? { behavior: 'void' } : '',
+      });
+
+    await syncSubscription(subscription);
+
+    res.status(200).json({ status: subscription.status, isPaused: !!subscription.pause_collection });
+  } catch (error) {
+    console.error(`Error trying to ${action} recurring donation:`, error);
+    res.status(500).json({ error: `Failed to ${action} recurring donation` });
+  }
+}
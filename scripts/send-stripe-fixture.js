@@ -0,0 +1,38 @@
+// Replays a fixture event against the local webhook, signed with STRIPE_WEBHOOK_SECRET.
+// Usage: npm run stripe:fixture -- payment_intent.succeeded [webhook url]
+import 'dotenv/config';
+import fs from 'fs';
+import path from 'path';
+import Stripe from 'stripe';
+
+const [eventName, url = `http://localhost:${process.env.PORT || 3001}/stripe/webhook`] = process.argv.slice(2);
+
+if (!eventName) {
+  const available = fs.readdirSync(path.join(process.cwd(), 'api', 'fixtures'))
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => path.basename(file, '.json'));
+  console.error(`Usage: npm run stripe:fixture -- <event> [url]\nAvailable events: ${available.join(', ')}`);
+  process.exit(1);
+}
+
+if (!process.env.STRIPE_WEBHOOK_SECRET) {
+  console.error('STRIPE_WEBHOOK_SECRET must be set to sign fixture events');
+  process.exit(1);
+}
+
+const payload = fs.readFileSync(path.join(process.cwd(), 'api', 'fixtures', `${eventName}.json`), 'utf8');
+const signature = Stripe.webhooks.generateTestHeaderString({
+  payload,
+  secret: process.env.STRIPE_WEBHOOK_SECRET,
+});
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'Stripe-Signature': signature,
+  },
+  body: payload,
+});
+
+console.log(`${response.status} ${await response.text()}`);
@@ -5,6 +5,38 @@ import dotenv from 'dotenv';
 import bodyParser from 'body-parser';
 import fs from 'fs';
 import path from 'path';
+import createPaymentIntent from './api/create-payment-intent.js';
+import createRecurringDonation from './api/create-recurring-donation.js';
+import stripeWebhook from './api/stripe-webhook.js';
+import confirmRegistration from './api/confirm-registration.js';
+import eventAvailability from './api/event-availability.js';
+import processingFeeRate from './api/processing-fee-rate.js';
+import joinWaitlist from './api/join-waitlist.js';
+import promoteRegistration from './api/promote-registration.js';
+import lookupTicket from './api/lookup-ticket.js';
+import checkInRegistration from './api/check-in-registration.js';
+import registrationReceipt from './api/registration-receipt.js';
+import donationReceipt from './api/donation-receipt.js';
+import sendDonationReceipt from './api/send-donation-receipt.js';
+import downloadDonationReceipt from './api/download-donation-receipt.js';
+import sendTributeCard from './api/send-tribute-card.js';
+import recordDonation from './api/record-donation.js';
+import previewImport from './api/preview-import.js';
+import importRecords from './api/import-records.js';
+import undoImport from './api/undo-import.js';
+import mergeContacts from './api/merge-contacts.js';
+import givingStatements from './api/giving-statements.js';
+import sendGivingStatements from './api/send-giving-statements.js';
+import downloadGivingStatement from './api/download-giving-statement.js';
+import refundPayment from './api/refund-payment.js';
+import reconciliation from './api/reconciliation.js';
+import sendDonorSignInLink from './api/send-donor-sign-in-link.js';
+import donorGiving from './api/donor-giving.js';
+import downloadDonorReceipt from './api/download-donor-receipt.js';
+import createDonorBillingSession from './api/create-donor-billing-session.js';
+import updateDonorRecurringDonation from './api/update-donor-recurring-donation.js';
+import { requireAdmin, requireDonor, requirePermission } from './api/lib/auth.js';
+import { saveVolunteerApplication } from './api/lib/contacts.js';
 
 // Load environment variables
 dotenv.config();
@@ -26,19 +58,108 @@ app.use(cors({
   methods: ['GET', 'POST'],
   credentials: true
 }));
-app.use(bodyParser.json());
+
+// Stripe webhooks need the raw body for signature verification, so register before the JSON parser
+app.post('/stripe/webhook', bodyParser.raw({ type: 'application/json' }), stripeWebhook);
+
+// CSV imports send every row in one request, more than the default 100kb allows.
+// Their larger parser runs on the import routes themselves, once the admin is
+// signed in, so anonymous requests can't make the server read 5mb bodies.
+const IMPORT_PATHS = ['/admin/imports', '/admin/imports/preview'];
+const parseImportBody = bodyParser.json({ limit: '5mb' });
+const parseJsonBody = bodyParser.json();
+
+app.use((req, res, next) => (IMPORT_PATHS.includes(req.path) ? next() : parseJsonBody(req, res, next)));
 
 // Test endpoint
 app.get('/test', (req, res) => {
   res.json({ message: 'API server is running' });
 });
 
+// Stripe PaymentIntent endpoint (amount is computed server-side)
+app.post('/payment-intents', createPaymentIntent);
+
+// Monthly or annual giving: a Stripe subscription whose first invoice the browser pays
+app.post('/recurring-donations', createRecurringDonation);
+
+// Marks a Tulip Trot registration paid once its PaymentIntent has succeeded
+app.post('/registrations/:id/confirm', confirmRegistration);
+
+// Spots left at an event, so the registration form can offer the waitlist
+app.get('/events/:id/availability', eventAvailability);
+
+// The processing fee rate donors and families can choose to cover
+app.get('/processing-fee-rate', processingFeeRate);
+
+// Adds a family to a full event's waitlist
+app.post('/waitlist', joinWaitlist);
+
+// Emails a donor a one-time link to sign in to /my-giving
+app.post('/donor-sign-in-links', sendDonorSignInLink);
+
+// Everything under /donor needs a signed-in donor, and only sees their own gifts
+app.use('/donor', requireDonor);
+app.get('/donor/giving', donorGiving);
+app.get('/donor/donations/:id/receipt.pdf', downloadDonorReceipt);
+app.post('/donor/recurring-donations/:id/billing-session', createDonorBillingSession);
+app.post('/donor/recurring-donations/:id', updateDonorRecurringDonation);
+
+// Everything under /admin needs a signed-in admin
+app.use('/admin', requireAdmin);
+
+// Emails a waitlisted family a payment link once spots open up
+app.post('/admin/registrations/:id/promote', requirePermission('registrations.promote'), promoteRegistration);
+
+// Day-of check-in: find a family from their QR ticket, then record arrival and t-shirt pickup
+app.post('/admin/check-in/lookup', requirePermission('registrations.check_in'), lookupTicket);
+app.post('/admin/registrations/:id/check-in', requirePermission('registrations.check_in'), checkInRegistration);
+
+// Checks, cash, stock and in-kind gifts received outside Stripe
+app.post('/admin/donations', requirePermission('donations.record'), recordDonation);
+
+// Donation tax receipts: email the PDF to the donor, or download it
+app.post('/admin/donations/:id/receipt', requirePermission('donations.send_certificate'), sendDonationReceipt);
+app.get('/admin/donations/:id/receipt.pdf', downloadDonationReceipt);
+
+// Tribute gifts: email the card announcing the gift to its recipient
+app.post('/admin/donations/:id/tribute-card', requirePermission('donations.send_certificate'), sendTributeCard);
+
+// Bulk CSV imports of historical donations and registrations: check, save or undo a batch
+app.post('/admin/imports/preview', requirePermission('data.import'), parseImportBody, previewImport);
+app.post('/admin/imports', requirePermission('data.import'), parseImportBody, importRecords);
+app.post('/admin/imports/:id/undo', requirePermission('data.import'), undoImport);
+
+// Folds a duplicate contact, with its donations, registrations and volunteer applications, into another
+app.post('/admin/contacts/:id/merge', requirePermission('contacts.merge'), mergeContacts);
+
+// Year-end giving statements: list donors for a year, email statements, or download one
+app.get('/admin/giving-statements', givingStatements);
+app.post('/admin/giving-statements/send', requirePermission('donations.send_certificate'), sendGivingStatements);
+app.get('/admin/giving-statements/:year/statement.pdf', downloadGivingStatement);
+
+// Full or partial Stripe refund of a registration or donation
+app.post('/admin/refunds', requirePermission('payments.refund'), refundPayment);
+
+// Stripe payments for a date range matched against registrations and donations
+app.get('/admin/reconciliation', requirePermission('payments.reconcile'), reconciliation);
+
+// Confirmation pages, looked up by the receipt token in their link
+app.get('/receipts/registrations/:id', registrationReceipt);
+app.get('/receipts/donations/:id', donationReceipt);
+
 // Volunteer application endpoint
 app.post('/send-volunteer-application', async (req, res) => {
   try {
     const formData = req.body;
     console.log('Received form data:', formData);
 
+    // Kept for the applicant's contact profile; the coordinator's email below is what matters most
+    try {
+      await saveVolunteerApplication(formData);
+    } catch (saveError) {
+      console.error('Error saving volunteer application:', saveError);
+    }
+
     // Read email templates
     const htmlTemplate = fs.readFileSync(
       path.join(process.cwd(), 'email-templates', 'volunteer-application.html'),
@@ -4,7 +4,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AnimatePresence } from "framer-motion";
 import { ScrollToTop } from "@/lib/transitions";
 import Index from "./pages/Index";
@@ -18,7 +18,22 @@ import About from "./pages/About";
 import WhoWeAre from "./pages/WhoWeAre";
 import Leadership from "./pages/Leadership";
 import DonationSuccess from "./pages/DonationSuccess";
-import Admin from "./pages/Admin";
+import MyGiving from "./pages/MyGiving";
+import Success from "./pages/Success";
+import AdminLayout from "./pages/admin/AdminLayout";
+import AdminRegistrations from "./pages/admin/Registrations";
+import AdminDonations from "./pages/admin/Donations";
+import AdminStatements from "./pages/admin/Statements";
+import AdminActivity from "./pages/admin/Activity";
+import AdminReconciliation from "./pages/admin/Reconciliation";
+import AdminMatchingGifts from "./pages/admin/MatchingGifts";
+import AdminImport from "./pages/admin/Import";
+import AdminContacts from "./pages/admin/Contacts";
+import AdminContactProfile from "./pages/admin/ContactProfile";
+import CheckIn from "./pages/admin/CheckIn";
+import AdminLogin from "./pages/admin/Login";
+import AdminRoute from "./components/AdminRoute";
+import { AdminAuthProvider } from "./hooks/use-admin-auth";
 
 function App() {
   // Create a client
@@ -26,6 +41,7 @@ function App() {
 
   return (
     <QueryClientProvider client={queryClient}>
+      <AdminAuthProvider>
       <TooltipProvider>
         <Toaster />
         <Sonner />
@@ -40,8 +56,23 @@ function App() {
               <Route path="/join-team" element={<JoinTeam />} />
               <Route path="/support" element={<Support />} />
               <Route path="/about" element={<About />} />
-              <Route path="/donation-success" element={<DonationSuccess />} />
-              <Route path="/admin" element={<Admin />} />
+              <Route path="/success/:registrationId" element={<Success />} />
+              <Route path="/donation-success/:donationId" element={<DonationSuccess />} />
+              <Route path="/my-giving" element={<MyGiving />} />
+              <Route path="/admin/login" element={<AdminLogin />} />
+              <Route path="/admin" element={<AdminRoute><AdminLayout /></AdminRoute>}>
+                <Route index element={<Navigate to="registrations" replace />} />
+                <Route path="registrations" element={<AdminRegistrations />} />
+                <Route path="donations" element={<AdminDonations />} />
+                <Route path="statements" element={<AdminStatements />} />
+                <Route path="matching-gifts" element={<AdminMatchingGifts />} />
+                <Route path="contacts" element={<AdminContacts />} />
+                <Route path="contacts/:id" element={<AdminContactProfile />} />
+                <Route path="activity" element={<AdminActivity />} />
+                <Route path="reconciliation" element={<AdminRoute permission="payments.reconcile"><AdminReconciliation /></AdminRoute>} />
+                <Route path="import" element={<AdminRoute permission="data.import"><AdminImport /></AdminRoute>} />
+                <Route path="check-in" element={<AdminRoute permission="registrations.check_in"><CheckIn /></AdminRoute>} />
+              </Route>
               <Route path="*" element={<NotFound />} />
               {/* <Route path="/who-we-are" element={<WhoWeAre />} /> */}
               <Route path="/leadership" element={<Leadership />} />
@@ -49,6 +80,7 @@ function App() {
           </AnimatePresence>
         </BrowserRouter>
       </TooltipProvider>
+      </AdminAuthProvider>
     </QueryClientProvider>
   );
 }
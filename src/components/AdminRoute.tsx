@@ -0,0 +1,37 @@
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useAdminAuth } from '@/hooks/use-admin-auth';
+import type { AdminPermission } from '@/lib/permissions';
+
+interface AdminRouteProps {
+  children: React.ReactNode;
+  // Pages for one job (e.g. check-in) send other roles back to the dashboard
+  permission?: AdminPermission;
+}
+
+// Wraps admin pages: sends anyone who isn't a signed-in admin to the login page
+const AdminRoute = ({ children, permission }: AdminRouteProps) => {
+  const { adminUser, isLoading, can } = useAdminAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!adminUser) {
+    return <Navigate to="/admin/login" state={{ from: location }} replace />;
+  }
+
+  if (permission && !can(permission)) {
+    return <Navigate to="/admin" replace />;
+  }
+
+  return <>{children}</>;
+};
+
+export default AdminRoute;
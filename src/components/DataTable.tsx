@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Loader2, Search } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+type SortValue = string | number | null | undefined;
+
+export type DataTableColumn<T> = {
+  id: string;
+  header: string;
+  cell: (row: T) => React.ReactNode;
+  // Makes the column sortable by clicking its header
+  sortValue?: (row: T) => SortValue;
+  align?: 'left' | 'center' | 'right';
+};
+
+export type DataTableFilter<T> = {
+  value: string;
+  label: string;
+  matches: (row: T) => boolean;
+};
+
+type SortState = { columnId: string; direction: 'asc' | 'desc' };
+
+interface DataTableProps<T> {
+  title: string;
+  data: T[];
+  columns: DataTableColumn<T>[];
+  getRowId: (row: T) => string;
+  isLoading?: boolean;
+  // Text the search box matches against; no search box when omitted
+  searchText?: (row: T) => string;
+  searchPlaceholder?: string;
+  // Shown as tabs above the table; the first one is selected initially
+  filters?: DataTableFilter<T>[];
+  // Buttons on the right of each row
+  rowActions?: (row: T) => React.ReactNode;
+  // Extra controls in the header, e.g. an Export button
+  toolbar?: React.ReactNode;
+  initialSort?: SortState;
+  emptyMessage?: string;
+}
+
+const alignClass = {
+  left: '',
+  center: 'text-center',
+  right: 'text-right',
+};
+
+const isEmpty = (value: SortValue) => value == null || value === '';
+
+const compare = (a: string | number, b: string | number) =>
+  typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+
+// The table behind every admin list: search, filter tabs, sortable columns and row actions
+function DataTable<T>({
+  title,
+  data,
+  columns,
+  getRowId,
+  isLoading = false,
+  searchText,
+  searchPlaceholder = 'Search...',
+  filters,
+  rowActions,
+  toolbar,
+  initialSort,
+  emptyMessage = 'Nothing found',
+}: DataTableProps<T>) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filter, setFilter] = useState(filters?.[0]?.value ?? '');
+  const [sort, setSort] = useState<SortState | undefined>(initialSort);
+
+  const rows = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    const activeFilter = filters?.find((f) => f.value === filter);
+
+    const filtered = data.filter((row) =>
+      (!activeFilter || activeFilter.matches(row)) &&
+      (!term || !searchText || searchText(row).toLowerCase().includes(term))
+    );
+
+    const sortColumn = sort && columns.find((column) => column.id === sort.columnId);
+
+    if (!sortColumn?.sortValue) return filtered;
+
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    const sortValue = sortColumn.sortValue;
+
+    return [...filtered].sort((a, b) => {
+      const aValue = sortValue(a);
+      const bValue = sortValue(b);
+
+      // Empty values stay at the bottom in both directions
+      if (isEmpty(aValue) || isEmpty(bValue)) {
+        return Number(isEmpty(aValue)) - Number(isEmpty(bValue));
+      }
+
+      return compare(aValue as string | number, bValue as string | number) * direction;
+    });
+  }, [data, columns, filters, filter, searchTerm, searchText, sort]);
+
+  const handleSort = (columnId: string) => {
+    setSort((current) =>
+      current?.columnId === columnId
+        ? { columnId, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+        : { columnId, direction: 'asc' }
+    );
+  };
+
+  const columnCount = columns.length + (rowActions ? 1 : 0);
+
+  return (
+    <Card className="rounded-xl shadow-medium overflow-hidden">
+      <CardHeader className="bg-primary/5">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <CardTitle>{title}</CardTitle>
+
+          <div className="flex flex-col sm:flex-row gap-4">
+            {searchText && (
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder={searchPlaceholder}
+                  className="pl-10 max-w-xs rounded-xl"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+            )}
+            {toolbar}
+          </div>
+        </div>
+      </CardHeader>
+
+      {filters && filters.length > 1 && (
+        <div className="px-6 pt-4">
+          <Tabs value={filter} onValueChange={setFilter}>
+            <TabsList>
+              {filters.map((f) => (
+                <TabsTrigger key={f.value} value={f.value}>{f.label}</TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+      )}
+
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {columns.map((column) => {
+                  const sorted = sort?.columnId === column.id ? sort.direction : undefined;
+                  const SortIcon = sorted === 'asc' ? ArrowUp : sorted === 'desc' ? ArrowDown : ArrowUpDown;
+
+                  return (
+                    <TableHead key={column.id} className={alignClass[column.align ?? 'left']}>
+                      {column.sortValue ? (
+                        <button
+                          type="button"
+                          className={cn(
+                            'inline-flex items-center gap-1 hover:text-foreground',
+                            sorted && 'text-foreground'
+                          )}
+                          onClick={() => handleSort(column.id)}
+                        >
+                          {column.header}
+                          <SortIcon className="h-3 w-3" />
+                        </button>
+                      ) : (
+                        column.header
+                      )}
+                    </TableHead>
+                  );
+                })}
+                {rowActions && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="text-center py-8">
+                    <Loader2 className="h-5 w-5 animate-spin inline text-muted-foreground" />
+                  </TableCell>
+                </TableRow>
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">
+                    {emptyMessage}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map((row) => (
+                  <TableRow key={getRowId(row)}>
+                    {columns.map((column) => (
+                      <TableCell key={column.id} className={alignClass[column.align ?? 'left']}>
+                        {column.cell(row)}
+                      </TableCell>
+                    ))}
+                    {rowActions && (
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">{rowActions(row)}</div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default DataTable;
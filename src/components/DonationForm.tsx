@@ -1,28 +1,54 @@
 import React, { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { useStripe, useElements, CardElement } from '@stripe/react-stripe-js';
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { toast } from "sonner";
 import { Loader2 } from "lucide-react";
-import { supabase } from '@/integrations/supabase/client';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { createPaymentIntent } from '@/lib/stripe';
+import { createPaymentIntent, createRecurringDonation, type DonationInterval } from '@/lib/stripe';
+import { donationReceiptPath } from '@/lib/receipts';
+import { TRIBUTE_LABELS, type TributeType } from '@/lib/tributes';
+import { MATCHING_EMPLOYERS, findEmployer } from '@/lib/matching-gifts';
+import { calculateProcessingFee } from '@/lib/processing-fees';
+import { useProcessingFeeRate } from '@/hooks/use-processing-fee-rate';
 
 // Form schema for validation
 const formSchema = z.object({
-  firstName: z.string().min(2, "First name is required"),
-  lastName: z.string().min(2, "Last name is required"),
+  firstName: z.string().min(2, "First name is required").max(100, "First name must be at most 100 characters"),
+  lastName: z.string().min(2, "Last name is required").max(100, "Last name must be at most 100 characters"),
   email: z.string().email("Invalid email address"),
   amount: z.number().min(1, "Amount must be at least $1"),
   designation: z.string().optional(),
   isAnonymous: z.boolean().optional(),
+  isTribute: z.boolean().optional(),
+  tributeType: z.enum(["honor", "memory"]),
+  honoreeName: z.string().max(100).optional(),
+  tributeRecipientEmail: z.string().email("Invalid email address").optional().or(z.literal("")),
+  tributeMessage: z.string().max(500, "Message must be 500 characters or fewer").optional(),
+  isMatched: z.boolean().optional(),
+  employerName: z.string().max(100).optional(),
+}).refine((data) => !data.isTribute || !!data.honoreeName?.trim(), {
+  message: "Honoree name is required",
+  path: ["honoreeName"],
+}).refine((data) => !data.isMatched || !!data.employerName?.trim(), {
+  message: "Employer is required",
+  path: ["employerName"],
 });
 
+type Frequency = 'one_time' | DonationInterval;
+
+const FREQUENCIES: { value: Frequency; label: string; suffix: string }[] = [
+  { value: 'one_time', label: 'One-time', suffix: '' },
+  { value: 'month', label: 'Monthly', suffix: '/month' },
+  { value: 'year', label: 'Annual', suffix: '/year' },
+];
+
 type DonationFormProps = {
   setPaymentAmount: (amount: number) => void;
 };
@@ -30,10 +56,13 @@ type DonationFormProps = {
 const DonationForm: React.FC<DonationFormProps> = ({ setPaymentAmount }) => {
   const [selectedAmount, setSelectedAmount] = useState<number | null>(null);
   const [customAmount, setCustomAmount] = useState<string>("");
+  const [frequency, setFrequency] = useState<Frequency>("one_time");
+  const [coverFees, setCoverFees] = useState(false);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const navigate = useNavigate();
   const stripe = useStripe();
   const elements = useElements();
+  const { data: feeRate } = useProcessingFeeRate();
 
   const { register, handleSubmit, setValue, watch, formState: { errors } } = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -44,9 +73,26 @@ const DonationForm: React.FC<DonationFormProps> = ({ setPaymentAmount }) => {
       amount: 0,
       designation: "Where Needed Most",
       isAnonymous: false,
+      isTribute: false,
+      tributeType: "honor",
+      honoreeName: "",
+      tributeRecipientEmail: "",
+      tributeMessage: "",
+      isMatched: false,
+      employerName: "",
     },
   });
 
+  const amount = watch("amount");
+  const isTribute = watch("isTribute");
+  const tributeType = watch("tributeType");
+  const isMatched = watch("isMatched");
+  const employer = findEmployer(watch("employerName"));
+  const processingFee = feeRate ? calculateProcessingFee(amount, feeRate) : 0;
+  // The server works the fee out again from its own rate when it creates the payment
+  const totalAmount = amount + (coverFees ? processingFee : 0);
+  const frequencySuffix = FREQUENCIES.find((f) => f.value === frequency)?.suffix;
+
   // Handle preset amount selection
   const handleAmountSelect = (amount: number) => {
     setSelectedAmount(amount);
@@ -75,11 +121,30 @@ const DonationForm: React.FC<DonationFormProps> = ({ setPaymentAmount }) => {
     setIsProcessingPayment(true);
 
     try {
-      // Get the client secret from your backend with description for India export compliance
-      const clientSecret = await createPaymentIntent(
-        data.amount * 100,
-        `Donation to Tulip Kids Foundation - ${data.designation || 'General'}`
-      );
+      const donor = {
+        firstName: data.firstName,
+        lastName: data.lastName,
+        email: data.email,
+        amount: data.amount,
+        designation: data.designation,
+        isAnonymous: data.isAnonymous || false,
+        coverFees,
+        tribute: data.isTribute
+          ? {
+            type: data.tributeType,
+            honoreeName: (data.honoreeName ?? "").trim(),
+            recipientEmail: data.tributeRecipientEmail || undefined,
+            message: data.tributeMessage?.trim() || undefined,
+          }
+          : undefined,
+        employerName: data.isMatched ? data.employerName?.trim() : undefined,
+      };
+
+      // Get the client secret from the server, which prices the donation itself.
+      // Recurring gifts pay the first invoice of a new subscription the same way.
+      const { clientSecret, donationId, receiptToken } = frequency === 'one_time'
+        ? await createPaymentIntent({ type: 'donation', ...donor })
+        : await createRecurringDonation({ ...donor, interval: frequency });
 
       const cardElement = elements.getElement(CardElement);
 
@@ -113,45 +178,14 @@ const DonationForm: React.FC<DonationFormProps> = ({ setPaymentAmount }) => {
         throw result.error;
       }
 
-      // Save donation to database
-      const { error: dbError } = await supabase
-        .from('donations')
-        .insert({
-          first_name: data.firstName,
-          last_name: data.lastName,
-          email: data.email,
-          amount: data.amount,
-          designation: data.designation,
-          is_anonymous: data.isAnonymous || false,
-          payment_id: result.paymentIntent.id,
-          donation_type: 'Website Donation',
-          status: 'completed',
-          created_at: new Date().toISOString(),
-        });
-
-      if (dbError) {
-        console.error('Database error:', dbError);
-        // Continue with success flow even if DB save fails
-      }
-
-      // Payment succeeded
+      // Payment succeeded. The donation row is written by the Stripe webhook
+      // on the server, so it is recorded even if this tab is closed now.
       toast.success('Donation successful!', {
         description: 'Thank you for your generous support.',
       });
 
-      // Navigate to success page with donation data
-      navigate('/donation-success', {
-        state: {
-          donationData: {
-            name: `${data.firstName} ${data.lastName}`,
-            email: data.email,
-            amount: data.amount,
-            designation: data.designation,
-            isAnonymous: data.isAnonymous || false,
-          },
-          transactionId: result.paymentIntent.id
-        }
-      });
+      // The confirmation page waits for the webhook's row, so it survives a reload
+      navigate(donationReceiptPath(donationId, receiptToken));
 
     } catch (error) {
       console.error('Payment error:', error);
@@ -204,6 +238,29 @@ const DonationForm: React.FC<DonationFormProps> = ({ setPaymentAmount }) => {
         )}
       </div>
 
+      <div>
+        <Label className="mb-3 block">Frequency</Label>
+        <div className="grid grid-cols-3 gap-4">
+          {FREQUENCIES.map(({ value, label }) => (
+            <Button
+              key={value}
+              type="button"
+              variant={frequency === value ? "default" : "outline"}
+              onClick={() => setFrequency(value)}
+              className="border border-tulip"
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        {frequency !== "one_time" && (
+          <p className="text-sm text-gray-500 mt-2">
+            Your card will be charged today and then every {frequency}. You can pause or
+            cancel any time from <Link to="/my-giving" className="text-tulip underline">My Giving</Link>.
+          </p>
+        )}
+      </div>
+
       <div>
         <Label className="mb-3 block">Donation Amount</Label>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
@@ -260,6 +317,121 @@ const DonationForm: React.FC<DonationFormProps> = ({ setPaymentAmount }) => {
         </Select>
       </div>
 
+      <div className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="isTribute"
+            {...register("isTribute")}
+            className="h-4 w-4 rounded border-gray-300 text-tulip focus:ring-tulip"
+          />
+          <Label htmlFor="isTribute" className="text-sm font-normal">
+            Dedicate this gift in honor or in memory of someone
+          </Label>
+        </div>
+
+        {isTribute && (
+          <div className="space-y-4 rounded-md border border-gray-200 p-4">
+            <div className="grid grid-cols-2 gap-4">
+              {(Object.keys(TRIBUTE_LABELS) as TributeType[]).map((type) => (
+                <Button
+                  key={type}
+                  type="button"
+                  variant={tributeType === type ? "default" : "outline"}
+                  onClick={() => setValue("tributeType", type)}
+                  className="border border-tulip"
+                >
+                  {TRIBUTE_LABELS[type]}
+                </Button>
+              ))}
+            </div>
+
+            <div>
+              <Label htmlFor="honoreeName">Honoree Name</Label>
+              <Input
+                id="honoreeName"
+                {...register("honoreeName")}
+                className={errors.honoreeName ? "border-red-500" : ""}
+              />
+              {errors.honoreeName && (
+                <p className="text-red-500 text-sm mt-1">{errors.honoreeName.message}</p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="tributeRecipientEmail">Send a card to (optional)</Label>
+              <Input
+                id="tributeRecipientEmail"
+                type="email"
+                placeholder="Recipient's email address"
+                {...register("tributeRecipientEmail")}
+                className={errors.tributeRecipientEmail ? "border-red-500" : ""}
+              />
+              {errors.tributeRecipientEmail && (
+                <p className="text-red-500 text-sm mt-1">{errors.tributeRecipientEmail.message}</p>
+              )}
+              <p className="text-sm text-gray-500 mt-1">
+                We'll email them a card letting them know about your gift. The amount is never shown.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="tributeMessage">Message for the card (optional)</Label>
+              <Textarea
+                id="tributeMessage"
+                maxLength={500}
+                {...register("tributeMessage")}
+              />
+              {errors.tributeMessage && (
+                <p className="text-red-500 text-sm mt-1">{errors.tributeMessage.message}</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="isMatched"
+            {...register("isMatched")}
+            className="h-4 w-4 rounded border-gray-300 text-tulip focus:ring-tulip"
+          />
+          <Label htmlFor="isMatched" className="text-sm font-normal">
+            My employer matches charitable gifts
+          </Label>
+        </div>
+
+        {isMatched && (
+          <div>
+            <Label htmlFor="employerName">Employer</Label>
+            <Input
+              id="employerName"
+              list="matching-employers"
+              placeholder="Start typing your company's name"
+              autoComplete="organization"
+              {...register("employerName")}
+              className={errors.employerName ? "border-red-500" : ""}
+            />
+            <datalist id="matching-employers">
+              {MATCHING_EMPLOYERS.map(({ name }) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+            {errors.employerName && (
+              <p className="text-red-500 text-sm mt-1">{errors.employerName.message}</p>
+            )}
+            <p className="text-sm text-gray-500 mt-1">
+              {employer
+                ? `${employer.name} matches ${employer.ratio === 1 ? "dollar for dollar" : `$${employer.ratio} for every $1`}. `
+                : ""}
+              We'll follow up with you about submitting the match through your employer.
+            </p>
+          </div>
+        )}
+      </div>
+
       <div className="space-y-4">
         <Label>Card Information</Label>
         <div className="border border-gray-300 p-4 rounded-md">
@@ -282,6 +454,21 @@ const DonationForm: React.FC<DonationFormProps> = ({ setPaymentAmount }) => {
         </div>
       </div>
 
+      {processingFee > 0 && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="coverFees"
+            checked={coverFees}
+            onChange={(e) => setCoverFees(e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 text-tulip focus:ring-tulip"
+          />
+          <Label htmlFor="coverFees" className="text-sm font-normal">
+            Add ${processingFee.toFixed(2)}{frequencySuffix} to cover processing fees, so all of my gift goes to Tulip Kids
+          </Label>
+        </div>
+      )}
+
       <div className="flex items-center space-x-2">
         <input
           type="checkbox"
@@ -305,7 +492,7 @@ const DonationForm: React.FC<DonationFormProps> = ({ setPaymentAmount }) => {
             Processing...
           </>
         ) : (
-          `Donate ${watch("amount") ? `$${watch("amount").toFixed(2)}` : ""}`
+          `Donate ${amount ? `$${totalAmount.toFixed(2)}${frequencySuffix}` : ""}`
         )}
       </Button>
 
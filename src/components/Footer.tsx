@@ -57,6 +57,9 @@ const Footer = () => {
                 <li>
                   <Link to="/support" className="text-gray-300 hover:text-white transition-colors">Support Us</Link>
                 </li>
+                <li>
+                  <Link to="/my-giving" className="text-gray-300 hover:text-white transition-colors">My Giving</Link>
+                </li>
               </ul>
             </div>
           </div>
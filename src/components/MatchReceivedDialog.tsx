@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Check, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface MatchReceivedDialogProps {
+  employerName: string;
+  donorName: string;
+  // What the employer was expected to match, in dollars
+  expectedAmount: number;
+  onClose: () => void;
+  onConfirm: (receivedAmount: number) => Promise<void>;
+}
+
+// Records how much an employer actually paid for a matching gift
+const MatchReceivedDialog: React.FC<MatchReceivedDialogProps> = ({
+  employerName,
+  donorName,
+  expectedAmount,
+  onClose,
+  onConfirm,
+}) => {
+  const [amount, setAmount] = useState(expectedAmount.toFixed(2));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const receivedAmount = Number(amount);
+  const isValid = receivedAmount > 0;
+
+  const handleConfirm = async () => {
+    try {
+      setIsSaving(true);
+      await onConfirm(receivedAmount);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Match Received</DialogTitle>
+          <DialogDescription>
+            Record the match {employerName} paid for {donorName}'s gift.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="match-amount">Amount received ($)</Label>
+          <Input
+            id="match-amount"
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+          <p className="text-sm text-muted-foreground">Expected: ${expectedAmount.toFixed(2)}</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSaving || !isValid}>
+            {isSaving
+              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              : <Check className="h-4 w-4 mr-2" />}
+            Mark Received
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MatchReceivedDialog;
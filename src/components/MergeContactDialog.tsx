@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react';
+import { Loader2, Merge } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { useContacts } from '@/hooks/use-contacts';
+import { formatPhone, mergeContacts, nameKey, type ContactSummary } from '@/lib/contacts';
+import { cn } from '@/lib/utils';
+
+// Enough to find a contact by name or email without rendering the whole list
+const MAX_RESULTS = 20;
+
+interface MergeContactDialogProps {
+  contact: ContactSummary;
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+// Picks a duplicate of `contact` and merges it in: its history moves over and the duplicate is deleted
+const MergeContactDialog: React.FC<MergeContactDialogProps> = ({ contact, onClose, onMerged }) => {
+  const { data: contacts = [], isLoading } = useContacts();
+  const [search, setSearch] = useState('');
+  const [duplicate, setDuplicate] = useState<ContactSummary | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Contacts with the same name are listed first, as the likeliest duplicates
+  const results = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const others = contacts.filter((other) => other.id !== contact.id);
+    const matches = term
+      ? others.filter((other) => `${other.name} ${other.emails.join(' ')}`.toLowerCase().includes(term))
+      : others.filter((other) => nameKey(other) === nameKey(contact));
+
+    return [...matches]
+      .sort((a, b) => Number(nameKey(b) === nameKey(contact)) - Number(nameKey(a) === nameKey(contact)))
+      .slice(0, MAX_RESULTS);
+  }, [contacts, contact, search]);
+
+  const handleMerge = async () => {
+    if (!duplicate) return;
+
+    try {
+      setIsSaving(true);
+      await mergeContacts(contact.id, duplicate.id);
+      toast.success('Contacts merged', {
+        description: `${duplicate.name || 'The duplicate'}'s history is now part of ${contact.name || 'this contact'}.`,
+      });
+      onMerged();
+      onClose();
+    } catch (error) {
+      console.error('Error merging contacts:', error);
+      toast.error('Failed to merge contacts', {
+        description: error instanceof Error ? error.message : 'Please try again or contact support',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Merge a Duplicate</DialogTitle>
+          <DialogDescription>
+            The contact you choose is folded into {contact.name || 'this contact'}: its donations, registrations,
+            volunteer applications, emails and phone numbers move here, and it is deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            placeholder="Search by name or email..."
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setDuplicate(null);
+            }}
+          />
+
+          <div className="max-h-72 overflow-y-auto space-y-2">
+            {isLoading && <Loader2 className="h-5 w-5 animate-spin mx-auto text-muted-foreground" />}
+            {!isLoading && results.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                {search.trim() ? 'No matching contacts' : 'No other contacts share this name. Search for the duplicate.'}
+              </p>
+            )}
+            {results.map((other) => (
+              <button
+                key={other.id}
+                type="button"
+                onClick={() => setDuplicate(other)}
+                className={cn(
+                  'w-full text-left rounded-lg border p-3 transition-colors hover:bg-secondary/50',
+                  duplicate?.id === other.id && 'border-primary bg-primary/5'
+                )}
+              >
+                <p className="font-medium">{other.name || 'Unnamed contact'}</p>
+                <p className="text-sm text-muted-foreground">
+                  {[...other.emails, ...other.phones.map(formatPhone)].join(' · ')}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {other.gift_count} gift(s), {other.registration_count} registration(s),{' '}
+                  {other.volunteer_application_count} volunteer application(s)
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={isSaving || !duplicate}>
+            {isSaving
+              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              : <Merge className="h-4 w-4 mr-2" />}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MergeContactDialog;
@@ -3,31 +3,15 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { motion } from 'framer-motion';
+import type { PriceQuote } from '@/lib/pricing';
 
 interface PaymentSummaryProps {
-  familyCategory: string;
-  adultCount: number;
-  kidsCount: number;
-  totalAmount: number;
+  quote: PriceQuote;
+  // Processing fees the family chose to cover, added to the total
+  feeCovered?: number;
 }
 
-const PaymentSummary: React.FC<PaymentSummaryProps> = ({ 
-  familyCategory, 
-  adultCount, 
-  kidsCount, 
-  totalAmount 
-}) => {
-  // Use the actual prices from RegistrationForm
-  const ADULT_PRICE = 20; // Changed back to $20 per person
-  const KID_PRICE = 20; // Changed back to $20 per person
-  
-  // Calculate individual totals
-  const adultTotal = adultCount * ADULT_PRICE;
-  const kidsTotal = kidsCount * KID_PRICE;
-  
-  // Verify that our calculated total matches the passed totalAmount
-  const calculatedTotal = adultTotal + kidsTotal;
-  
+const PaymentSummary: React.FC<PaymentSummaryProps> = ({ quote, feeCovered = 0 }) => {
   return (
     <motion.div
       initial={{ y: 20, opacity: 0 }}
@@ -42,21 +26,28 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
           <div>
             <div className="flex items-center justify-between text-sm mb-2">
               <span className="text-muted-foreground">Family Category:</span>
-              <span className="font-medium">{familyCategory}</span>
+              <span className="font-medium">{quote.familyCategory}</span>
             </div>
             
             <div className="space-y-2">
-              {adultCount > 0 && (
-                <div className="flex items-center justify-between text-sm">
-                  <span className="text-muted-foreground">{adultCount} Adult{adultCount > 1 ? 's' : ''} × ${ADULT_PRICE} each:</span>
-                  <span className="font-medium">${adultTotal.toFixed(2)}</span>
+              {quote.lineItems.map((item) => (
+                <div key={item.label} className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">{item.label}:</span>
+                  <span className="font-medium">${item.amount.toFixed(2)}</span>
                 </div>
-              )}
-              
-              {kidsCount > 0 && (
+              ))}
+
+              {quote.discounts.map((discount) => (
+                <div key={discount.label} className="flex items-center justify-between text-sm text-green-700">
+                  <span>{discount.label}:</span>
+                  <span className="font-medium">-${Math.abs(discount.amount).toFixed(2)}</span>
+                </div>
+              ))}
+
+              {feeCovered > 0 && (
                 <div className="flex items-center justify-between text-sm">
-                  <span className="text-muted-foreground">{kidsCount} Kid{kidsCount > 1 ? 's' : ''} × ${KID_PRICE} each:</span>
-                  <span className="font-medium">${kidsTotal.toFixed(2)}</span>
+                  <span className="text-muted-foreground">Processing fees covered:</span>
+                  <span className="font-medium">${feeCovered.toFixed(2)}</span>
                 </div>
               )}
             </div>
@@ -66,7 +57,7 @@ const PaymentSummary: React.FC<PaymentSummaryProps> = ({
           
           <div className="flex items-center justify-between font-medium">
             <span>Total Amount:</span>
-            <span className="text-lg font-bold text-primary">${calculatedTotal.toFixed(2)}</span>
+            <span className="text-lg font-bold text-primary">${(quote.total + feeCovered).toFixed(2)}</span>
           </div>
           
           <div className="text-xs text-muted-foreground">
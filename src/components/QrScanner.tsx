@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+import { CameraOff } from 'lucide-react';
+
+// A ticket usually stays in front of the camera after it is scanned. The same
+// code is read again only once it has been out of view this long.
+const RESCAN_AFTER_MS = 2000;
+
+interface QrScannerProps {
+  onScan: (code: string) => void;
+  paused?: boolean;
+}
+
+// Decodes QR codes from the device camera. Works in any browser with
+// getUserMedia, unlike the native BarcodeDetector which Safari lacks.
+const QrScanner: React.FC<QrScannerProps> = ({ onScan, paused = false }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onScanRef = useRef(onScan);
+  const lastSeenRef = useRef<{ code: string; at: number } | null>(null);
+  const [cameraError, setCameraError] = useState('');
+
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (paused) return;
+
+    // Time spent paused counts as the last code still being in view
+    if (lastSeenRef.current) {
+      lastSeenRef.current.at = Date.now();
+    }
+
+    let stream: MediaStream | undefined;
+    let frame = 0;
+    let stopped = false;
+
+    const scanFrame = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+
+      if (stopped || !video || !canvas) return;
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const result = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+
+          if (result?.data) {
+            const lastSeen = lastSeenRef.current;
+            const isRepeat = lastSeen?.code === result.data && Date.now() - lastSeen.at < RESCAN_AFTER_MS;
+
+            lastSeenRef.current = { code: result.data, at: Date.now() };
+
+            if (!isRepeat) {
+              onScanRef.current(result.data);
+              return;
+            }
+          }
+        }
+      }
+
+      frame = requestAnimationFrame(scanFrame);
+    };
+
+    navigator.mediaDevices?.getUserMedia({ video: { facingMode: 'environment' } })
+      .then((mediaStream) => {
+        if (stopped) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+
+        stream = mediaStream;
+        setCameraError('');
+
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play();
+        }
+
+        frame = requestAnimationFrame(scanFrame);
+      })
+      .catch((error) => {
+        console.error('Camera error:', error);
+        setCameraError('Camera unavailable. Type the ticket code instead.');
+      });
+
+    if (!navigator.mediaDevices) {
+      setCameraError('This browser cannot use the camera. Type the ticket code instead.');
+    }
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [paused]);
+
+  if (cameraError) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-2 rounded-xl bg-muted p-8 text-sm text-muted-foreground">
+        <CameraOff className="h-6 w-6" />
+        {cameraError}
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-hidden rounded-xl bg-black">
+      <video ref={videoRef} className="w-full" muted playsInline />
+      <canvas ref={canvasRef} className="hidden" />
+    </div>
+  );
+};
+
+export default QrScanner;
@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { Loader2, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { recordDonation } from '@/lib/donations';
+import { NONCASH_METHODS, OFFLINE_DONATION_TYPES, type OfflineDonationMethod } from '@/lib/offline-donations';
+
+// The designations DonationForm offers
+const DESIGNATIONS = ['Where Needed Most', 'Summer Camp Programs', 'Educational Initiatives', 'Family Support Services'];
+
+const today = () => {
+  const date = new Date();
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+interface RecordDonationDialogProps {
+  onClose: () => void;
+  onRecorded: () => void;
+}
+
+// Records a check, cash, stock or in-kind gift that arrived outside the website
+const RecordDonationDialog: React.FC<RecordDonationDialogProps> = ({ onClose, onRecorded }) => {
+  const [method, setMethod] = useState<OfflineDonationMethod>('check');
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [email, setEmail] = useState('');
+  const [amount, setAmount] = useState('');
+  const [designation, setDesignation] = useState(DESIGNATIONS[0]);
+  const [receivedOn, setReceivedOn] = useState(today());
+  const [checkNumber, setCheckNumber] = useState('');
+  const [checkDate, setCheckDate] = useState('');
+  const [description, setDescription] = useState('');
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [sendReceipt, setSendReceipt] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isNoncash = NONCASH_METHODS.includes(method);
+  const hasEmail = !!email.trim();
+  const isValid =
+    !!firstName.trim() &&
+    Number(amount) > 0 &&
+    !!receivedOn &&
+    (method !== 'check' || !!checkNumber.trim()) &&
+    (!isNoncash || !!description.trim());
+
+  const handleRecord = async () => {
+    try {
+      setIsSaving(true);
+      const result = await recordDonation({
+        method,
+        firstName: firstName.trim(),
+        lastName: lastName.trim() || undefined,
+        email: email.trim() || undefined,
+        amount: Number(amount),
+        designation,
+        isAnonymous,
+        receivedOn,
+        checkNumber: method === 'check' ? checkNumber.trim() : undefined,
+        checkDate: method === 'check' && checkDate ? checkDate : undefined,
+        description: isNoncash ? description.trim() : undefined,
+        sendReceipt: hasEmail && sendReceipt,
+      });
+
+      if (hasEmail && sendReceipt && !result.receiptSent) {
+        toast.warning('Donation recorded, but the receipt could not be sent', {
+          description: 'Send it again from the donation\'s row.',
+          duration: 20000,
+        });
+      } else {
+        toast.success(`${OFFLINE_DONATION_TYPES[method]} donation recorded`, {
+          description: result.receiptSent ? `A receipt was emailed to ${email.trim()}.` : undefined,
+        });
+      }
+
+      onRecorded();
+      onClose();
+    } catch (error) {
+      console.error('Error recording donation:', error);
+      toast.error('Failed to record donation', {
+        description: error instanceof Error ? error.message : 'Please try again or contact support',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record Donation</DialogTitle>
+          <DialogDescription>
+            Add a gift received outside the website. It counts toward totals and gets a tax receipt like a card gift.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup
+            value={method}
+            onValueChange={(value) => setMethod(value as OfflineDonationMethod)}
+            className="grid grid-cols-4 gap-2"
+          >
+            {(Object.keys(OFFLINE_DONATION_TYPES) as OfflineDonationMethod[]).map((value) => (
+              <div key={value} className="flex items-center space-x-2">
+                <RadioGroupItem value={value} id={`record-method-${value}`} />
+                <Label htmlFor={`record-method-${value}`}>{OFFLINE_DONATION_TYPES[value]}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="record-first-name">First name</Label>
+              <Input id="record-first-name" value={firstName} onChange={(e) => setFirstName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="record-last-name">Last name</Label>
+              <Input id="record-last-name" value={lastName} onChange={(e) => setLastName(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="record-email">Email (optional)</Label>
+            <Input id="record-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="record-amount">{isNoncash ? 'Fair-market value ($)' : 'Amount ($)'}</Label>
+              <Input
+                id="record-amount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="record-received-on">Date received</Label>
+              <Input
+                id="record-received-on"
+                type="date"
+                value={receivedOn}
+                max={today()}
+                onChange={(e) => setReceivedOn(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {method === 'check' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="record-check-number">Check number</Label>
+                <Input id="record-check-number" value={checkNumber} onChange={(e) => setCheckNumber(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="record-check-date">Check date (optional)</Label>
+                <Input
+                  id="record-check-date"
+                  type="date"
+                  value={checkDate}
+                  onChange={(e) => setCheckDate(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          {isNoncash && (
+            <div className="space-y-2">
+              <Label htmlFor="record-description">Description</Label>
+              <Textarea
+                id="record-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder={method === 'stock' ? 'e.g. 25 shares of AAPL' : 'e.g. 40 new backpacks with school supplies'}
+                maxLength={500}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Designation</Label>
+            <Select value={designation} onValueChange={setDesignation}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DESIGNATIONS.map((value) => (
+                  <SelectItem key={value} value={value}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="record-anonymous"
+              checked={isAnonymous}
+              onChange={(e) => setIsAnonymous(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            <Label htmlFor="record-anonymous" className="font-normal">Anonymous</Label>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="record-send-receipt"
+              checked={hasEmail && sendReceipt}
+              disabled={!hasEmail}
+              onChange={(e) => setSendReceipt(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            <Label htmlFor="record-send-receipt" className="font-normal">
+              Email the tax receipt now{!hasEmail && ' (needs an email address)'}
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleRecord} disabled={isSaving || !isValid}>
+            {isSaving
+              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              : <Plus className="h-4 w-4 mr-2" />}
+            Record
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordDonationDialog;
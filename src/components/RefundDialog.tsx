@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { refundPayment, type RefundEntityType } from '@/lib/refunds';
+
+export type RefundTarget = {
+  entityType: RefundEntityType;
+  id: string;
+  payerName: string;
+  payerEmail: string;
+  // What was charged, in dollars
+  amount: number;
+  // Refunded so far, in dollars, including refunds made in the Stripe dashboard
+  refunded: number;
+};
+
+interface RefundDialogProps {
+  target: RefundTarget;
+  onClose: () => void;
+  onRefunded: () => void;
+}
+
+// Full or partial Stripe refund of a registration or donation, opened from its table row
+const RefundDialog: React.FC<RefundDialogProps> = ({ target, onClose, onRefunded }) => {
+  const [kind, setKind] = useState<'full' | 'partial'>('full');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [isRefunding, setIsRefunding] = useState(false);
+
+  const alreadyRefunded = target.refunded;
+  const remaining = Math.max(target.amount - alreadyRefunded, 0);
+  const partialAmount = Number(amount);
+  const isValid = kind === 'full' || (partialAmount > 0 && partialAmount <= remaining);
+
+  const handleRefund = async () => {
+    try {
+      setIsRefunding(true);
+      const result = await refundPayment({
+        entityType: target.entityType,
+        entityId: target.id,
+        amount: kind === 'partial' ? partialAmount : undefined,
+        reason: reason.trim() || undefined,
+      });
+
+      if (result.emailSent) {
+        toast.success(`Refunded $${result.amount.toFixed(2)}`, {
+          description: `${target.payerName} has been emailed a refund confirmation.`,
+        });
+      } else {
+        toast.warning(`Refunded $${result.amount.toFixed(2)}, but the email could not be sent`, {
+          description: `Let ${target.payerEmail} know their refund is on its way.`,
+          duration: 20000,
+        });
+      }
+
+      onRefunded();
+      onClose();
+    } catch (error) {
+      console.error('Error issuing refund:', error);
+      toast.error('Failed to issue refund', {
+        description: error instanceof Error ? error.message : 'Please try again or contact support',
+      });
+    } finally {
+      setIsRefunding(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isRefunding && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Issue Refund</DialogTitle>
+          <DialogDescription>
+            Refund {target.payerName}'s {target.entityType} through Stripe. They'll be emailed when it's issued.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="text-sm space-y-1">
+            <p>Paid: <span className="font-medium">${target.amount.toFixed(2)}</span></p>
+            {alreadyRefunded > 0 && (
+              <p>Already refunded: <span className="font-medium">${alreadyRefunded.toFixed(2)}</span></p>
+            )}
+          </div>
+
+          <RadioGroup value={kind} onValueChange={(value) => setKind(value as 'full' | 'partial')}>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="full" id="refund-full" />
+              <Label htmlFor="refund-full">
+                {alreadyRefunded > 0 ? 'Everything remaining' : 'Full refund'} (${remaining.toFixed(2)})
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="partial" id="refund-partial" />
+              <Label htmlFor="refund-partial">Partial refund</Label>
+            </div>
+          </RadioGroup>
+
+          {kind === 'partial' && (
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Amount ($)</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                min="0.01"
+                max={remaining}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+              />
+              {partialAmount > remaining && (
+                <p className="text-sm text-destructive">Only ${remaining.toFixed(2)} can still be refunded.</p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Reason (optional)</Label>
+            <Textarea
+              id="refund-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Family can no longer attend"
+              maxLength={500}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isRefunding}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleRefund} disabled={isRefunding || !isValid}>
+            {isRefunding
+              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              : <RotateCcw className="h-4 w-4 mr-2" />}
+            Refund
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefundDialog;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { AdminRegistration } from '@/hooks/use-admin-registrations';
+
+interface RegistrationDetailsDialogProps {
+  registration: AdminRegistration | null;
+  onClose: () => void;
+}
+
+// Everything we hold about one registration, opened from the registrations table
+const RegistrationDetailsDialog: React.FC<RegistrationDetailsDialogProps> = ({ registration, onClose }) => {
+  if (!registration) return null;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Registration Details</DialogTitle>
+          <DialogDescription>
+            Complete information for {registration.name}
+          </DialogDescription>
+        </DialogHeader>
+        
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground">Contact Info</h4>
+              <p className="font-medium">{registration.name}</p>
+              <p className="text-sm">{registration.email}</p>
+              <p className="text-sm">{registration.phone}</p>
+            </div>
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground">Registration</h4>
+              <p className="text-sm">Family Type: <span className="font-medium">{registration.family_category}</span></p>
+              <p className="text-sm">Adults: <span className="font-medium">{registration.adult_count}</span></p>
+              <p className="text-sm">Kids: <span className="font-medium">{registration.kids_count}</span></p>
+            </div>
+          </div>
+          
+          <div>
+            <h4 className="text-sm font-medium text-muted-foreground">Payment</h4>
+            <p className="text-sm">Amount: <span className="font-medium">${registration.total_amount}</span></p>
+            {Number(registration.fee_covered_amount) > 0 && (
+              <p className="text-sm">Processing fees covered: <span className="font-medium">${Number(registration.fee_covered_amount).toFixed(2)}</span></p>
+            )}
+            <p className="text-sm">Status: <span className="font-medium">{registration.payment_status}</span></p>
+            {registration.transaction_id && (
+              <p className="text-sm">Transaction ID: <span className="font-medium">{registration.transaction_id}</span></p>
+            )}
+            {registration.checked_in_at && (
+              <p className="text-sm">Checked in: <span className="font-medium">{new Date(registration.checked_in_at).toLocaleString()}</span></p>
+            )}
+            {registration.t_shirts_picked_up_at && (
+              <p className="text-sm">T-shirts picked up: <span className="font-medium">{new Date(registration.t_shirts_picked_up_at).toLocaleString()}</span></p>
+            )}
+          </div>
+          
+          {registration.participants?.length > 0 ? (
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground">Participants</h4>
+              <div className="mt-2 space-y-2">
+                {registration.participants.map((participant) => (
+                  <div key={participant.id} className="flex items-center justify-between">
+                    <span className="text-sm">
+                      <span className="font-medium">{participant.name}</span>
+                      <span className="text-muted-foreground">
+                        {' '}· {participant.participant_type === 'adult' ? 'Adult' : 'Child'}
+                        {participant.age != null && `, ${participant.age}`}
+                      </span>
+                    </span>
+                    <Badge variant="outline">{participant.t_shirt_size}</Badge>
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm mt-3">
+                Emergency contact:{' '}
+                <span className="font-medium">
+                  {registration.participants[0].emergency_contact_name}, {registration.participants[0].emergency_contact_phone}
+                </span>
+              </p>
+            </div>
+          ) : registration.t_shirt_sizes && registration.t_shirt_sizes.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground">T-Shirt Sizes</h4>
+              <div className="mt-2 space-y-2">
+                {registration.t_shirt_sizes.map((size, index) => (
+                  <div key={index} className="flex items-center justify-between">
+                    <span className="text-sm">
+                      {index < registration.adult_count 
+                        ? `Adult ${registration.adult_count > 1 ? index + 1 : ''}` 
+                        : `Child ${registration.kids_count > 1 ? (index - registration.adult_count) + 1 : ''}`}
+                    </span>
+                    <Badge variant="outline">{size}</Badge>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          
+          {registration.is_tulip_parent && (
+            <div>
+              <Badge variant="outline" className="bg-blue-100 text-blue-800">
+                Tulip Parent
+              </Badge>
+            </div>
+          )}
+        </div>
+        
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RegistrationDetailsDialog;
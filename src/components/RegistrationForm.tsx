@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
@@ -15,15 +15,33 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import FamilyTypeCard from './FamilyTypeCard';
 import PaymentSummary from './PaymentSummary';
+import WaitlistForm from './WaitlistForm';
 import { toast } from "sonner";
 import { supabase } from '@/integrations/supabase/client';
 import { useStripe, useElements, CardElement } from '@stripe/react-stripe-js';
-// import { createPaymentIntent } from '@/lib/stripe';
+import { confirmRegistrationPayment, createPaymentIntent } from '@/lib/stripe';
+import { ApiError } from '@/lib/api';
+import { registrationReceiptPath } from '@/lib/receipts';
+import { calculateRegistrationPrice } from '@/lib/pricing';
+import { calculateProcessingFee } from '@/lib/processing-fees';
+import { getRegistrationStatus, formatEventDeadline, type TulipEvent } from '@/lib/events';
+import {
+  resizeParticipants,
+  validateParticipant,
+  T_SHIRT_SIZES,
+  type EmergencyContact,
+  type ParticipantDetails,
+} from '@/lib/participants';
+import { usePricingRules } from '@/hooks/use-pricing-rules';
+import { useEventAvailability } from '@/hooks/use-event-availability';
+import { useProcessingFeeRate } from '@/hooks/use-processing-fee-rate';
 
 // Define the base form schema with proper transformations
 const formSchema = z.object({
   name: z.string().min(2, {
     message: "Name must be at least 2 characters.",
+  }).max(100, {
+    message: "Name must be at most 100 characters.",
   }),
   email: z.string().email({
     message: "Please enter a valid email address.",
@@ -52,27 +70,31 @@ const formSchema = z.object({
 });
 
 interface RegistrationFormProps {
+  event: TulipEvent | null | undefined;
   formStep: number;
   setFormStep: React.Dispatch<React.SetStateAction<number>>;
   setPaymentAmount: React.Dispatch<React.SetStateAction<number>>;
 }
 
-const RegistrationForm: React.FC<RegistrationFormProps> = ({ formStep, setFormStep, setPaymentAmount }) => {
-  const [familyCategory, setFamilyCategory] = useState<string>('');
+const RegistrationForm: React.FC<RegistrationFormProps> = ({ event, formStep, setFormStep, setPaymentAmount }) => {
   const [adultCount, setAdultCount] = useState<number>(1);
   const [kidsCount, setKidsCount] = useState<number>(0);
-  const [tShirtSizes, setTShirtSizes] = useState<string[]>([]);
-  const [totalAmount, setTotalAmount] = useState<number>(0);
+  const [participants, setParticipants] = useState<ParticipantDetails[]>(() => resizeParticipants([], 1, 0));
+  const [emergencyContact, setEmergencyContact] = useState<EmergencyContact>({ name: '', phone: '' });
+  const [showParticipantErrors, setShowParticipantErrors] = useState(false);
   const [isTulipParent, setIsTulipParent] = useState<boolean>(false); // New state
+  const [coverFees, setCoverFees] = useState(false);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [clientSecret, setClientSecret] = useState('');
+  const [registrationId, setRegistrationId] = useState<string | undefined>();
+  // Set when the server turns the payment away because the last spots just went
+  const [soldOutAtPayment, setSoldOutAtPayment] = useState(false);
   const navigate = useNavigate();
   const stripe = useStripe();
   const elements = useElements();
-  
-  // At the component level, define constants
-  const ADULT_PRICE = 20; // Changed back to $20 per person
-  const KID_PRICE = 20; // Changed back to $20 per person
+  const { data: pricingRules = [] } = usePricingRules(event?.id);
+  const { data: availability } = useEventAvailability(event?.id);
+  const { data: feeRate } = useProcessingFeeRate();
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -89,49 +111,50 @@ const RegistrationForm: React.FC<RegistrationFormProps> = ({ formStep, setFormSt
     },
   });
 
-  useEffect(() => {
-    // Determine family category based on adults and kids count
-    const determineFamilyCategory = () => {
-      if (adultCount >= 1) {
-        if (kidsCount === 0) {
-          return 'One Family, No Kids';
-        } else if (kidsCount === 2) {
-          return 'One Family, Two Kids';
-        } else if (kidsCount > 2) {
-          return 'One Family, Multiple Kids';
-        } else {
-          return 'One Family, One Kid';
-        }
-      }
-      return 'Custom Case';
-    };
-
-    // Update family category
-    setFamilyCategory(determineFamilyCategory());
+  // Same engine the server uses to compute the charge, so the summary always matches
+  const quote = useMemo(
+    () => calculateRegistrationPrice(pricingRules, { adultCount, kidsCount, isTulipParent }),
+    [pricingRules, adultCount, kidsCount, isTulipParent]
+  );
+  const familyCategory = quote.familyCategory;
+  const processingFee = feeRate ? calculateProcessingFee(quote.total, feeRate) : 0;
+  // The server works the fee out again from its own rate when it creates the payment
+  const totalAmount = quote.total + (coverFees ? processingFee : 0);
 
-    // Calculate payment amount based on category
-    const calculatePayment = () => {
-      const adultTotal = adultCount * ADULT_PRICE;
-      const kidsTotal = kidsCount * KID_PRICE;
-      return adultTotal + kidsTotal;
-    };
+  const showWaitlist = soldOutAtPayment ||
+    (availability?.remaining != null && availability.remaining < adultCount + kidsCount);
 
-    const total = calculatePayment();
-    setTotalAmount(total);
-    
+  useEffect(() => {
     // Update the payment amount in cents for Stripe
-    setPaymentAmount(total * 100);
+    setPaymentAmount(Math.round(totalAmount * 100));
 
-    // Initialize t-shirt sizes array based on total participants
-    const totalParticipants = adultCount + kidsCount;
-    setTShirtSizes(Array(totalParticipants).fill('M'));
-  }, [adultCount, kidsCount, setPaymentAmount]);
+    // A different price needs a freshly priced PaymentIntent
+    setClientSecret('');
+    setRegistrationId(undefined);
+  }, [totalAmount, setPaymentAmount]);
+
+  useEffect(() => {
+    // One participant entry per person, keeping details already typed in
+    setParticipants((current) => resizeParticipants(current, adultCount, kidsCount));
+  }, [adultCount, kidsCount]);
+
+  const participantErrors = participants.map(validateParticipant);
+  const emergencyContactErrors = {
+    name: emergencyContact.name.trim().length < 2 ? 'Please enter a contact name.' : undefined,
+    phone: emergencyContact.phone.length < 10 ? 'Please enter a valid phone number.' : undefined,
+  };
+  const participantsValid =
+    participantErrors.every((errors) => Object.keys(errors).length === 0) &&
+    !emergencyContactErrors.name && !emergencyContactErrors.phone;
 
   const onSubmitContactDetails = (data: z.infer<typeof formSchema>) => {
     // Convert string form values to numbers for state
     setAdultCount(Number(data.adultCount));
     setKidsCount(Number(data.kidsCount));
     setIsTulipParent(data.isTulipParent); // Save the new field value
+    // Most families list themselves first, so start the first adult with the contact's name
+    setParticipants((current) => current.map((participant, index) =>
+      index === 0 && !participant.name ? { ...participant, name: data.name } : participant));
     setFormStep(2);
     
     toast("Contact details saved successfully", {
@@ -140,28 +163,28 @@ const RegistrationForm: React.FC<RegistrationFormProps> = ({ formStep, setFormSt
     });
   };
 
-  const handleTShirtSizeChange = (index: number, size: string) => {
-    const newSizes = [...tShirtSizes];
-    newSizes[index] = size;
-    setTShirtSizes(newSizes);
+  // Any change means the pending registration no longer matches, so the next payment creates a new one
+  const updateParticipant = (index: number, changes: Partial<ParticipantDetails>) => {
+    setParticipants((current) => current.map((participant, i) =>
+      i === index ? { ...participant, ...changes } : participant));
+    setClientSecret('');
+    setRegistrationId(undefined);
   };
 
-  // Replace the createPaymentIntent function with a mock implementation for development
-  const createPaymentIntent = async (amount: number) => {
-    try {
-      // For development/testing, return a mock client secret
-      // In production, this should call your actual backend API
-      console.log(`Creating payment intent for $${(amount/100).toFixed(2)}`);
-      
-      // Option 1: Use the imported function from lib/stripe if you have a backend
-      // return await import('@/lib/stripe').then(module => module.createPaymentIntent(amount));
-      
-      // Option 2: Mock response for testing
-      return `pi_mock_${Math.random().toString(36).substring(2)}_secret_${Math.random().toString(36).substring(2)}`;
-    } catch (error) {
-      console.error('Error creating payment intent:', error);
-      throw error;
+  const updateEmergencyContact = (changes: Partial<EmergencyContact>) => {
+    setEmergencyContact((current) => ({ ...current, ...changes }));
+    setClientSecret('');
+    setRegistrationId(undefined);
+  };
+
+  const onSubmitParticipants = () => {
+    if (!participantsValid) {
+      setShowParticipantErrors(true);
+      toast.error('Please complete the participant details');
+      return;
     }
+
+    setFormStep(3);
   };
 
   const handlePaymentSubmit = async () => {
@@ -173,20 +196,53 @@ const RegistrationForm: React.FC<RegistrationFormProps> = ({ formStep, setFormSt
     setIsProcessingPayment(true);
     
     try {
-      // Get the client secret (mock for development)
-      const clientSecret = await createPaymentIntent(totalAmount * 100);
-      
-      // For testing purposes, skip the actual payment confirmation
-      // and simulate a successful payment
-      
-      // In production, uncomment this code:
-      /*
-      const result = await stripe.confirmCardPayment(clientSecret, {
+      const values = form.getValues();
+
+      // Reuse the pending registration if a previous card attempt failed,
+      // otherwise the server creates one and prices it
+      let secret = clientSecret;
+      let pendingRegistrationId = registrationId;
+
+      if (!secret || !pendingRegistrationId) {
+        const paymentIntent = await createPaymentIntent({
+          type: 'registration',
+          eventId: event.id,
+          name: values.name,
+          email: values.email,
+          phone: values.phone,
+          adultCount,
+          kidsCount,
+          isTulipParent: values.isTulipParent,
+          participants,
+          emergencyContact,
+          coverFees,
+        });
+
+        secret = paymentIntent.clientSecret;
+        pendingRegistrationId = paymentIntent.registrationId;
+        setClientSecret(secret);
+        setRegistrationId(pendingRegistrationId);
+      }
+
+      const cardElement = elements.getElement(CardElement);
+
+      if (!cardElement) {
+        throw new Error("Card element not found");
+      }
+
+      const result = await stripe.confirmCardPayment(secret, {
         payment_method: {
-          card: elements.getElement(CardElement)!,
+          card: cardElement,
           billing_details: {
-            name: form.getValues('name'),
-            email: form.getValues('email'),
+            name: values.name,
+            email: values.email,
+            phone: values.phone,
+            address: {
+              line1: values.addressLine1,
+              city: values.city,
+              postal_code: values.postalCode,
+              country: 'US'
+            }
           },
         },
       });
@@ -194,50 +250,70 @@ const RegistrationForm: React.FC<RegistrationFormProps> = ({ formStep, setFormSt
       if (result.error) {
         throw result.error;
       }
-      */
-      
-      // Mock successful payment for development
-      console.log('Payment would be processed with secret:', clientSecret);
-      
-      // Generate a mock transaction ID
-      const mockTransactionId = `tx_${Math.random().toString(36).substring(2, 15)}`;
-      
-      // Create registration data object to pass to success page
-      const registrationData = {
-        name: form.getValues('name'),
-        email: form.getValues('email'),
-        phone: form.getValues('phone'),
-        adultCount: adultCount,
-        kidsCount: kidsCount,
-        familyCategory: familyCategory,
-        totalAmount: totalAmount,
-        isTulipParent: form.getValues('isTulipParent'),
-        tShirtSizes: tShirtSizes
-      };
-      
-      // Payment succeeded
-      toast.success('Registration successful!', {
-        description: 'Your payment has been processed successfully.',
-      });
+
+      // Flip the registration to paid now; the webhook does the same if this tab closes first
+      const { paymentStatus, receiptToken } = await confirmRegistrationPayment(pendingRegistrationId, result.paymentIntent.id);
+
+      if (paymentStatus === 'waitlisted') {
+        // The hold on their spots ran out and the walk filled up while they paid
+        toast('This event filled up before your payment went through', {
+          description: 'Your payment has been refunded and your family is on the waitlist.',
+        });
+      } else {
+        toast.success('Registration successful!', {
+          description: 'Your payment has been processed successfully.',
+        });
+      }
       
-      // Navigate to success page with registration data and transaction ID
-      navigate('/success', { 
-        state: { 
-          registrationData,
-          transactionId: mockTransactionId
-        } 
-      });
+      // The confirmation page loads the registration itself, so it survives a reload
+      navigate(registrationReceiptPath(pendingRegistrationId, receiptToken));
       
     } catch (error) {
+      if (error instanceof ApiError && error.data.waitlist) {
+        setSoldOutAtPayment(true);
+        toast('This event just filled up', {
+          description: 'You have not been charged. You can join the waitlist instead.',
+        });
+        return;
+      }
+
       console.error('Payment error:', error);
       toast.error('Payment failed', {
-        description: 'Please try again or contact support',
+        description: error instanceof Error && error.message
+          ? error.message
+          : 'Please try again or contact support',
       });
     } finally {
       setIsProcessingPayment(false);
     }
   };
 
+  // undefined while the active event is still loading, null when there is none
+  if (event === undefined) {
+    return (
+      <div className="p-6 sm:p-8 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const registrationStatus = event ? getRegistrationStatus(event) : 'not_open';
+
+  if (registrationStatus !== 'open') {
+    return (
+      <div className="p-6 sm:p-8 text-center">
+        <h2 className="text-2xl font-semibold mb-2">Registration</h2>
+        <p className="text-muted-foreground">
+          {registrationStatus === 'closed'
+            ? 'Registration for this year\'s Tulip Trot is closed. We hope to see you next year!'
+            : event?.registration_opens_at
+              ? `Registration opens on ${formatEventDeadline(event, 'registration_opens_at')}.`
+              : 'Registration is not open yet. Please check back soon.'}
+        </p>
+      </div>
+    );
+  }
+
   return (
     <div className="p-6 sm:p-8">
       <div className="flex justify-between items-center mb-8">
@@ -253,6 +329,12 @@ const RegistrationForm: React.FC<RegistrationFormProps> = ({ formStep, setFormSt
           ))}
         </div>
       </div>
+
+      {availability?.isFull && (
+        <div className="mb-6 rounded-xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          This year's walk is full. Fill in your details to join the waitlist and we'll email you if spots open up.
+        </div>
+      )}
       
       <AnimatePresence mode="wait">
         {formStep === 1 && (
@@ -513,39 +595,94 @@ const RegistrationForm: React.FC<RegistrationFormProps> = ({ formStep, setFormSt
               </div>
               
               <div>
-                <h3 className="text-lg font-medium mb-3">T-Shirt Sizes</h3>
+                <h3 className="text-lg font-medium mb-3">Participants</h3>
                 <Card className="rounded-xl overflow-hidden">
                   <CardContent className="p-4">
-                    {[...Array(adultCount + kidsCount)].map((_, index) => (
-                      <div key={index} className="flex items-center justify-between py-3 border-b last:border-0">
-                        <div>
+                    {participants.map((participant, index) => {
+                      const errors: ReturnType<typeof validateParticipant> = showParticipantErrors ? participantErrors[index] : {};
+
+                      return (
+                        <div key={index} className="py-4 border-b last:border-0 space-y-3">
                           <p className="font-medium">
                             {index < adultCount 
                               ? `Adult ${adultCount > 1 ? index + 1 : ''}` 
                               : `Child ${kidsCount > 1 ? (index - adultCount) + 1 : ''}`}
                           </p>
+                          <div className="grid grid-cols-1 sm:grid-cols-[1fr_90px_120px] gap-3">
+                            <div>
+                              <Input
+                                placeholder="Full name"
+                                value={participant.name}
+                                onChange={(e) => updateParticipant(index, { name: e.target.value })}
+                                className="rounded-xl h-11"
+                              />
+                              {errors.name && <p className="text-sm font-medium text-destructive mt-1">{errors.name}</p>}
+                            </div>
+                            <div>
+                              <Input
+                                placeholder={participant.type === 'child' ? 'Age' : 'Age (opt.)'}
+                                type="number"
+                                min={1}
+                                value={participant.age ?? ''}
+                                onChange={(e) => updateParticipant(index, {
+                                  age: e.target.value === '' ? null : Number(e.target.value),
+                                })}
+                                className="rounded-xl h-11"
+                              />
+                              {errors.age && <p className="text-sm font-medium text-destructive mt-1">{errors.age}</p>}
+                            </div>
+                            <Select 
+                              onValueChange={(value) => updateParticipant(index, { tShirtSize: value })} 
+                              value={participant.tShirtSize}
+                            >
+                              <SelectTrigger className="rounded-xl h-11">
+                                <SelectValue placeholder="T-shirt size" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {T_SHIRT_SIZES.map((size) => (
+                                  <SelectItem key={size} value={size}>{size}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
                         </div>
-                        <Select 
-                          onValueChange={(value) => handleTShirtSizeChange(index, value)} 
-                          defaultValue={tShirtSizes[index]}
-                        >
-                          <SelectTrigger className="w-[120px]">
-                            <SelectValue placeholder="Select size" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="XS">XS</SelectItem>
-                            <SelectItem value="S">S</SelectItem>
-                            <SelectItem value="M">M</SelectItem>
-                            <SelectItem value="L">L</SelectItem>
-                            <SelectItem value="XL">XL</SelectItem>
-                            <SelectItem value="XXL">XXL</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </CardContent>
                 </Card>
               </div>
+
+              <div>
+                <h3 className="text-lg font-medium mb-3">Emergency Contact</h3>
+                <p className="text-sm text-muted-foreground mb-3">
+                  Someone we can reach on the day if anyone in your group needs help.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <Input
+                      placeholder="Contact name"
+                      value={emergencyContact.name}
+                      onChange={(e) => updateEmergencyContact({ name: e.target.value })}
+                      className="rounded-xl h-11"
+                    />
+                    {showParticipantErrors && emergencyContactErrors.name && (
+                      <p className="text-sm font-medium text-destructive mt-1">{emergencyContactErrors.name}</p>
+                    )}
+                  </div>
+                  <div>
+                    <Input
+                      placeholder="(123) 456-7890"
+                      type="tel"
+                      value={emergencyContact.phone}
+                      onChange={(e) => updateEmergencyContact({ phone: e.target.value })}
+                      className="rounded-xl h-11"
+                    />
+                    {showParticipantErrors && emergencyContactErrors.phone && (
+                      <p className="text-sm font-medium text-destructive mt-1">{emergencyContactErrors.phone}</p>
+                    )}
+                  </div>
+                </div>
+              </div>
               
               <div className="flex gap-4">
                 <Button 
@@ -557,7 +694,7 @@ const RegistrationForm: React.FC<RegistrationFormProps> = ({ formStep, setFormSt
                 </Button>
                 <Button 
                   className="flex-1 rounded-xl h-12 btn-hover-effect"
-                  onClick={() => setFormStep(3)}
+                  onClick={onSubmitParticipants}
                 >
                   Continue <ChevronsRight className="ml-2 h-4 w-4" />
                 </Button>
@@ -574,58 +711,89 @@ const RegistrationForm: React.FC<RegistrationFormProps> = ({ formStep, setFormSt
             exit={{ x: -20, opacity: 0 }}
             transition={{ duration: 0.3 }}
           >
-            <div className="space-y-6">
-              <PaymentSummary 
-                familyCategory={familyCategory}
-                adultCount={adultCount}
-                kidsCount={kidsCount}
-                totalAmount={totalAmount}
+            {showWaitlist ? (
+              <WaitlistForm
+                event={event}
+                details={{
+                  eventId: event.id,
+                  name: form.getValues('name'),
+                  email: form.getValues('email'),
+                  phone: form.getValues('phone'),
+                  adultCount,
+                  kidsCount,
+                  isTulipParent,
+                  participants,
+                  emergencyContact,
+                }}
+                onBack={() => setFormStep(2)}
               />
+            ) : (
+              <div className="space-y-6">
+                <PaymentSummary quote={quote} feeCovered={coverFees ? processingFee : 0} />
+
+                {processingFee > 0 && (
+                  <div className="flex flex-row items-start space-x-3 rounded-md border p-4">
+                    <Checkbox
+                      id="coverFees"
+                      checked={coverFees}
+                      onCheckedChange={(checked) => setCoverFees(checked === true)}
+                    />
+                    <div className="space-y-1 leading-none">
+                      <label htmlFor="coverFees" className="text-sm font-medium">
+                        Add ${processingFee.toFixed(2)} to cover processing fees
+                      </label>
+                      <p className="text-sm text-muted-foreground">
+                        So the foundation receives your full registration fee.
+                      </p>
+                    </div>
+                  </div>
+                )}
               
-              <div className="border border-dashed p-4 rounded-xl bg-primary/5">
-                <div className="flex items-center mb-2">
-                  <CreditCard className="h-5 w-5 text-primary mr-2" />
-                  <h3 className="text-lg font-medium">Payment Details</h3>
-                </div>
+                <div className="border border-dashed p-4 rounded-xl bg-primary/5">
+                  <div className="flex items-center mb-2">
+                    <CreditCard className="h-5 w-5 text-primary mr-2" />
+                    <h3 className="text-lg font-medium">Payment Details</h3>
+                  </div>
                 
-                {/* Stripe Card Element */}
-                <div className="space-y-4 mt-4">
-                  <div className="p-3 border rounded-lg">
-                    <CardElement 
-                      options={{
-                        style: {
-                          base: {
-                            fontSize: '16px',
-                            color: '#424770',
-                            '::placeholder': {
-                              color: '#aab7c4',
+                  {/* Stripe Card Element */}
+                  <div className="space-y-4 mt-4">
+                    <div className="p-3 border rounded-lg">
+                      <CardElement 
+                        options={{
+                          style: {
+                            base: {
+                              fontSize: '16px',
+                              color: '#424770',
+                              '::placeholder': {
+                                color: '#aab7c4',
+                              },
+                            },
+                            invalid: {
+                              color: '#9e2146',
                             },
                           },
-                          invalid: {
-                            color: '#9e2146',
-                          },
-                        },
-                      }}
-                    />
+                        }}
+                      />
+                    </div>
                   </div>
-                </div>
                 
-                <Button 
-                  className="w-full mt-6" 
-                  onClick={handlePaymentSubmit}
-                  disabled={isProcessingPayment || !stripe}
-                >
-                  {isProcessingPayment ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Processing...
-                    </>
-                  ) : (
-                    `Pay $${totalAmount.toFixed(2)}`
-                  )}
-                </Button>
+                  <Button 
+                    className="w-full mt-6" 
+                    onClick={handlePaymentSubmit}
+                    disabled={isProcessingPayment || !stripe}
+                  >
+                    {isProcessingPayment ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Processing...
+                      </>
+                    ) : (
+                      `Pay $${totalAmount.toFixed(2)}`
+                    )}
+                  </Button>
+                </div>
               </div>
-            </div>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+
+interface StatCardProps {
+  icon: React.ElementType;
+  // Background and text colour of the icon circle, e.g. "bg-blue-100 text-blue-700"
+  iconClassName: string;
+  label: string;
+  value: React.ReactNode;
+  note?: React.ReactNode;
+}
+
+// Summary figure at the top of an admin page
+const StatCard: React.FC<StatCardProps> = ({ icon: Icon, iconClassName, label, value, note }) => (
+  <Card className="rounded-xl shadow-soft bg-white">
+    <CardContent className="p-6">
+      <div className="flex items-center space-x-4">
+        <div className={cn('p-3 rounded-full', iconClassName)}>
+          <Icon className="h-6 w-6" />
+        </div>
+        <div>
+          <p className="text-muted-foreground text-sm">{label}</p>
+          <h3 className="text-2xl font-bold">{value}</h3>
+          {note && <p className="text-xs text-muted-foreground">{note}</p>}
+        </div>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+export default StatCard;
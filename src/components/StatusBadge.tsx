@@ -0,0 +1,40 @@
+import React from 'react';
+import { Check, Clock, Hourglass, Pause, RotateCcw, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+
+// Registration payment statuses, donation statuses and recurring gift
+// (Stripe subscription) statuses share these styles
+const STATUS_STYLES: Record<string, { label: string; className: string; icon: React.ElementType }> = {
+  paid: { label: 'Paid', className: 'bg-green-100 text-green-800 hover:bg-green-100', icon: Check },
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-800 hover:bg-green-100', icon: Check },
+  pending: { label: 'Pending', className: 'bg-amber-100 text-amber-800 hover:bg-amber-100', icon: Clock },
+  waitlisted: { label: 'Waitlisted', className: 'bg-purple-100 text-purple-800 hover:bg-purple-100', icon: Hourglass },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800 hover:bg-red-100', icon: X },
+  partially_refunded: { label: 'Partially refunded', className: 'bg-gray-100 text-gray-800 hover:bg-gray-100', icon: RotateCcw },
+  refunded: { label: 'Refunded', className: 'bg-gray-100 text-gray-800 hover:bg-gray-100', icon: RotateCcw },
+  active: { label: 'Active', className: 'bg-green-100 text-green-800 hover:bg-green-100', icon: Check },
+  paused: { label: 'Paused', className: 'bg-purple-100 text-purple-800 hover:bg-purple-100', icon: Pause },
+  incomplete: { label: 'Incomplete', className: 'bg-amber-100 text-amber-800 hover:bg-amber-100', icon: Clock },
+  past_due: { label: 'Past due', className: 'bg-amber-100 text-amber-800 hover:bg-amber-100', icon: Clock },
+  unpaid: { label: 'Unpaid', className: 'bg-red-100 text-red-800 hover:bg-red-100', icon: X },
+  incomplete_expired: { label: 'Expired', className: 'bg-gray-100 text-gray-800 hover:bg-gray-100', icon: X },
+  canceled: { label: 'Canceled', className: 'bg-gray-100 text-gray-800 hover:bg-gray-100', icon: X },
+};
+
+const StatusBadge = ({ status }: { status: string }) => {
+  const style = STATUS_STYLES[status];
+
+  if (!style) {
+    return <Badge variant="outline">{status}</Badge>;
+  }
+
+  const Icon = style.icon;
+
+  return (
+    <Badge variant="outline" className={style.className}>
+      <Icon className="h-3 w-3 mr-1" /> {style.label}
+    </Badge>
+  );
+};
+
+export default StatusBadge;
@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { Loader2 } from 'lucide-react';
+
+interface TicketQRCodeProps {
+  code: string;
+  size?: number;
+}
+
+// The same code the confirmation email carries; scanned at /admin/check-in
+const TicketQRCode: React.FC<TicketQRCodeProps> = ({ code, size = 200 }) => {
+  const [dataUrl, setDataUrl] = useState('');
+
+  useEffect(() => {
+    QRCode.toDataURL(code, { width: size * 2, margin: 1 })
+      .then(setDataUrl)
+      .catch((error) => console.error('Error rendering ticket QR code:', error));
+  }, [code, size]);
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      {dataUrl ? (
+        <img src={dataUrl} alt="Tulip Trot ticket QR code" width={size} height={size} />
+      ) : (
+        <div className="flex items-center justify-center" style={{ width: size, height: size }}>
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      <p className="font-mono text-xs text-muted-foreground break-all text-center">{code}</p>
+    </div>
+  );
+};
+
+export default TicketQRCode;
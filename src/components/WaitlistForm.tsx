@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, Hourglass, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { joinWaitlist, type WaitlistDetails } from '@/lib/waitlist';
+import type { TulipEvent } from '@/lib/events';
+
+interface WaitlistFormProps {
+  event: TulipEvent;
+  details: WaitlistDetails;
+  onBack: () => void;
+}
+
+// Shown by RegistrationForm in place of payment once the event is full
+const WaitlistForm: React.FC<WaitlistFormProps> = ({ event, details, onBack }) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [joined, setJoined] = useState(false);
+  const participants = details.adultCount + details.kidsCount;
+
+  const handleJoin = async () => {
+    setIsSubmitting(true);
+
+    try {
+      await joinWaitlist(details);
+      setJoined(true);
+      toast.success("You're on the waitlist", {
+        description: `We'll email ${details.email} if spots open up.`,
+      });
+    } catch (error) {
+      console.error('Waitlist error:', error);
+      toast.error('Could not join the waitlist', {
+        description: error instanceof Error && error.message
+          ? error.message
+          : 'Please try again or contact support',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ y: 20, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      transition={{ duration: 0.4 }}
+      className="space-y-6"
+    >
+      <Card className="rounded-xl overflow-hidden shadow-soft">
+        <CardHeader className="bg-primary/5 pb-3">
+          <CardTitle className="text-xl flex items-center">
+            {joined ? (
+              <><Check className="h-5 w-5 text-green-600 mr-2" /> You're on the Waitlist</>
+            ) : (
+              <><Hourglass className="h-5 w-5 text-primary mr-2" /> {event.name} is Full</>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-4 space-y-3 text-sm">
+          {joined ? (
+            <p>
+              Thanks, {details.name}! If spots open up we will email <span className="font-medium">{details.email}</span> a
+              link to complete your registration. You will not be charged until then.
+            </p>
+          ) : (
+            <>
+              <p className="text-muted-foreground">
+                There isn't room for {participants} more participant{participants === 1 ? '' : 's'} right now.
+                Join the waitlist and we will email you a payment link if spots open up.
+              </p>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Name:</span>
+                <span className="font-medium">{details.name}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Email:</span>
+                <span className="font-medium">{details.email}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Participants:</span>
+                <span className="font-medium">
+                  {details.adultCount} adult{details.adultCount === 1 ? '' : 's'}, {details.kidsCount} kid{details.kidsCount === 1 ? '' : 's'}
+                </span>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {!joined && (
+        <div className="flex gap-4">
+          <Button
+            variant="outline"
+            className="flex-1 rounded-xl h-12"
+            onClick={onBack}
+            disabled={isSubmitting}
+          >
+            Back
+          </Button>
+          <Button
+            className="flex-1 rounded-xl h-12 btn-hover-effect"
+            onClick={handleJoin}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Joining...
+              </>
+            ) : (
+              'Join Waitlist'
+            )}
+          </Button>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default WaitlistForm;
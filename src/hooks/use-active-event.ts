@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { loadActiveEvent } from "@/lib/events";
+
+// The Tulip Trot currently promoted on the site; null when none is active
+export function useActiveEvent() {
+  return useQuery({
+    queryKey: ["active-event"],
+    queryFn: () => loadActiveEvent(supabase),
+    staleTime: 5 * 60 * 1000,
+  });
+}
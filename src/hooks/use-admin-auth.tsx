@@ -0,0 +1,100 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { hasPermission, type AdminPermission } from "@/lib/permissions";
+
+type AdminUser = Pick<Tables<"admin_users">, "id" | "email" | "role">;
+
+type AdminAuthContextValue = {
+  session: Session | null;
+  // null when signed out, or signed in with an account that is not in admin_users
+  adminUser: AdminUser | null;
+  isLoading: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  // Whether the signed-in admin's role allows an action; see src/lib/permissions.js
+  can: (permission: AdminPermission) => boolean;
+};
+
+const AdminAuthContext = createContext<AdminAuthContextValue | undefined>(undefined);
+
+// RLS only returns the signed-in user's own admin_users row, so no row means no access
+const loadAdminUser = async (): Promise<AdminUser | null> => {
+  const { data, error } = await supabase
+    .from("admin_users")
+    .select("id, email, role")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading admin user:", error);
+    return null;
+  }
+
+  return data;
+};
+
+export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [adminUser, setAdminUser] = useState<AdminUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    // Supabase keeps the session in localStorage, so a reload stays signed in
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+
+      // Deferred: Supabase calls must not run inside this callback
+      setTimeout(async () => {
+        setAdminUser(newSession ? await loadAdminUser() : null);
+        setIsLoading(false);
+      }, 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+
+    if (error) throw error;
+
+    const admin = await loadAdminUser();
+
+    if (!admin) {
+      await supabase.auth.signOut();
+      throw new Error("This account does not have access to the admin area");
+    }
+
+    setAdminUser(admin);
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+
+    if (error) throw error;
+
+    setAdminUser(null);
+  }, []);
+
+  const can = useCallback(
+    (permission: AdminPermission) => hasPermission(adminUser?.role, permission),
+    [adminUser]
+  );
+
+  return (
+    <AdminAuthContext.Provider value={{ session, adminUser, isLoading, signIn, signOut, can }}>
+      {children}
+    </AdminAuthContext.Provider>
+  );
+}
+
+export function useAdminAuth() {
+  const context = useContext(AdminAuthContext);
+
+  if (!context) {
+    throw new Error("useAdminAuth must be used within an AdminAuthProvider");
+  }
+
+  return context;
+}
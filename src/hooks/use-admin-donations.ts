@@ -0,0 +1,36 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchAllRows } from "@/utils/supabaseUtils";
+
+// Every donation, newest first
+export function useAdminDonations() {
+  return useQuery({
+    queryKey: ["admin-donations"],
+    queryFn: () =>
+      fetchAllRows((from, to) =>
+        supabase
+          .from("donations")
+          .select("*")
+          .order("created_at", { ascending: false })
+          .order("id")
+          .range(from, to)
+      ),
+  });
+}
+
+// Counts and amounts across every donation, summed by the database
+export function useDonationTotals() {
+  return useQuery({
+    queryKey: ["admin-donations", "totals"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("donation_totals")
+        .select("*")
+        .single();
+
+      if (error) throw error;
+
+      return data;
+    },
+  });
+}
@@ -0,0 +1,70 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { Participant } from "@/lib/participants";
+import { fetchAllRows } from "@/utils/supabaseUtils";
+
+export type AdminRegistration = Tables<"registrations"> & {
+  // Empty for registrations taken before participants were recorded
+  participants: Participant[];
+};
+
+export type RegistrationTotals = Omit<Tables<"registration_totals">, "event_id">;
+
+// Registrations for one event (all events when eventId is null), newest first
+export function useAdminRegistrations(eventId: string | null | undefined, enabled = true) {
+  return useQuery({
+    queryKey: ["admin-registrations", eventId ?? null],
+    queryFn: async () => {
+      const rows = await fetchAllRows((from, to) => {
+        let query = supabase
+          .from("registrations")
+          .select("*, participants (*)")
+          .order("created_at", { ascending: false })
+          .order("id")
+          .order("position", { referencedTable: "participants" });
+
+        if (eventId) {
+          query = query.eq("event_id", eventId);
+        }
+
+        return query.range(from, to);
+      });
+
+      return rows as AdminRegistration[];
+    },
+    enabled,
+  });
+}
+
+// Counts and amounts for one event (all events when eventId is null), summed by the database
+export function useRegistrationTotals(eventId: string | null | undefined, enabled = true) {
+  return useQuery({
+    queryKey: ["admin-registrations", eventId ?? null, "totals"],
+    queryFn: async () => {
+      let query = supabase.from("registration_totals").select("*");
+
+      if (eventId) {
+        query = query.eq("event_id", eventId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      // One row per event
+      return data.reduce<RegistrationTotals>(
+        (totals, row) => ({
+          registration_count: totals.registration_count + Number(row.registration_count),
+          participant_count: totals.participant_count + Number(row.participant_count),
+          paid_count: totals.paid_count + Number(row.paid_count),
+          revenue: totals.revenue + Number(row.revenue),
+          fees_covered: totals.fees_covered + Number(row.fees_covered),
+          waitlisted_count: totals.waitlisted_count + Number(row.waitlisted_count),
+        }),
+        { registration_count: 0, participant_count: 0, paid_count: 0, revenue: 0, fees_covered: 0, waitlisted_count: 0 }
+      );
+    },
+    enabled,
+  });
+}
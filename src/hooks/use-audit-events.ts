@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export type AuditEventFilters = {
+  // e.g. "registration" or "donation"; all entities when empty
+  entityType?: string;
+  // Part of the admin's email
+  actor?: string;
+};
+
+// Most recent admin changes first. RLS limits audit_events to admins.
+export function useAuditEvents({ entityType, actor }: AuditEventFilters) {
+  return useQuery({
+    queryKey: ["audit-events", entityType ?? "", actor ?? ""],
+    queryFn: async () => {
+      let query = supabase
+        .from("audit_events")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(200);
+
+      if (entityType) {
+        query = query.eq("entity_type", entityType);
+      }
+
+      if (actor?.trim()) {
+        query = query.ilike("actor_email", `%${actor.trim()}%`);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return data;
+    },
+  });
+}
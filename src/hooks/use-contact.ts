@@ -0,0 +1,45 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+// One contact's profile: their totals and every donation, registration and
+// volunteer application linked to them, newest first. Null if there is no such contact.
+export function useContact(contactId: string | undefined) {
+  return useQuery({
+    queryKey: ["contact", contactId],
+    queryFn: async () => {
+      const [contactResult, donationsResult, registrationsResult, applicationsResult] = await Promise.all([
+        supabase.from("contact_summaries").select("*").eq("id", contactId as string).maybeSingle(),
+        supabase
+          .from("donations")
+          .select("*")
+          .eq("contact_id", contactId as string)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("registrations")
+          .select("*")
+          .eq("contact_id", contactId as string)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("volunteer_applications")
+          .select("*")
+          .eq("contact_id", contactId as string)
+          .order("created_at", { ascending: false }),
+      ]);
+
+      if (contactResult.error) throw contactResult.error;
+      if (donationsResult.error) throw donationsResult.error;
+      if (registrationsResult.error) throw registrationsResult.error;
+      if (applicationsResult.error) throw applicationsResult.error;
+
+      if (!contactResult.data) return null;
+
+      return {
+        contact: contactResult.data,
+        donations: donationsResult.data,
+        registrations: registrationsResult.data,
+        volunteerApplications: applicationsResult.data,
+      };
+    },
+    enabled: !!contactId,
+  });
+}
@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchAllRows } from "@/utils/supabaseUtils";
+
+// Every contact with their lifetime giving and activity counts, by name.
+// RLS limits contacts to admins.
+export function useContacts() {
+  return useQuery({
+    queryKey: ["contacts"],
+    queryFn: () =>
+      fetchAllRows((from, to) =>
+        supabase
+          .from("contact_summaries")
+          .select("*")
+          .order("name")
+          .order("id")
+          .range(from, to)
+      ),
+  });
+}
+
+// How many contacts there are and their combined giving, summed by the database
+export function useContactTotals() {
+  return useQuery({
+    queryKey: ["contacts", "totals"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("contact_totals")
+        .select("*")
+        .single();
+
+      if (error) throw error;
+
+      return data;
+    },
+  });
+}
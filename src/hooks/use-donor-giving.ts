@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchDonorGiving } from "@/lib/donor-portal";
+
+// The Supabase session from a donor's sign-in link. The link lands on
+// /my-giving with the tokens in the URL, which the client picks up itself.
+export function useDonorSession() {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+      setIsLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  return { session, isLoading };
+}
+
+// Every donation and recurring gift under the signed-in donor's email
+export function useDonorGiving(session: Session | null) {
+  return useQuery({
+    queryKey: ["donor-giving", session?.user.id],
+    queryFn: fetchDonorGiving,
+    enabled: !!session,
+  });
+}
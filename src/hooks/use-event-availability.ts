@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchEventAvailability } from "@/lib/waitlist";
+
+// Spots left at an event; refetched often since it changes as families pay
+export function useEventAvailability(eventId?: string) {
+  return useQuery({
+    queryKey: ["event-availability", eventId],
+    queryFn: () => fetchEventAvailability(eventId as string),
+    enabled: !!eventId,
+    staleTime: 30 * 1000,
+  });
+}
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+// Every Tulip Trot, most recent first
+export function useEvents() {
+  return useQuery({
+    queryKey: ["events"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("events")
+        .select("*")
+        .order("starts_at", { ascending: false });
+
+      if (error) throw error;
+
+      return data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,10 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchGivingStatements } from "@/lib/giving-statements";
+
+// Donors who gave in a calendar year, with their year-end statement status
+export function useGivingStatements(year: number) {
+  return useQuery({
+    queryKey: ["giving-statements", year],
+    queryFn: async () => (await fetchGivingStatements(year)).statements,
+  });
+}
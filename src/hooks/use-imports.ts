@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+// CSV imports, newest first. RLS limits imports to admins.
+export function useImports() {
+  return useQuery({
+    queryKey: ["imports"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("imports")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      return data;
+    },
+  });
+}
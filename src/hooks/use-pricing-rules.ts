@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { loadPricingRules } from "@/lib/pricing";
+
+// Pricing rules rarely change mid-visit, so cache them for the session.
+// The form's summary falls back to the default prices if they can't be read;
+// the server prices the actual charge and refuses to guess.
+export function usePricingRules(eventId?: string) {
+  return useQuery({
+    queryKey: ["pricing-rules", eventId ?? null],
+    queryFn: async () => {
+      try {
+        return await loadPricingRules(supabase, eventId);
+      } catch (error) {
+        console.error("Error loading pricing rules:", error);
+        return [];
+      }
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchProcessingFeeRate } from "@/lib/stripe";
+
+// Set by the server and rarely changed, so fetched once per visit
+export function useProcessingFeeRate() {
+  return useQuery({
+    queryKey: ["processing-fee-rate"],
+    queryFn: fetchProcessingFeeRate,
+    staleTime: Infinity,
+  });
+}
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import { ApiError } from "@/lib/api";
+import { fetchDonationReceipt, fetchRegistrationReceipt } from "@/lib/receipts";
+
+const RECORDING_RETRIES = 10;
+
+// Refetches while the payment is still being recorded by the webhook
+export function useRegistrationReceipt(registrationId?: string, token?: string | null) {
+  return useQuery({
+    queryKey: ["registration-receipt", registrationId, token],
+    queryFn: () => fetchRegistrationReceipt(registrationId as string, token as string),
+    enabled: !!registrationId && !!token,
+    refetchInterval: (query) =>
+      query.state.data?.registration.payment_status === "pending" ? 3000 : false,
+  });
+}
+
+// The donation row only exists once the Stripe webhook has run, so a 404
+// straight after payment is retried for a while before giving up
+export function useDonationReceipt(donationId?: string, token?: string | null) {
+  return useQuery({
+    queryKey: ["donation-receipt", donationId, token],
+    queryFn: () => fetchDonationReceipt(donationId as string, token as string),
+    enabled: !!donationId && !!token,
+    retry: (failureCount, error) =>
+      error instanceof ApiError && error.status === 404 && failureCount < RECORDING_RETRIES,
+    retryDelay: 2000,
+  });
+}
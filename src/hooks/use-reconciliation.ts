@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchReconciliation } from "@/lib/reconciliation";
+
+// Stripe payments for a date range matched against registrations and donations
+export function useReconciliation(from: string, to: string) {
+  return useQuery({
+    queryKey: ["reconciliation", from, to],
+    queryFn: () => fetchReconciliation(from, to),
+    enabled: !!from && !!to && from <= to,
+  });
+}
@@ -13,26 +13,76 @@ export type Database = {
         Row: {
           id: string
           email: string
-          password_hash: string
+          password_hash: string | null
+          role: "owner" | "finance" | "event_staff" | "volunteer_coordinator" | "read_only"
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
           email: string
-          password_hash: string
+          password_hash?: string | null
+          role?: "owner" | "finance" | "event_staff" | "volunteer_coordinator" | "read_only"
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
           email?: string
-          password_hash?: string
+          password_hash?: string | null
+          role?: "owner" | "finance" | "event_staff" | "volunteer_coordinator" | "read_only"
           created_at?: string
           updated_at?: string
         }
         Relationships: []
       }
+      participants: {
+        Row: {
+          id: string
+          registration_id: string
+          participant_type: string
+          position: number
+          name: string
+          age: number | null
+          t_shirt_size: string
+          emergency_contact_name: string
+          emergency_contact_phone: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          registration_id: string
+          participant_type: string
+          position?: number
+          name: string
+          age?: number | null
+          t_shirt_size: string
+          emergency_contact_name: string
+          emergency_contact_phone: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          registration_id?: string
+          participant_type?: string
+          position?: number
+          name?: string
+          age?: number | null
+          t_shirt_size?: string
+          emergency_contact_name?: string
+          emergency_contact_phone?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "participants_registration_id_fkey"
+            columns: ["registration_id"]
+            isOneToOne: false
+            referencedRelation: "registrations"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       registrations: {
         Row: {
           adult_count: number
@@ -49,6 +99,15 @@ export type Database = {
           updated_at: string
           is_tulip_parent: boolean
           t_shirt_sizes: string[] | null
+          event_id: string | null
+          hold_expires_at: string | null
+          checked_in_at: string | null
+          t_shirts_picked_up_at: string | null
+          receipt_token: string
+          fee_covered_amount: number
+          import_id: string | null
+          contact_id: string | null
+          refunded_amount: number
         }
         Insert: {
           adult_count: number
@@ -65,6 +124,15 @@ export type Database = {
           updated_at?: string
           is_tulip_parent?: boolean
           t_shirt_sizes?: string[] | null
+          event_id?: string | null
+          hold_expires_at?: string | null
+          checked_in_at?: string | null
+          t_shirts_picked_up_at?: string | null
+          receipt_token?: string
+          fee_covered_amount?: number
+          import_id?: string | null
+          contact_id?: string | null
+          refunded_amount?: number
         }
         Update: {
           adult_count?: number
@@ -79,6 +147,15 @@ export type Database = {
           total_amount?: number
           transaction_id?: string | null
           updated_at?: string
+          event_id?: string | null
+          hold_expires_at?: string | null
+          checked_in_at?: string | null
+          t_shirts_picked_up_at?: string | null
+          receipt_token?: string
+          fee_covered_amount?: number
+          import_id?: string | null
+          contact_id?: string | null
+          refunded_amount?: number
         }
         Relationships: []
       }
@@ -91,11 +168,33 @@ export type Database = {
           amount: number
           designation: string
           is_anonymous: boolean
-          payment_id: string
+          payment_id: string | null
           donation_type: string
           status: string
           created_at: string
           certificate_sent: boolean
+          receipt_token: string
+          receipt_number: number
+          receipt_sent_at: string | null
+          recurring_donation_id: string | null
+          fee_covered_amount: number
+          tribute_type: string | null
+          tribute_honoree_name: string | null
+          tribute_recipient_email: string | null
+          tribute_message: string | null
+          tribute_notified_at: string | null
+          employer_name: string | null
+          matching_gift_status: string | null
+          matching_gift_expected_amount: number | null
+          matching_gift_received_amount: number | null
+          matching_gift_updated_at: string | null
+          check_number: string | null
+          check_date: string | null
+          gift_description: string | null
+          recorded_by: string | null
+          import_id: string | null
+          contact_id: string | null
+          refunded_amount: number
         }
         Insert: {
           id?: string
@@ -105,11 +204,33 @@ export type Database = {
           amount: number
           designation: string
           is_anonymous?: boolean
-          payment_id: string
+          payment_id?: string | null
           donation_type: string
           status: string
           created_at?: string
           certificate_sent?: boolean
+          receipt_token?: string
+          receipt_number?: number
+          receipt_sent_at?: string | null
+          recurring_donation_id?: string | null
+          fee_covered_amount?: number
+          tribute_type?: string | null
+          tribute_honoree_name?: string | null
+          tribute_recipient_email?: string | null
+          tribute_message?: string | null
+          tribute_notified_at?: string | null
+          employer_name?: string | null
+          matching_gift_status?: string | null
+          matching_gift_expected_amount?: number | null
+          matching_gift_received_amount?: number | null
+          matching_gift_updated_at?: string | null
+          check_number?: string | null
+          check_date?: string | null
+          gift_description?: string | null
+          recorded_by?: string | null
+          import_id?: string | null
+          contact_id?: string | null
+          refunded_amount?: number
         }
         Update: {
           id?: string
@@ -119,17 +240,462 @@ export type Database = {
           amount?: number
           designation?: string
           is_anonymous?: boolean
-          payment_id?: string
+          payment_id?: string | null
           donation_type?: string
           status?: string
           created_at?: string
           certificate_sent?: boolean
+          receipt_token?: string
+          receipt_number?: number
+          receipt_sent_at?: string | null
+          recurring_donation_id?: string | null
+          fee_covered_amount?: number
+          tribute_type?: string | null
+          tribute_honoree_name?: string | null
+          tribute_recipient_email?: string | null
+          tribute_message?: string | null
+          tribute_notified_at?: string | null
+          employer_name?: string | null
+          matching_gift_status?: string | null
+          matching_gift_expected_amount?: number | null
+          matching_gift_received_amount?: number | null
+          matching_gift_updated_at?: string | null
+          check_number?: string | null
+          check_date?: string | null
+          gift_description?: string | null
+          recorded_by?: string | null
+          import_id?: string | null
+          contact_id?: string | null
+          refunded_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "donations_recurring_donation_id_fkey"
+            columns: ["recurring_donation_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_donations"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      events: {
+        Row: {
+          id: string
+          name: string
+          starts_at: string
+          check_in_opens_at: string | null
+          timezone: string
+          venue_name: string
+          venue_address: string | null
+          registration_opens_at: string | null
+          registration_closes_at: string | null
+          t_shirt_deadline: string | null
+          capacity: number | null
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          starts_at: string
+          check_in_opens_at?: string | null
+          timezone?: string
+          venue_name: string
+          venue_address?: string | null
+          registration_opens_at?: string | null
+          registration_closes_at?: string | null
+          t_shirt_deadline?: string | null
+          capacity?: number | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          starts_at?: string
+          check_in_opens_at?: string | null
+          timezone?: string
+          venue_name?: string
+          venue_address?: string | null
+          registration_opens_at?: string | null
+          registration_closes_at?: string | null
+          t_shirt_deadline?: string | null
+          capacity?: number | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      pricing_rules: {
+        Row: {
+          id: string
+          event_id: string | null
+          name: string
+          rule_type: string
+          participant_type: string | null
+          amount: number | null
+          percent_off: number | null
+          min_adults: number | null
+          max_adults: number | null
+          min_kids: number | null
+          max_kids: number | null
+          starts_at: string | null
+          ends_at: string | null
+          priority: number
+          active: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          event_id?: string | null
+          name: string
+          rule_type: string
+          participant_type?: string | null
+          amount?: number | null
+          percent_off?: number | null
+          min_adults?: number | null
+          max_adults?: number | null
+          min_kids?: number | null
+          max_kids?: number | null
+          starts_at?: string | null
+          ends_at?: string | null
+          priority?: number
+          active?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          event_id?: string | null
+          name?: string
+          rule_type?: string
+          participant_type?: string | null
+          amount?: number | null
+          percent_off?: number | null
+          min_adults?: number | null
+          max_adults?: number | null
+          min_kids?: number | null
+          max_kids?: number | null
+          starts_at?: string | null
+          ends_at?: string | null
+          priority?: number
+          active?: boolean
+          created_at?: string
+        }
+        Relationships: []
+      }
+      audit_events: {
+        Row: {
+          id: string
+          actor_email: string | null
+          entity_type: string
+          entity_id: string
+          action: string
+          before: Json | null
+          after: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          actor_email?: string | null
+          entity_type: string
+          entity_id: string
+          action: string
+          before?: Json | null
+          after?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          actor_email?: string | null
+          entity_type?: string
+          entity_id?: string
+          action?: string
+          before?: Json | null
+          after?: Json | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      recurring_donations: {
+        Row: {
+          id: string
+          first_name: string
+          last_name: string
+          email: string
+          amount: number
+          interval: string
+          designation: string
+          is_anonymous: boolean
+          stripe_customer_id: string
+          stripe_subscription_id: string
+          status: string
+          is_paused: boolean
+          current_period_end: string | null
+          canceled_at: string | null
+          created_at: string
+          updated_at: string
+          fee_covered_amount: number
+        }
+        Insert: {
+          id?: string
+          first_name: string
+          last_name: string
+          email: string
+          amount: number
+          interval: string
+          designation: string
+          is_anonymous?: boolean
+          stripe_customer_id: string
+          stripe_subscription_id: string
+          status?: string
+          is_paused?: boolean
+          current_period_end?: string | null
+          canceled_at?: string | null
+          created_at?: string
+          updated_at?: string
+          fee_covered_amount?: number
+        }
+        Update: {
+          id?: string
+          first_name?: string
+          last_name?: string
+          email?: string
+          amount?: number
+          interval?: string
+          designation?: string
+          is_anonymous?: boolean
+          stripe_customer_id?: string
+          stripe_subscription_id?: string
+          status?: string
+          is_paused?: boolean
+          current_period_end?: string | null
+          canceled_at?: string | null
+          created_at?: string
+          updated_at?: string
+          fee_covered_amount?: number
+        }
+        Relationships: []
+      }
+      giving_statements: {
+        Row: {
+          id: string
+          email: string
+          year: number
+          donation_count: number
+          total_amount: number
+          sent_at: string
+          sent_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          email: string
+          year: number
+          donation_count: number
+          total_amount: number
+          sent_at: string
+          sent_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          email?: string
+          year?: number
+          donation_count?: number
+          total_amount?: number
+          sent_at?: string
+          sent_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      refunds: {
+        Row: {
+          id: string
+          entity_type: string
+          entity_id: string
+          payment_intent_id: string
+          stripe_refund_id: string
+          amount: number
+          reason: string | null
+          status: string
+          refunded_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          entity_type: string
+          entity_id: string
+          payment_intent_id: string
+          stripe_refund_id: string
+          amount: number
+          reason?: string | null
+          status: string
+          refunded_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          entity_type?: string
+          entity_id?: string
+          payment_intent_id?: string
+          stripe_refund_id?: string
+          amount?: number
+          reason?: string | null
+          status?: string
+          refunded_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      imports: {
+        Row: {
+          id: string
+          entity_type: string
+          file_name: string
+          row_count: number
+          skipped_count: number
+          imported_by: string | null
+          created_at: string
+          undone_at: string | null
+          undone_by: string | null
+        }
+        Insert: {
+          id?: string
+          entity_type: string
+          file_name: string
+          row_count: number
+          skipped_count?: number
+          imported_by?: string | null
+          created_at?: string
+          undone_at?: string | null
+          undone_by?: string | null
+        }
+        Update: {
+          id?: string
+          entity_type?: string
+          file_name?: string
+          row_count?: number
+          skipped_count?: number
+          imported_by?: string | null
+          created_at?: string
+          undone_at?: string | null
+          undone_by?: string | null
+        }
+        Relationships: []
+      }
+      volunteer_applications: {
+        Row: {
+          id: string
+          first_name: string
+          last_name: string
+          email: string
+          phone: string | null
+          reason: string
+          created_at: string
+          contact_id: string | null
+        }
+        Insert: {
+          id?: string
+          first_name: string
+          last_name: string
+          email: string
+          phone?: string | null
+          reason: string
+          created_at?: string
+          contact_id?: string | null
+        }
+        Update: {
+          id?: string
+          first_name?: string
+          last_name?: string
+          email?: string
+          phone?: string | null
+          reason?: string
+          created_at?: string
+          contact_id?: string | null
+        }
+        Relationships: []
+      }
+      contacts: {
+        Row: {
+          id: string
+          name: string
+          emails: string[]
+          phones: string[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name?: string
+          emails?: string[]
+          phones?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          emails?: string[]
+          phones?: string[]
+          created_at?: string
+          updated_at?: string
         }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      contact_summaries: {
+        Row: {
+          id: string
+          name: string
+          emails: string[]
+          phones: string[]
+          created_at: string
+          updated_at: string
+          lifetime_giving: number
+          gift_count: number
+          first_gift_at: string | null
+          last_gift_at: string | null
+          registration_count: number
+          volunteer_application_count: number
+        }
+        Relationships: []
+      }
+      contact_totals: {
+        Row: {
+          contact_count: number
+          donor_count: number
+          lifetime_giving: number
+        }
+        Relationships: []
+      }
+      donation_totals: {
+        Row: {
+          donation_count: number
+          completed_count: number
+          pending_count: number
+          amount_raised: number
+          fees_covered: number
+        }
+        Relationships: []
+      }
+      registration_totals: {
+        Row: {
+          event_id: string | null
+          registration_count: number
+          participant_count: number
+          paid_count: number
+          revenue: number
+          fees_covered: number
+          waitlisted_count: number
+        }
+        Relationships: []
+      }
     }
     Functions: {
       [_ in never]: never
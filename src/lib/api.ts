@@ -0,0 +1,58 @@
+import { supabase } from '@/integrations/supabase/client';
+import { downloadBlob } from '@/lib/utils';
+
+// Thin wrapper around fetch for the Express server, which Vite proxies under /api
+export class ApiError extends Error {
+  status: number;
+  data: Record<string, unknown>;
+
+  constructor(message: string, status: number, data: Record<string, unknown>) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+// Sends the admin's Supabase session, if any, for the server's /admin routes
+const authHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+};
+
+const toApiError = async (response: Response) => {
+  const data = await response.json().catch(() => ({}));
+  return new ApiError(data.error || `Request failed with status ${response.status}`, response.status, data);
+};
+
+// Throws an ApiError carrying the server's `error` message and full response body.
+export const apiRequest = async <T>(path: string, options: { method?: string; body?: unknown } = {}): Promise<T> => {
+  const headers = await authHeaders();
+
+  if (options.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const response = await fetch(`/api${path}`, {
+    method: options.method || (options.body === undefined ? 'GET' : 'POST'),
+    headers,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  return response.json().catch(() => ({}));
+};
+
+// Fetches a file (e.g. a PDF) and saves it in the browser under `filename`
+export const apiDownload = async (path: string, filename: string) => {
+  const response = await fetch(`/api${path}`, { headers: await authHeaders() });
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  downloadBlob(await response.blob(), filename);
+};
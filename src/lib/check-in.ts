@@ -0,0 +1,19 @@
+import { apiRequest } from '@/lib/api';
+import type { TulipEvent } from '@/lib/events';
+import type { Participant } from '@/lib/participants';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type TicketHolder = Tables<'registrations'> & {
+  events: TulipEvent | null;
+  participants: Participant[];
+};
+
+export const lookupTicket = (code: string) =>
+  apiRequest<{ registration: TicketHolder }>('/admin/check-in/lookup', { body: { code } });
+
+// true records the time (keeping one already recorded), false clears it
+export const updateCheckIn = (
+  registrationId: string,
+  changes: { checkedIn?: boolean; tShirtsPickedUp?: boolean }
+) =>
+  apiRequest<{ registration: TicketHolder }>(`/admin/registrations/${registrationId}/check-in`, { body: changes });
@@ -0,0 +1,15 @@
+import { apiRequest } from '@/lib/api';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ContactSummary = Tables<'contact_summaries'>;
+
+// Contacts store the last 10 digits of each phone number; shown as (555) 123-4567
+export const formatPhone = (phone: string) =>
+  phone.length === 10 ? `(${phone.slice(0, 3)}) ${phone.slice(3, 6)}-${phone.slice(6)}` : phone;
+
+// Moves everything linked to duplicateId onto contactId and deletes the duplicate
+export const mergeContacts = (contactId: string, duplicateId: string) =>
+  apiRequest<{ contact: Tables<'contacts'> }>(`/admin/contacts/${contactId}/merge`, { body: { duplicateId } });
+
+// Contacts are matched on email and phone only, so the same name is the hint that two may be one person
+export const nameKey = (contact: { name: string }) => contact.name.trim().toLowerCase().replace(/\s+/g, ' ');
@@ -0,0 +1,73 @@
+// CSV exports and imports for the admin area
+import { downloadBlob } from '@/lib/utils';
+
+type CsvValue = string | number | boolean | null | undefined;
+
+// Quotes fields containing commas, quotes or line breaks so they stay in one cell
+export function escapeCsv(value: CsvValue): string {
+  if (value == null) return '';
+  const str = String(value);
+  if (/[",\r\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+// Downloads rows as <name>-<yyyy-mm-dd>.csv
+export function downloadCsv(name: string, headers: string[], rows: CsvValue[][]) {
+  const csvContent = [headers, ...rows]
+    .map((row) => row.map(escapeCsv).join(','))
+    .join('\n');
+
+  downloadBlob(
+    new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }),
+    `${name}-${new Date().toISOString().split('T')[0]}.csv`
+  );
+}
+
+// Reads CSV text into rows of cells, handling quoted fields with commas,
+// doubled quotes and line breaks. Blank lines are dropped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Spreadsheet exports often start with a byte-order mark
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+}
@@ -0,0 +1,30 @@
+import { apiRequest } from '@/lib/api';
+import type { Tables } from '@/integrations/supabase/types';
+import type { OfflineDonationMethod } from '@/lib/offline-donations';
+
+export type OfflineDonationDetails = {
+  method: OfflineDonationMethod;
+  firstName: string;
+  lastName?: string;
+  email?: string;
+  // For stock and in-kind gifts, the fair-market value
+  amount: number;
+  designation?: string;
+  isAnonymous?: boolean;
+  // yyyy-mm-dd, recorded as the date of the gift
+  receivedOn: string;
+  checkNumber?: string;
+  checkDate?: string;
+  description?: string;
+  sendReceipt?: boolean;
+};
+
+export type RecordDonationResult = {
+  donation: Tables<'donations'>;
+  // False when no receipt was asked for, or it couldn't be emailed
+  receiptSent: boolean;
+};
+
+// Records a check, cash, stock or in-kind gift received outside Stripe
+export const recordDonation = (details: OfflineDonationDetails) =>
+  apiRequest<RecordDonationResult>('/admin/donations', { body: details });
@@ -0,0 +1,41 @@
+import { apiDownload, apiRequest } from '@/lib/api';
+import { formatReceiptNumber } from '@/lib/tax-receipts';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type DonorDonation = Pick<
+  Tables<'donations'>,
+  | 'id' | 'first_name' | 'last_name' | 'amount' | 'fee_covered_amount' | 'refunded_amount' | 'designation'
+  | 'is_anonymous' | 'payment_id' | 'donation_type' | 'status' | 'created_at' | 'receipt_number' | 'recurring_donation_id'
+>;
+
+export type DonorRecurringDonation = Pick<
+  Tables<'recurring_donations'>,
+  | 'id' | 'amount' | 'fee_covered_amount' | 'interval' | 'designation' | 'status' | 'is_paused'
+  | 'current_period_end' | 'canceled_at' | 'created_at'
+>;
+
+export type DonorGiving = {
+  email: string;
+  donations: DonorDonation[];
+  recurringDonations: DonorRecurringDonation[];
+};
+
+export type RecurringDonationAction = 'pause' | 'resume' | 'cancel';
+
+// Always succeeds for a valid address, whether or not it has given
+export const requestDonorSignInLink = (email: string) =>
+  apiRequest<{ sent: boolean }>('/donor-sign-in-links', { body: { email } });
+
+export const fetchDonorGiving = () => apiRequest<DonorGiving>('/donor/giving');
+
+export const downloadDonorReceipt = (donation: { id: string; receipt_number: number }) =>
+  apiDownload(`/donor/donations/${donation.id}/receipt.pdf`, `${formatReceiptNumber(donation.receipt_number)}.pdf`);
+
+// Returns a Stripe-hosted page where the donor can change their card
+export const createBillingSession = (recurringDonationId: string) =>
+  apiRequest<{ url: string }>(`/donor/recurring-donations/${recurringDonationId}/billing-session`, { method: 'POST' });
+
+export const updateRecurringDonation = (recurringDonationId: string, action: RecurringDonationAction) =>
+  apiRequest<{ status: string; isPaused: boolean }>(`/donor/recurring-donations/${recurringDonationId}`, {
+    body: { action },
+  });
@@ -0,0 +1,84 @@
+// Shared helpers for the `events` table: event details as the pages and
+// emails show them, and whether registration is open.
+
+/**
+ * @typedef {Object} TulipEvent
+ * @property {string} id
+ * @property {string} name
+ * @property {string} starts_at - when the walk begins
+ * @property {string | null} check_in_opens_at - when the registration desk opens on the day
+ * @property {string} timezone - IANA zone the times are displayed in
+ * @property {string} venue_name
+ * @property {string | null} venue_address
+ * @property {string | null} registration_opens_at
+ * @property {string | null} registration_closes_at - when unset, registration closes as the walk starts
+ * @property {string | null} t_shirt_deadline - registrations after this date are not guaranteed a t-shirt
+ * @property {number | null} capacity - maximum participants, or null for no limit
+ * @property {boolean} is_active - the event the public site currently promotes
+ */
+
+/**
+ * @param {TulipEvent} event
+ * @param {string | null | undefined} value
+ * @param {Intl.DateTimeFormatOptions} options
+ */
+const formatInEventZone = (event, value, options) => {
+  if (!value) return '';
+  return new Intl.DateTimeFormat('en-US', { timeZone: event.timezone, ...options }).format(new Date(value));
+};
+
+/**
+ * e.g. "Sunday, May 4, 2025"
+ * @param {TulipEvent} event
+ */
+export const formatEventDate = (event) =>
+  formatInEventZone(event, event.starts_at, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+/**
+ * e.g. "9:30 AM"
+ * @param {TulipEvent} event
+ * @param {'starts_at' | 'check_in_opens_at'} field
+ */
+export const formatEventTime = (event, field = 'starts_at') =>
+  formatInEventZone(event, event[field], { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * e.g. "April 15"
+ * @param {TulipEvent} event
+ * @param {'registration_opens_at' | 'registration_closes_at' | 't_shirt_deadline'} field
+ */
+export const formatEventDeadline = (event, field) =>
+  formatInEventZone(event, event[field], { month: 'long', day: 'numeric' });
+
+/**
+ * Used by the registration form and, through checkEventOpen, by the server
+ * before taking a registration or payment.
+ * @param {TulipEvent} event
+ * @param {Date} [at]
+ * @returns {'not_open' | 'open' | 'closed'}
+ */
+export const getRegistrationStatus = (event, at = new Date()) => {
+  if (event.registration_opens_at && at < new Date(event.registration_opens_at)) return 'not_open';
+  if (at >= new Date(event.registration_closes_at || event.starts_at)) return 'closed';
+  return 'open';
+};
+
+/**
+ * Loads the event the public site is promoting, or null when none is active.
+ * @param {import('@supabase/supabase-js').SupabaseClient} client
+ * @returns {Promise<TulipEvent | null>}
+ */
+export const loadActiveEvent = async (client) => {
+  const { data, error } = await client
+    .from('events')
+    .select('*')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading active event:', error);
+    return null;
+  }
+
+  return data;
+};
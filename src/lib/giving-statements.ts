@@ -0,0 +1,31 @@
+import { apiDownload, apiRequest } from '@/lib/api';
+
+export type GivingStatementSummary = {
+  email: string;
+  name: string;
+  donationCount: number;
+  total: number;
+  // When this year's statement was last emailed, if ever
+  sentAt: string | null;
+};
+
+export type SendGivingStatementsResult = {
+  year: number;
+  sent: string[];
+  // Donors who already had this year's statement
+  skipped: string[];
+  failed: { email: string; error: string }[];
+};
+
+export const fetchGivingStatements = (year: number) =>
+  apiRequest<{ year: number; statements: GivingStatementSummary[] }>(`/admin/giving-statements?year=${year}`);
+
+// Emails year-end statements to the given donors, or to everyone who gave that year
+export const sendGivingStatements = (year: number, options: { emails?: string[]; resend?: boolean } = {}) =>
+  apiRequest<SendGivingStatementsResult>('/admin/giving-statements/send', { body: { year, ...options } });
+
+export const downloadGivingStatement = (year: number, email: string) =>
+  apiDownload(
+    `/admin/giving-statements/${year}/statement.pdf?email=${encodeURIComponent(email)}`,
+    `TKF-giving-statement-${year}-${email}.pdf`
+  );
@@ -0,0 +1,63 @@
+// The fields a CSV import can fill for each kind of record, offered by the admin
+// import wizard and converted and validated by the server. Keys match the form
+// schemas in api/lib/donations.js and api/lib/registrations.js, plus the date
+// the gift or registration was made.
+
+/**
+ * @typedef {'donation' | 'registration'} ImportEntityType
+ *
+ * @typedef {Object} ImportField
+ * @property {string} key
+ * @property {string} label
+ * @property {'string' | 'number' | 'boolean' | 'date'} type - how the CSV text is converted
+ * @property {boolean} required
+ * @property {string[]} aliases - lowercase column headers the wizard maps to this field automatically
+ */
+
+// Every row is sent to the server and inserted in one request, so larger files need splitting
+export const MAX_IMPORT_ROWS = 5000;
+
+/** @type {Record<ImportEntityType, ImportField[]>} */
+export const IMPORT_FIELDS = {
+  donation: [
+    { key: 'firstName', label: 'First name', type: 'string', required: true, aliases: ['first name', 'first', 'firstname', 'given name'] },
+    { key: 'lastName', label: 'Last name', type: 'string', required: true, aliases: ['last name', 'last', 'lastname', 'surname', 'family name'] },
+    { key: 'email', label: 'Email', type: 'string', required: true, aliases: ['email', 'email address', 'e-mail'] },
+    { key: 'amount', label: 'Amount', type: 'number', required: true, aliases: ['amount', 'gift amount', 'donation amount', 'total'] },
+    { key: 'date', label: 'Date', type: 'date', required: true, aliases: ['date', 'gift date', 'donation date', 'received'] },
+    { key: 'designation', label: 'Designation', type: 'string', required: false, aliases: ['designation', 'fund', 'campaign'] },
+    { key: 'isAnonymous', label: 'Anonymous', type: 'boolean', required: false, aliases: ['anonymous', 'is anonymous'] },
+    { key: 'donationType', label: 'Type', type: 'string', required: false, aliases: ['type', 'donation type', 'method', 'payment method'] },
+  ],
+  registration: [
+    { key: 'name', label: 'Name', type: 'string', required: true, aliases: ['name', 'family name', 'parent name', 'full name'] },
+    { key: 'email', label: 'Email', type: 'string', required: true, aliases: ['email', 'email address', 'e-mail'] },
+    { key: 'phone', label: 'Phone', type: 'string', required: true, aliases: ['phone', 'phone number', 'mobile', 'cell'] },
+    { key: 'adultCount', label: 'Adults', type: 'number', required: true, aliases: ['adults', 'adult count', 'number of adults'] },
+    { key: 'kidsCount', label: 'Kids', type: 'number', required: true, aliases: ['kids', 'children', 'kids count', 'number of kids'] },
+    { key: 'totalAmount', label: 'Amount paid', type: 'number', required: true, aliases: ['amount', 'total', 'total amount', 'amount paid', 'paid'] },
+    { key: 'date', label: 'Date', type: 'date', required: true, aliases: ['date', 'registration date', 'registered'] },
+    { key: 'isTulipParent', label: 'Tulip parent', type: 'boolean', required: false, aliases: ['tulip parent', 'is tulip parent'] },
+  ],
+};
+
+/**
+ * Picks the field each CSV column most likely holds, by header name.
+ * @param {ImportEntityType} entityType
+ * @param {string[]} headers
+ * @returns {Record<string, number>} field key to column index, for the columns that were recognized
+ */
+export const guessColumnMapping = (entityType, headers) => {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  /** @type {Record<string, number>} */
+  const mapping = {};
+
+  for (const field of IMPORT_FIELDS[entityType]) {
+    const index = normalized.findIndex((header) => field.aliases.includes(header));
+    if (index !== -1 && !Object.values(mapping).includes(index)) {
+      mapping[field.key] = index;
+    }
+  }
+
+  return mapping;
+};
@@ -0,0 +1,37 @@
+import { apiRequest } from '@/lib/api';
+import type { ImportEntityType } from '@/lib/import-fields';
+
+export type ImportRequest = {
+  entityType: ImportEntityType;
+  fileName: string;
+  // Registrations only: the event every imported registration belongs to
+  eventId?: string;
+  // Each row's CSV text, keyed by the field its column was mapped to
+  rows: Record<string, string>[];
+};
+
+export type ImportRowResult = {
+  // Numbered from 1, not counting the header
+  row: number;
+  status: 'valid' | 'invalid' | 'duplicate';
+  errors?: Record<string, string[]>;
+  duplicateOf?: 'existing' | 'file';
+};
+
+export type ImportResult = {
+  importId: string;
+  imported: number;
+  skipped: number;
+};
+
+// Validates every row on the server without saving anything
+export const previewImport = (request: ImportRequest) =>
+  apiRequest<{ rows: ImportRowResult[] }>('/admin/imports/preview', { body: request });
+
+// Saves the valid rows in one batch; invalid and duplicate rows are skipped
+export const importRecords = (request: ImportRequest) =>
+  apiRequest<ImportResult>('/admin/imports', { body: request });
+
+// Deletes everything an import added
+export const undoImport = (importId: string) =>
+  apiRequest<{ undone: number }>(`/admin/imports/${importId}/undo`, { method: 'POST' });
@@ -0,0 +1,61 @@
+// Employers with matching-gift programs, suggested by DonationForm and used by
+// the Stripe webhook to work out how much match to expect. Ratios are what each
+// program offered when it was added here; check the company's portal before
+// submitting.
+
+/**
+ * @typedef {'eligible' | 'submitted' | 'received'} MatchingGiftStatus
+ *
+ * @typedef {Object} MatchingEmployer
+ * @property {string} name
+ * @property {number} ratio - dollars matched per dollar given
+ */
+
+/** @type {MatchingGiftStatus[]} */
+export const MATCHING_GIFT_STATUSES = ['eligible', 'submitted', 'received'];
+
+// Employers that aren't listed are assumed to match dollar for dollar
+export const DEFAULT_MATCH_RATIO = 1;
+
+/** @type {MatchingEmployer[]} */
+export const MATCHING_EMPLOYERS = [
+  { name: 'Adobe', ratio: 1 },
+  { name: 'AMD', ratio: 1 },
+  { name: 'Apple', ratio: 1 },
+  { name: 'Applied Materials', ratio: 1 },
+  { name: 'Cisco', ratio: 1 },
+  { name: 'eBay', ratio: 1 },
+  { name: 'Google', ratio: 1 },
+  { name: 'Intel', ratio: 1 },
+  { name: 'Intuit', ratio: 1 },
+  { name: 'Juniper Networks', ratio: 1 },
+  { name: 'KLA', ratio: 1 },
+  { name: 'Lam Research', ratio: 1 },
+  { name: 'LinkedIn', ratio: 1 },
+  { name: 'Meta', ratio: 1 },
+  { name: 'Microsoft', ratio: 1 },
+  { name: 'NetApp', ratio: 1 },
+  { name: 'NVIDIA', ratio: 1 },
+  { name: 'Oracle', ratio: 1 },
+  { name: 'PayPal', ratio: 1 },
+  { name: 'Salesforce', ratio: 1 },
+  { name: 'ServiceNow', ratio: 1 },
+  { name: 'Western Digital', ratio: 1 },
+];
+
+const normalize = (name) => name.trim().toLowerCase();
+
+/**
+ * @param {string | null | undefined} name
+ * @returns {MatchingEmployer | null} the listed employer, ignoring case
+ */
+export const findEmployer = (name) =>
+  (name && MATCHING_EMPLOYERS.find((employer) => normalize(employer.name) === normalize(name))) || null;
+
+/**
+ * @param {number} amount - the gift in dollars
+ * @param {string} employerName
+ * @returns {number} the match to expect from the employer, in dollars
+ */
+export const expectedMatch = (amount, employerName) =>
+  Math.round(amount * (findEmployer(employerName)?.ratio ?? DEFAULT_MATCH_RATIO) * 100) / 100;
@@ -0,0 +1,31 @@
+// Gifts received outside Stripe and recorded by hand from the admin dashboard.
+// Each method is stored as its own donation_type, next to the 'Website
+// Donation' and 'Recurring' types the Stripe webhook writes.
+
+/** @typedef {'check' | 'cash' | 'stock' | 'in_kind'} OfflineDonationMethod */
+
+/** @type {Record<OfflineDonationMethod, string>} */
+export const OFFLINE_DONATION_TYPES = {
+  check: 'Check',
+  cash: 'Cash',
+  stock: 'Stock',
+  in_kind: 'In-Kind',
+};
+
+// Gifts of property rather than money: they are described, and amount is their fair-market value
+/** @type {OfflineDonationMethod[]} */
+export const NONCASH_METHODS = ['stock', 'in_kind'];
+
+/**
+ * @param {{ donation_type: string }} donation
+ * @returns {boolean} whether the donation was recorded by hand rather than paid through Stripe
+ */
+export const isOfflineDonation = (donation) =>
+  Object.values(OFFLINE_DONATION_TYPES).includes(donation.donation_type);
+
+/**
+ * @param {{ donation_type: string }} donation
+ * @returns {boolean} whether the donation was stock or goods rather than money
+ */
+export const isNoncashDonation = (donation) =>
+  NONCASH_METHODS.some((method) => OFFLINE_DONATION_TYPES[method] === donation.donation_type);
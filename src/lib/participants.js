@@ -0,0 +1,82 @@
+// Shared rules for the people on a Tulip Trot registration, checked by
+// RegistrationForm and again by the server.
+
+/**
+ * @typedef {'adult' | 'child'} ParticipantType
+ *
+ * @typedef {Object} ParticipantDetails
+ * @property {ParticipantType} type
+ * @property {string} name
+ * @property {number | null} age - required for children, optional for adults
+ * @property {string} tShirtSize
+ *
+ * @typedef {Object} EmergencyContact
+ * @property {string} name
+ * @property {string} phone
+ *
+ * @typedef {Object} Participant - a row of the `participants` table
+ * @property {string} id
+ * @property {string} registration_id
+ * @property {ParticipantType} participant_type
+ * @property {number} position - order within the registration, adults first
+ * @property {string} name
+ * @property {number | null} age
+ * @property {string} t_shirt_size
+ * @property {string} emergency_contact_name
+ * @property {string} emergency_contact_phone
+ * @property {string} created_at
+ */
+
+export const T_SHIRT_SIZES = ['XS', 'S', 'M', 'L', 'XL', 'XXL'];
+
+// Kids are registered from above 4 years old
+export const CHILD_MIN_AGE = 5;
+export const CHILD_MAX_AGE = 17;
+
+const DEFAULT_T_SHIRT_SIZE = 'M';
+
+/**
+ * Grows or shrinks the participant list to match the chosen counts, keeping
+ * whatever was already entered for the people that remain. Adults come first.
+ * @param {ParticipantDetails[]} participants
+ * @param {number} adultCount
+ * @param {number} kidsCount
+ * @returns {ParticipantDetails[]}
+ */
+export const resizeParticipants = (participants, adultCount, kidsCount) => {
+  const ofType = (type, count) => {
+    const existing = participants.filter((p) => p.type === type);
+    return Array.from({ length: count }, (_, index) =>
+      existing[index] || { type, name: '', age: null, tShirtSize: DEFAULT_T_SHIRT_SIZE });
+  };
+
+  return [...ofType('adult', adultCount), ...ofType('child', kidsCount)];
+};
+
+/**
+ * @param {ParticipantDetails} participant
+ * @returns {{ name?: string, age?: string, tShirtSize?: string }} messages keyed by field; empty when valid
+ */
+export const validateParticipant = (participant) => {
+  /** @type {{ name?: string, age?: string, tShirtSize?: string }} */
+  const errors = {};
+
+  if (!participant.name || participant.name.trim().length < 2) {
+    errors.name = 'Please enter a name.';
+  }
+
+  if (participant.type === 'child') {
+    if (participant.age == null || participant.age < CHILD_MIN_AGE || participant.age > CHILD_MAX_AGE) {
+      errors.age = `Kids must be ${CHILD_MIN_AGE}–${CHILD_MAX_AGE} years old.`;
+    }
+  } else if (participant.age != null && (participant.age < 1 || participant.age > 120)) {
+    errors.age = 'Please enter a valid age.';
+  }
+
+  if (!T_SHIRT_SIZES.includes(participant.tShirtSize)) {
+    errors.tShirtSize = 'Please choose a t-shirt size.';
+  }
+
+  return errors;
+};
+
@@ -0,0 +1,50 @@
+// What each admin role may do. The server enforces it and the admin pages use
+// it to hide actions. The RLS policies in supabase-policy.sql enforce the same
+// split for direct database writes.
+
+/** @typedef {'owner' | 'finance' | 'event_staff' | 'volunteer_coordinator' | 'read_only'} AdminRole */
+
+/** @type {AdminRole[]} */
+export const ADMIN_ROLES = ['owner', 'finance', 'event_staff', 'volunteer_coordinator', 'read_only'];
+
+/** @type {Record<AdminRole, string>} */
+export const ADMIN_ROLE_LABELS = {
+  owner: 'Owner',
+  finance: 'Finance',
+  event_staff: 'Event staff',
+  volunteer_coordinator: 'Volunteer coordinator',
+  read_only: 'Read-only',
+};
+
+// Every role can view registrations and donations; these are the actions on top
+const PERMISSIONS = {
+  // Marking registrations paid or pending by hand
+  'registrations.update_payment': ['owner', 'finance'],
+  // Sending a waitlisted family a payment link
+  'registrations.promote': ['owner', 'finance', 'event_staff'],
+  'registrations.check_in': ['owner', 'event_staff', 'volunteer_coordinator'],
+  'donations.update_status': ['owner', 'finance'],
+  'donations.send_certificate': ['owner', 'finance'],
+  // Recording checks, cash, stock and in-kind gifts received outside Stripe
+  'donations.record': ['owner', 'finance'],
+  // Full or partial Stripe refunds of registrations and donations
+  'payments.refund': ['owner', 'finance'],
+  // Comparing what Stripe settled with what registrations and donations record
+  'payments.reconcile': ['owner', 'finance'],
+  // CSV exports include contact details, so they are limited to the same roles
+  'data.export': ['owner', 'finance'],
+  // Bulk CSV imports of historical donations and registrations, and undoing them
+  'data.import': ['owner', 'finance'],
+  // Merging duplicate contacts moves their giving and registration history
+  'contacts.merge': ['owner', 'finance'],
+};
+
+/** @typedef {keyof typeof PERMISSIONS} AdminPermission */
+
+/**
+ * @param {AdminRole | null | undefined} role
+ * @param {AdminPermission} permission
+ * @returns {boolean}
+ */
+export const hasPermission = (role, permission) =>
+  Boolean(role && PERMISSIONS[permission]?.includes(role));
@@ -0,0 +1,200 @@
+// Shared Tulip Trot pricing engine: the server charges exactly what
+// RegistrationForm and PaymentSummary show. Rules come from the Supabase
+// `pricing_rules` table.
+
+/**
+ * @typedef {'per_person' | 'family_bundle' | 'early_bird' | 'tulip_parent_discount' | 'cap'} PricingRuleType
+ *
+ * @typedef {Object} PricingRule
+ * @property {string} id
+ * @property {string | null} event_id - null for rules that apply to every event
+ * @property {string} name
+ * @property {PricingRuleType} rule_type
+ * @property {'adult' | 'child' | null} participant_type - per_person rules only
+ * @property {number | null} amount - unit price, bundle price, flat discount or cap, in dollars
+ * @property {number | null} percent_off - discounts only, used instead of amount when set
+ * @property {number | null} min_adults - family_bundle rules only
+ * @property {number | null} max_adults
+ * @property {number | null} min_kids
+ * @property {number | null} max_kids
+ * @property {string | null} starts_at - rule applies from this time (inclusive)
+ * @property {string | null} ends_at - rule applies until this time (exclusive)
+ * @property {number} priority - higher wins between competing prices, and discounts apply in this order
+ * @property {boolean} active
+ *
+ * @typedef {Object} PriceAdjustment
+ * @property {string} label
+ * @property {number} amount - dollars; negative for discounts
+ *
+ * @typedef {Object} PriceQuote
+ * @property {string} familyCategory
+ * @property {number} adultPrice
+ * @property {number} kidPrice
+ * @property {PriceAdjustment[]} lineItems - per-person charges, or the family bundle that replaced them
+ * @property {number} subtotal
+ * @property {PriceAdjustment[]} discounts - early-bird, Tulip-parent and cap reductions
+ * @property {number} total
+ */
+
+export const DEFAULT_ADULT_PRICE = 20;
+export const DEFAULT_KID_PRICE = 20;
+
+const roundToCents = (value) => Math.round(value * 100) / 100;
+
+/**
+ * @param {PricingRule} rule
+ * @param {Date} at
+ */
+const isRuleInEffect = (rule, at) => {
+  if (!rule.active) return false;
+  if (rule.starts_at && at < new Date(rule.starts_at)) return false;
+  if (rule.ends_at && at >= new Date(rule.ends_at)) return false;
+  return true;
+};
+
+const byPriority = (a, b) => (b.priority || 0) - (a.priority || 0);
+
+const withinRange = (value, min, max) =>
+  (min == null || value >= min) && (max == null || value <= max);
+
+/**
+ * Names the family for display and reporting.
+ * @param {number} adultCount
+ * @param {number} kidsCount
+ */
+export const determineFamilyCategory = (adultCount, kidsCount) => {
+  if (adultCount >= 1) {
+    if (kidsCount === 0) {
+      return 'One Family, No Kids';
+    } else if (kidsCount === 2) {
+      return 'One Family, Two Kids';
+    } else if (kidsCount > 2) {
+      return 'One Family, Multiple Kids';
+    } else {
+      return 'One Family, One Kid';
+    }
+  }
+  return 'Custom Case';
+};
+
+/**
+ * @param {PricingRule} rule
+ * @param {number} base
+ */
+const discountAmount = (rule, base) => {
+  if (rule.percent_off != null) {
+    return roundToCents((base * rule.percent_off) / 100);
+  }
+  return rule.amount || 0;
+};
+
+/**
+ * Prices a registration. Per-person prices come from the highest-priority
+ * per_person rule (falling back to the defaults), a matching family bundle
+ * replaces them when it is cheaper, then discounts apply in priority order
+ * and the lowest cap limits the total.
+ * @param {PricingRule[]} rules
+ * @param {{ adultCount: number, kidsCount: number, isTulipParent?: boolean, at?: Date }} registration
+ * @returns {PriceQuote}
+ */
+export const calculateRegistrationPrice = (rules, { adultCount, kidsCount, isTulipParent = false, at = new Date() }) => {
+  const inEffect = (rules || []).filter((rule) => isRuleInEffect(rule, at)).sort(byPriority);
+  const ofType = (type) => inEffect.filter((rule) => rule.rule_type === type);
+
+  const unitPrice = (participantType, fallback) => {
+    const rule = ofType('per_person').find((r) => r.participant_type === participantType);
+    return rule?.amount ?? fallback;
+  };
+
+  const adultPrice = unitPrice('adult', DEFAULT_ADULT_PRICE);
+  const kidPrice = unitPrice('child', DEFAULT_KID_PRICE);
+
+  /** @type {PriceAdjustment[]} */
+  let lineItems = [];
+  if (adultCount > 0) {
+    lineItems.push({
+      label: `${adultCount} Adult${adultCount > 1 ? 's' : ''} × $${adultPrice} each`,
+      amount: roundToCents(adultCount * adultPrice),
+    });
+  }
+  if (kidsCount > 0) {
+    lineItems.push({
+      label: `${kidsCount} Kid${kidsCount > 1 ? 's' : ''} × $${kidPrice} each`,
+      amount: roundToCents(kidsCount * kidPrice),
+    });
+  }
+
+  let subtotal = roundToCents(lineItems.reduce((sum, item) => sum + item.amount, 0));
+
+  const bundle = ofType('family_bundle')
+    .filter((rule) =>
+      withinRange(adultCount, rule.min_adults, rule.max_adults) &&
+      withinRange(kidsCount, rule.min_kids, rule.max_kids))
+    .sort((a, b) => (a.amount ?? Infinity) - (b.amount ?? Infinity))[0];
+
+  if (bundle && bundle.amount != null && bundle.amount < subtotal) {
+    lineItems = [{ label: bundle.name, amount: bundle.amount }];
+    subtotal = bundle.amount;
+  }
+
+  /** @type {PriceAdjustment[]} */
+  const discounts = [];
+  let total = subtotal;
+
+  const applicableDiscounts = inEffect.filter((rule) =>
+    rule.rule_type === 'early_bird' ||
+    (rule.rule_type === 'tulip_parent_discount' && isTulipParent));
+
+  for (const rule of applicableDiscounts) {
+    const amount = Math.min(total, discountAmount(rule, subtotal));
+    if (amount > 0) {
+      discounts.push({ label: rule.name, amount: -amount });
+      total = roundToCents(total - amount);
+    }
+  }
+
+  const cap = ofType('cap')
+    .filter((rule) => rule.amount != null)
+    .sort((a, b) => a.amount - b.amount)[0];
+
+  if (cap && total > cap.amount) {
+    discounts.push({ label: cap.name, amount: roundToCents(cap.amount - total) });
+    total = cap.amount;
+  }
+
+  return {
+    familyCategory: determineFamilyCategory(adultCount, kidsCount),
+    adultPrice,
+    kidPrice,
+    lineItems,
+    subtotal,
+    discounts,
+    total: roundToCents(total),
+  };
+};
+
+/**
+ * Loads active pricing rules for an event, plus the rules shared by every
+ * event, with any Supabase client (the anon client in the browser, the
+ * service-role client on the server). Throws if the table cannot be read, so
+ * the server never charges the default prices by mistake.
+ * @param {import('@supabase/supabase-js').SupabaseClient} client
+ * @param {string} [eventId]
+ * @returns {Promise<PricingRule[]>}
+ */
+export const loadPricingRules = async (client, eventId) => {
+  let query = client
+    .from('pricing_rules')
+    .select('*')
+    .eq('active', true);
+
+  query = eventId
+    ? query.or(`event_id.is.null,event_id.eq.${eventId}`)
+    : query.is('event_id', null);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return data || [];
+};
@@ -0,0 +1,28 @@
+// Card processing fees a donor or family can choose to cover. The server
+// charges exactly the fee the forms offer; it sets the rate and shares it
+// through GET /processing-fee-rate.
+
+/**
+ * @typedef {Object} ProcessingFeeRate
+ * @property {number} percent - percentage of the charge, e.g. 2.9
+ * @property {number} fixed - flat amount per charge, in dollars
+ */
+
+/** @type {ProcessingFeeRate} Stripe's standard US card rate */
+export const DEFAULT_PROCESSING_FEE_RATE = { percent: 2.9, fixed: 0.3 };
+
+/**
+ * What to add to `amount` so the foundation still receives all of `amount`
+ * once the fee is taken from the larger charge. Rounded up to the cent.
+ * @param {number} amount - dollars
+ * @param {ProcessingFeeRate} rate
+ * @returns {number} dollars
+ */
+export const calculateProcessingFee = (amount, rate) => {
+  if (!(amount > 0)) return 0;
+
+  const charge = (amount + rate.fixed) / (1 - rate.percent / 100);
+
+  // Rounded first so floating-point noise doesn't push a whole cent up
+  return Math.ceil(Math.round((charge - amount) * 10000) / 100) / 100;
+};
@@ -0,0 +1,38 @@
+import { apiRequest } from '@/lib/api';
+import type { TulipEvent } from '@/lib/events';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type RegistrationReceipt = Pick<
+  Tables<'registrations'>,
+  | 'id' | 'name' | 'email' | 'adult_count' | 'kids_count' | 'family_category'
+  | 'total_amount' | 'fee_covered_amount' | 'payment_status' | 'transaction_id' | 'created_at'
+> & {
+  events: TulipEvent | null;
+  participants: Pick<Tables<'participants'>, 'name' | 'participant_type' | 't_shirt_size' | 'position'>[];
+};
+
+export type DonationReceipt = Pick<
+  Tables<'donations'>,
+  | 'id' | 'first_name' | 'last_name' | 'email' | 'amount' | 'fee_covered_amount' | 'designation'
+  | 'is_anonymous' | 'tribute_type' | 'tribute_honoree_name' | 'payment_id' | 'status' | 'created_at'
+> & {
+  // Set when this is one payment of a monthly or annual gift
+  recurring_donations: Pick<Tables<'recurring_donations'>, 'interval'> | null;
+};
+
+export const fetchRegistrationReceipt = (registrationId: string, token: string) =>
+  apiRequest<{ registration: RegistrationReceipt; ticketCode: string | null }>(
+    `/receipts/registrations/${registrationId}?token=${encodeURIComponent(token)}`
+  );
+
+export const fetchDonationReceipt = (donationId: string, token: string) =>
+  apiRequest<{ donation: DonationReceipt }>(
+    `/receipts/donations/${donationId}?token=${encodeURIComponent(token)}`
+  );
+
+// Paths the forms navigate to once payment succeeds, and that emails link to
+export const registrationReceiptPath = (registrationId: string, token: string) =>
+  `/success/${registrationId}?token=${token}`;
+
+export const donationReceiptPath = (donationId: string, token: string) =>
+  `/donation-success/${donationId}?token=${token}`;
@@ -0,0 +1,41 @@
+import { apiRequest } from '@/lib/api';
+
+export type ReconciliationIssue =
+  // The record says it was paid, but Stripe has no successful payment behind it
+  | 'missing_payment'
+  | 'amount_mismatch'
+  // The record's status doesn't reflect Stripe's outcome or refunds
+  | 'status_mismatch'
+  // A registration or donation payment with no record pointing at it
+  | 'missing_record'
+  // A payment nothing says the purpose of, e.g. one charged from the Stripe dashboard
+  | 'orphan_payment';
+
+export type ReconciliationItem = {
+  kind: 'registration' | 'donation' | null;
+  recordId: string | null;
+  name: string | null;
+  email: string | null;
+  paymentId: string | null;
+  // When Stripe took the payment, or when the record was created if there is no payment
+  created: string;
+  // Including any processing fee the payer covered
+  recordAmount: number | null;
+  recordStatus: string | null;
+  stripeAmount: number | null;
+  stripeRefunded: number | null;
+  stripeStatus: string | null;
+  issue: ReconciliationIssue | null;
+};
+
+export type ReconciliationReport = {
+  from: string;
+  to: string;
+  // 'fixture' when the server reads sample payments instead of calling Stripe
+  source: 'stripe' | 'fixture';
+  items: ReconciliationItem[];
+};
+
+// `from` and `to` are inclusive yyyy-mm-dd dates in the foundation's time zone
+export const fetchReconciliation = (from: string, to: string) =>
+  apiRequest<ReconciliationReport>(`/admin/reconciliation?from=${from}&to=${to}`);
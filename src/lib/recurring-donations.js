@@ -0,0 +1,14 @@
+// Rules for recurring gifts shared by the donor portal and the Express server.
+
+// Stripe subscription statuses that are still billing, or can be again once
+// the card is fixed. Only these can be paused, resumed, cancelled or have
+// their card updated.
+/** @type {string[]} */
+export const MANAGEABLE_RECURRING_STATUSES = ['active', 'past_due', 'unpaid'];
+
+/**
+ * @param {{ status: string }} recurringDonation
+ * @returns {boolean}
+ */
+export const isManageable = (recurringDonation) =>
+  MANAGEABLE_RECURRING_STATUSES.includes(recurringDonation.status);
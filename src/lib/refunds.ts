@@ -0,0 +1,19 @@
+import { apiRequest } from '@/lib/api';
+
+export type RefundEntityType = 'registration' | 'donation';
+
+export type RefundResult = {
+  refundId: string;
+  amount: number;
+  status: 'refunded' | 'partially_refunded';
+  // False when the refund went through but the payer couldn't be emailed
+  emailSent: boolean;
+};
+
+// Refunds a Stripe payment in full, or `amount` dollars of it
+export const refundPayment = (request: {
+  entityType: RefundEntityType;
+  entityId: string;
+  amount?: number;
+  reason?: string;
+}) => apiRequest<RefundResult>('/admin/refunds', { body: request });
@@ -1,33 +1,86 @@
+import { apiRequest } from '@/lib/api';
+import type { EmergencyContact, ParticipantDetails } from '@/lib/participants';
+import type { ProcessingFeeRate } from '@/lib/processing-fees';
+import type { TributeType } from '@/lib/tributes';
 
-import Stripe from 'stripe';
-
-// Initialize Stripe with your secret key
-const stripe = new Stripe(import.meta.env.VITE_STRIPE_SECRET_KEY || '', {
-  apiVersion: '2025-02-24.acacia',
-});
-
-export const createPaymentIntent = async (amount: number, description?: string) => {
-  try {
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount,
-      currency: 'usd',
-      description: description || 'Donation to Tulip Kids Foundation',
-      // Add metadata for India export compliance
-      metadata: {
-        purpose_code: 'P1101', // Donations code
-        purpose_description: 'Charitable donation to non-profit organization',
-        beneficiary_name: 'Tulip Kids Foundation',
-        beneficiary_country: 'US'
-      },
-      automatic_payment_methods: {
-        enabled: true,
-      },
-    });
-
-    return paymentIntent.client_secret;
-  } catch (error) {
-    console.error('Error creating payment intent:', error);
-    throw error;
-  }
+// A gift made in honor or in memory of someone. The recipient, if given, is
+// emailed a card about the gift that leaves out the amount.
+export type TributeDetails = {
+  type: TributeType;
+  honoreeName: string;
+  recipientEmail?: string;
+  message?: string;
 };
 
+export type DonationPaymentDetails = {
+  type: 'donation';
+  firstName: string;
+  lastName: string;
+  email: string;
+  amount: number;
+  designation?: string;
+  isAnonymous?: boolean;
+  // The server adds the processing fee on top of amount
+  coverFees?: boolean;
+  tribute?: TributeDetails;
+  // Set when the donor's employer matches gifts
+  employerName?: string;
+};
+
+export type RegistrationPaymentDetails = {
+  type: 'registration';
+  eventId: string;
+  name: string;
+  email: string;
+  phone: string;
+  adultCount: number;
+  kidsCount: number;
+  isTulipParent?: boolean;
+  participants: ParticipantDetails[];
+  emergencyContact: EmergencyContact;
+  coverFees?: boolean;
+};
+
+export type PaymentDetails = DonationPaymentDetails | RegistrationPaymentDetails;
+
+export type PaymentIntentResponse = {
+  clientSecret: string;
+  // Only set for registrations, which are saved as pending before payment
+  registrationId?: string;
+  // Only set for donations; the webhook records the donation under this id
+  donationId?: string;
+  receiptToken?: string;
+};
+
+// The Express server computes the amount from these details and returns the client secret.
+// Registrations for a full event fail with an ApiError whose data has `waitlist: true`.
+export const createPaymentIntent = (details: PaymentDetails) =>
+  apiRequest<PaymentIntentResponse>('/payment-intents', { body: details });
+
+export type DonationInterval = 'month' | 'year';
+
+export type RecurringDonationDetails = Omit<DonationPaymentDetails, 'type'> & {
+  interval: DonationInterval;
+};
+
+export type RecurringDonationResponse = {
+  // Pays the subscription's first invoice, confirmed like any other PaymentIntent
+  clientSecret: string;
+  recurringDonationId: string;
+  // The webhook records the first payment under this id
+  donationId: string;
+  receiptToken: string;
+};
+
+// Creates a Stripe subscription for a monthly or annual gift
+export const createRecurringDonation = (details: RecurringDonationDetails) =>
+  apiRequest<RecurringDonationResponse>('/recurring-donations', { body: details });
+
+// The rate the server charges when a donor or family covers processing fees
+export const fetchProcessingFeeRate = () => apiRequest<ProcessingFeeRate>('/processing-fee-rate');
+
+// Asks the server to verify the PaymentIntent with Stripe and mark the registration paid
+export const confirmRegistrationPayment = (registrationId: string, paymentIntentId: string) =>
+  apiRequest<{ paymentStatus: string; transactionId: string; receiptToken: string }>(`/registrations/${registrationId}/confirm`, {
+    body: { paymentIntentId },
+  });
@@ -0,0 +1,19 @@
+import { apiDownload, apiRequest } from '@/lib/api';
+
+// Receipt numbers as printed on the PDF; matches formatReceiptNumber on the server
+export const formatReceiptNumber = (receiptNumber: number) => `TKF-${String(receiptNumber).padStart(6, '0')}`;
+
+// Matches RECEIPTABLE_STATUSES on the server: partially refunded gifts are receipted for what was kept
+export const isReceiptable = (donation: { status: string }) =>
+  donation.status === 'completed' || donation.status === 'partially_refunded';
+
+// The deductible total: the gift plus any processing fees covered, less refunds
+export const donationTotal = (donation: { amount: number; fee_covered_amount: number; refunded_amount: number }) =>
+  Number(donation.amount) + Number(donation.fee_covered_amount) - Number(donation.refunded_amount);
+
+// Emails the donor their PDF tax receipt (again, if one was already sent)
+export const sendDonationReceipt = (donationId: string) =>
+  apiRequest<{ sentAt: string }>(`/admin/donations/${donationId}/receipt`, { method: 'POST' });
+
+export const downloadDonationReceipt = (donation: { id: string; receipt_number: number }) =>
+  apiDownload(`/admin/donations/${donation.id}/receipt.pdf`, `${formatReceiptNumber(donation.receipt_number)}.pdf`);
@@ -0,0 +1,18 @@
+import { apiRequest } from '@/lib/api';
+
+export type TributeType = 'honor' | 'memory';
+
+export const TRIBUTE_LABELS: Record<TributeType, string> = {
+  honor: 'In honor of',
+  memory: 'In memory of',
+};
+
+// e.g. "In memory of Rose Nguyen"; matches describeTribute on the server
+export const describeTribute = (donation: { tribute_type: string | null; tribute_honoree_name: string | null }) =>
+  donation.tribute_type && donation.tribute_honoree_name
+    ? `${TRIBUTE_LABELS[donation.tribute_type as TributeType]} ${donation.tribute_honoree_name}`
+    : null;
+
+// Emails the tribute card to its recipient (again, if one was already sent)
+export const sendTributeCard = (donationId: string) =>
+  apiRequest<{ sentAt: string }>(`/admin/donations/${donationId}/tribute-card`, { method: 'POST' });
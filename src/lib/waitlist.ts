@@ -0,0 +1,24 @@
+import { apiRequest } from '@/lib/api';
+import type { RegistrationPaymentDetails } from '@/lib/stripe';
+
+export type EventAvailability = {
+  capacity: number | null;
+  // null when the event has no capacity limit
+  remaining: number | null;
+  isFull: boolean;
+};
+
+export type WaitlistDetails = Omit<RegistrationPaymentDetails, 'type' | 'coverFees'>;
+
+export const fetchEventAvailability = (eventId: string) =>
+  apiRequest<EventAvailability>(`/events/${eventId}/availability`);
+
+export const joinWaitlist = (details: WaitlistDetails) =>
+  apiRequest<{ registrationId: string }>('/waitlist', { body: details });
+
+// Moves a waitlisted family to pending and emails them a Stripe Checkout link
+export const promoteRegistration = (registrationId: string) =>
+  apiRequest<{ paymentUrl: string; expiresAt: string; emailSent: boolean }>(
+    `/admin/registrations/${registrationId}/promote`,
+    { method: 'POST' }
+  );
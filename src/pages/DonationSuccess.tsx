@@ -1,16 +1,32 @@
 import React from "react";
-import { useLocation, Link } from "react-router-dom";
+import { Link, useParams, useSearchParams } from "react-router-dom";
 import { motion } from "framer-motion";
-import { CheckCircle, Download, Heart } from "lucide-react";
+import { CheckCircle, Download, Heart, Loader2 } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import { Button } from "@/components/ui/button";
+import { useDonationReceipt } from "@/hooks/use-receipt";
+import { describeTribute } from "@/lib/tributes";
 
 const DonationSuccess = () => {
-  const location = useLocation();
-  const { donationData, transactionId } = location.state || {};
+  const { donationId } = useParams();
+  const [searchParams] = useSearchParams();
+  const { data, isLoading } = useDonationReceipt(donationId, searchParams.get("token"));
 
-  if (!donationData) {
+  if (isLoading) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-gray-50 p-4">
+          <Loader2 className="h-8 w-8 animate-spin text-tulip" />
+          <p className="text-gray-600">Recording your donation…</p>
+        </div>
+        <Footer />
+      </>
+    );
+  }
+
+  if (!data) {
     return (
       <>
         <Header />
@@ -18,7 +34,8 @@ const DonationSuccess = () => {
           <div className="text-center">
             <h1 className="text-2xl font-bold text-gray-800 mb-4">Page Not Found</h1>
             <p className="text-gray-600 mb-6">
-              The donation information could not be found. Please return to the home page.
+              The donation information could not be found. Please use the link from your
+              receipt email, or contact us if you need help.
             </p>
             <Link to="/">
               <Button>Return to Home</Button>
@@ -30,6 +47,8 @@ const DonationSuccess = () => {
     );
   }
 
+  const { donation } = data;
+
   return (
     <>
       <Header />
@@ -56,19 +75,46 @@ const DonationSuccess = () => {
               <div className="space-y-3">
                 <div className="flex justify-between">
                   <span className="text-gray-600">Name:</span>
-                  <span className="font-medium">{donationData.isAnonymous ? "Anonymous" : donationData.name}</span>
+                  <span className="font-medium">{donation.is_anonymous ? "Anonymous" : `${donation.first_name} ${donation.last_name}`}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Amount:</span>
-                  <span className="font-medium">${donationData.amount.toFixed(2)}</span>
+                  <span className="font-medium">
+                    ${Number(donation.amount).toFixed(2)}
+                    {donation.recurring_donations && ` every ${donation.recurring_donations.interval}`}
+                  </span>
                 </div>
+                {Number(donation.fee_covered_amount) > 0 && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Processing Fees Covered:</span>
+                      <span className="font-medium">${Number(donation.fee_covered_amount).toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Total Charged:</span>
+                      <span className="font-medium">
+                        ${(Number(donation.amount) + Number(donation.fee_covered_amount)).toFixed(2)}
+                      </span>
+                    </div>
+                  </>
+                )}
                 <div className="flex justify-between">
                   <span className="text-gray-600">Designation:</span>
-                  <span className="font-medium">{donationData.designation}</span>
+                  <span className="font-medium">{donation.designation}</span>
+                </div>
+                {describeTribute(donation) && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Tribute:</span>
+                    <span className="font-medium">{describeTribute(donation)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Date:</span>
+                  <span className="font-medium">{new Date(donation.created_at).toLocaleDateString()}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Transaction ID:</span>
-                  <span className="font-medium text-sm">{transactionId}</span>
+                  <span className="font-medium text-sm">{donation.payment_id}</span>
                 </div>
               </div>
             </div>
@@ -85,7 +131,7 @@ const DonationSuccess = () => {
                     and vital support to children in our community.
                   </p>
                   <p className="text-gray-600">
-                    A tax receipt has been sent to your email address.
+                    Once your payment is confirmed, we'll email your tax receipt to you as a PDF.
                   </p>
                 </div>
               </div>
@@ -0,0 +1,388 @@
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import { CreditCard, FileText, Heart, Loader2, LogOut, Mail, Pause, Play, X } from "lucide-react";
+import { toast } from "sonner";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import StatusBadge from "@/components/StatusBadge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { useDonorGiving, useDonorSession } from "@/hooks/use-donor-giving";
+import {
+  createBillingSession,
+  downloadDonorReceipt,
+  requestDonorSignInLink,
+  updateRecurringDonation,
+  type DonorDonation,
+  type DonorRecurringDonation,
+  type RecurringDonationAction,
+} from "@/lib/donor-portal";
+import { isManageable } from "@/lib/recurring-donations";
+import { donationTotal, isReceiptable } from "@/lib/tax-receipts";
+
+const INTERVAL_LABELS: Record<string, string> = { month: "Monthly", year: "Annual" };
+
+const ACTION_MESSAGES: Record<RecurringDonationAction, string> = {
+  pause: "Your recurring gift is paused",
+  resume: "Your recurring gift has resumed",
+  cancel: "Your recurring gift has been cancelled",
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+const SignInForm = () => {
+  const [email, setEmail] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+
+    try {
+      await requestDonorSignInLink(email.trim());
+      setSentTo(email.trim());
+    } catch (error) {
+      console.error("Error requesting sign-in link:", error);
+      toast.error("Failed to send sign-in link", {
+        description: error instanceof Error ? error.message : "Please try again or contact support",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <div className="text-center space-y-3">
+        <Mail className="h-10 w-10 text-tulip mx-auto" />
+        <h2 className="text-xl font-semibold text-primary">Check your email</h2>
+        <p className="text-gray-600">
+          If {sentTo} has given to Tulip Kids Foundation, we've sent it a sign-in link.
+          The link works once and expires in an hour.
+        </p>
+        <Button variant="outline" onClick={() => setSentTo(null)}>
+          Use a different email
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-gray-600">
+        Enter the email address you donate with and we'll send you a link to sign in. No password needed.
+      </p>
+      <div>
+        <Label htmlFor="email">Email Address</Label>
+        <Input
+          id="email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+      </div>
+      <Button type="submit" className="w-full bg-tulip hover:bg-tulip-dark text-white" disabled={isSending}>
+        {isSending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Email Me a Sign-In Link
+      </Button>
+    </form>
+  );
+};
+
+type RecurringGiftProps = {
+  gift: DonorRecurringDonation;
+  onChanged: () => void;
+};
+
+const RecurringGift = ({ gift, onChanged }: RecurringGiftProps) => {
+  const [pendingAction, setPendingAction] = useState<RecurringDonationAction | "card" | null>(null);
+  const [confirmCancel, setConfirmCancel] = useState(false);
+  const manageable = isManageable(gift);
+
+  const handleAction = async (action: RecurringDonationAction) => {
+    try {
+      setPendingAction(action);
+      await updateRecurringDonation(gift.id, action);
+      toast.success(ACTION_MESSAGES[action]);
+      onChanged();
+    } catch (error) {
+      console.error(`Error trying to ${action} recurring donation:`, error);
+      toast.error("Something went wrong", {
+        description: error instanceof Error ? error.message : "Please try again or contact support",
+      });
+    } finally {
+      setPendingAction(null);
+      setConfirmCancel(false);
+    }
+  };
+
+  const handleUpdateCard = async () => {
+    try {
+      setPendingAction("card");
+      const { url } = await createBillingSession(gift.id);
+      window.location.href = url;
+    } catch (error) {
+      console.error("Error opening card update page:", error);
+      toast.error("Failed to open card update page", {
+        description: error instanceof Error ? error.message : "Please try again or contact support",
+      });
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+      <div>
+        <div className="flex items-center gap-2 mb-1">
+          <span className="font-semibold text-primary">
+            ${Number(gift.amount).toFixed(2)} {INTERVAL_LABELS[gift.interval]?.toLowerCase() || gift.interval}
+            {Number(gift.fee_covered_amount) > 0 && (
+              <span className="text-xs font-normal text-gray-500 ml-1">
+                + ${Number(gift.fee_covered_amount).toFixed(2)} processing fees
+              </span>
+            )}
+          </span>
+          <StatusBadge status={gift.is_paused && manageable ? "paused" : gift.status} />
+        </div>
+        <p className="text-sm text-gray-600">{gift.designation}</p>
+        <p className="text-sm text-gray-500">
+          Started {formatDate(gift.created_at)}
+          {gift.canceled_at && ` · Cancelled ${formatDate(gift.canceled_at)}`}
+          {manageable && !gift.is_paused && gift.current_period_end && ` · Next payment ${formatDate(gift.current_period_end)}`}
+        </p>
+      </div>
+
+      {manageable && (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleUpdateCard} disabled={!!pendingAction}>
+            {pendingAction === "card"
+              ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+              : <CreditCard className="h-3.5 w-3.5 mr-1" />}
+            Update Card
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleAction(gift.is_paused ? "resume" : "pause")}
+            disabled={!!pendingAction}
+          >
+            {pendingAction === "pause" || pendingAction === "resume"
+              ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+              : gift.is_paused ? <Play className="h-3.5 w-3.5 mr-1" /> : <Pause className="h-3.5 w-3.5 mr-1" />}
+            {gift.is_paused ? "Resume" : "Pause"}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-red-600 hover:text-red-700"
+            onClick={() => setConfirmCancel(true)}
+            disabled={!!pendingAction}
+          >
+            <X className="h-3.5 w-3.5 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      <AlertDialog open={confirmCancel} onOpenChange={(open) => !pendingAction && setConfirmCancel(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this recurring gift?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You won't be charged again. Your past donations and receipts stay available here.
+              To give again later you'll need to start a new recurring gift.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={!!pendingAction}>Keep Giving</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={!!pendingAction}
+              onClick={(e) => {
+                e.preventDefault();
+                handleAction("cancel");
+              }}
+            >
+              {pendingAction === "cancel" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Cancel Gift
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+const DonationHistory = ({ donations }: { donations: DonorDonation[] }) => {
+  const handleDownload = async (donation: DonorDonation) => {
+    try {
+      await downloadDonorReceipt(donation);
+    } catch (error) {
+      console.error("Error downloading receipt:", error);
+      toast.error("Failed to download receipt", {
+        description: error instanceof Error ? error.message : "Please try again or contact support",
+      });
+    }
+  };
+
+  if (donations.length === 0) {
+    return <p className="text-gray-600">No donations yet.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Amount</TableHead>
+            <TableHead>Designation</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Receipt</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {donations.map((donation) => (
+            <TableRow key={donation.id}>
+              <TableCell>{formatDate(donation.created_at)}</TableCell>
+              <TableCell>
+                ${(Number(donation.amount) + Number(donation.fee_covered_amount)).toFixed(2)}
+                {Number(donation.refunded_amount) > 0 && (
+                  <span className="text-xs text-gray-500 ml-1">(${Number(donation.refunded_amount).toFixed(2)} refunded)</span>
+                )}
+                {Number(donation.fee_covered_amount) > 0 && (
+                  <span className="text-xs text-gray-500 ml-1">(incl. ${Number(donation.fee_covered_amount).toFixed(2)} fees)</span>
+                )}
+                {donation.recurring_donation_id && <span className="text-xs text-gray-500 ml-1">(recurring)</span>}
+              </TableCell>
+              <TableCell>{donation.designation}</TableCell>
+              <TableCell><StatusBadge status={donation.status} /></TableCell>
+              <TableCell className="text-right">
+                {isReceiptable(donation) && (
+                  <Button variant="outline" size="sm" onClick={() => handleDownload(donation)}>
+                    <FileText className="h-3.5 w-3.5 mr-1" />
+                    PDF
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+// Donor self-service: giving history, receipts and recurring gifts. Donors
+// sign in with a one-time link emailed to the address they give with.
+const MyGiving = () => {
+  const { session, isLoading: isSessionLoading } = useDonorSession();
+  const { data, isLoading, error, refetch } = useDonorGiving(session);
+
+  const handleSignOut = async () => {
+    const { error: signOutError } = await supabase.auth.signOut();
+
+    if (signOutError) {
+      toast.error("Failed to sign out", { description: signOutError.message });
+    }
+  };
+
+  const totalGiven = (data?.donations ?? [])
+    .filter(isReceiptable)
+    // Covered processing fees are part of the gift and refunds aren't, as on the year-end statement
+    .reduce((sum, donation) => sum + donationTotal(donation), 0);
+
+  const renderContent = () => {
+    if (isSessionLoading || (session && isLoading)) {
+      return (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-tulip" />
+        </div>
+      );
+    }
+
+    if (!session || !data) {
+      return (
+        <>
+          {session && error && (
+            <p className="text-red-600 mb-4">
+              {error instanceof Error ? error.message : "Failed to load your giving history"}
+            </p>
+          )}
+          <SignInForm />
+        </>
+      );
+    }
+
+    return (
+      <div className="space-y-8">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <p className="text-sm text-gray-500">Signed in as {data.email}</p>
+            <p className="text-lg font-semibold text-primary">
+              ${totalGiven.toFixed(2)} given across {data.donations.length} donation(s). Thank you!
+            </p>
+          </div>
+          <Button variant="outline" onClick={handleSignOut}>
+            <LogOut className="h-4 w-4 mr-2" /> Sign Out
+          </Button>
+        </div>
+
+        {data.recurringDonations.length > 0 && (
+          <section>
+            <h2 className="text-xl font-semibold text-primary mb-4">Recurring Gifts</h2>
+            <div className="space-y-3">
+              {data.recurringDonations.map((gift) => (
+                <RecurringGift key={gift.id} gift={gift} onChanged={() => refetch()} />
+              ))}
+            </div>
+          </section>
+        )}
+
+        <section>
+          <h2 className="text-xl font-semibold text-primary mb-4">Donation History</h2>
+          <DonationHistory donations={data.donations} />
+        </section>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <Header />
+      <div className="min-h-screen bg-gray-50 py-16">
+        <div className="container mx-auto px-4">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+            className="max-w-3xl mx-auto bg-white rounded-xl shadow-soft border border-gray-100 p-8"
+          >
+            <div className="flex items-center gap-3 mb-6">
+              <Heart className="h-7 w-7 text-tulip" />
+              <h1 className="text-3xl font-bold text-primary">My Giving</h1>
+            </div>
+            {renderContent()}
+          </motion.div>
+        </div>
+      </div>
+      <Footer />
+    </>
+  );
+};
+
+export default MyGiving;
@@ -1,38 +1,63 @@
 
-import React, { useEffect } from 'react';
-import { useLocation, useNavigate } from 'react-router-dom';
+import React from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { Check, Copy, Home, Calendar, MapPin, Clock } from 'lucide-react';
+import { Check, Copy, Home, Calendar, Loader2, MapPin, Clock } from 'lucide-react';
 import { toast } from 'sonner';
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
+import { formatEventDate, formatEventTime } from "@/lib/events";
+import { useRegistrationReceipt } from "@/hooks/use-receipt";
+import TicketQRCode from "@/components/TicketQRCode";
 
 const Success = () => {
-  const location = useLocation();
   const navigate = useNavigate();
-  const { registrationData, transactionId } = location.state || {};
+  const { registrationId } = useParams();
+  const [searchParams] = useSearchParams();
+  const { data, isLoading } = useRegistrationReceipt(registrationId, searchParams.get('token'));
 
-  // Handle both naming conventions for total amount
-  const totalAmount = registrationData?.totalAmount || registrationData?.total_amount || 0;
+  if (isLoading) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-tulip-muted">
+          <Loader2 className="h-8 w-8 animate-spin text-tulip" />
+        </div>
+        <Footer />
+      </>
+    );
+  }
 
-  useEffect(() => {
-    // If the page is accessed directly without data, redirect to home
-    if (!registrationData) {
-      console.log("No registration data found, redirecting to home");
-      navigate('/');
-      return;
-    }
-    
-    console.log("Success page loaded with data:", registrationData);
-    console.log("Transaction ID:", transactionId);
-  }, [registrationData, transactionId, navigate]);
-  
-  // Add this check to prevent rendering with undefined data
-  if (!registrationData || !totalAmount) {
-    return null; // Will redirect in the useEffect
+  if (!data) {
+    return (
+      <>
+        <Header />
+        <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-gray-800 mb-4">Receipt Not Found</h1>
+            <p className="text-gray-600 mb-6">
+              Please use the link from your confirmation email, or contact us if you need help.
+            </p>
+            <Link to="/">
+              <Button>Return to Home</Button>
+            </Link>
+          </div>
+        </div>
+        <Footer />
+      </>
+    );
   }
+
+  const { registration, ticketCode } = data;
+  const event = registration.events;
+  const transactionId = registration.transaction_id;
+  const feeCovered = Number(registration.fee_covered_amount);
+  const totalAmount = Number(registration.total_amount) + feeCovered;
+  const isPending = registration.payment_status === 'pending';
+  // Paid after the payment hold lapsed and the walk had filled up; the payment was refunded
+  const isWaitlisted = registration.payment_status === 'waitlisted';
   
   const copyTransactionId = () => {
     if (transactionId) {
@@ -69,9 +94,13 @@ const Success = () => {
                   <Check className="h-10 w-10 text-white" />
                 </motion.div>
                 
-                <h1 className="text-3xl font-bold mb-2">Payment Successful!</h1>
+                <h1 className="text-3xl font-bold mb-2">
+                  {isPending ? 'Confirming Your Payment…' : isWaitlisted ? "You're on the Waitlist" : 'Payment Successful!'}
+                </h1>
                 <p className="text-xl opacity-90">
-                  Thank you for your registration to the Tulip Trot
+                  {isWaitlisted
+                    ? `The ${event?.name || 'Tulip Trot'} filled up before your payment went through, so we've refunded it in full`
+                    : `Thank you for your registration to the ${event?.name || 'Tulip Trot'}`}
                 </p>
               </div>
               
@@ -84,29 +113,46 @@ const Success = () => {
                         <div className="space-y-2">
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">Name:</span>
-                            <span className="font-medium">{registrationData.name}</span>
+                            <span className="font-medium">{registration.name}</span>
                           </div>
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">Email:</span>
-                            <span className="font-medium">{registrationData.email}</span>
+                            <span className="font-medium">{registration.email}</span>
                           </div>
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">Participants:</span>
                             <span className="font-medium">
-                              {registrationData.adultCount} adults, {registrationData.kidsCount} kids
+                              {registration.adult_count} adults, {registration.kids_count} kids
                             </span>
                           </div>
+                          {registration.participants.length > 0 && (
+                            <p className="text-sm text-muted-foreground text-right">
+                              {registration.participants.map((participant) => participant.name).join(', ')}
+                            </p>
+                          )}
+                          {feeCovered > 0 && (
+                            <div className="flex justify-between">
+                              <span className="text-muted-foreground">Processing Fees Covered:</span>
+                              <span className="font-medium">${feeCovered.toFixed(2)}</span>
+                            </div>
+                          )}
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">Amount Paid:</span>
                             <span className="font-medium">${totalAmount.toFixed(2)}</span>
                           </div>
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">Payment Status:</span>
-                            <span className="font-medium text-green-600">Completed</span>
+                            {isPending ? (
+                              <span className="font-medium text-amber-600">Processing</span>
+                            ) : isWaitlisted ? (
+                              <span className="font-medium text-amber-600">Refunded</span>
+                            ) : (
+                              <span className="font-medium text-green-600">Completed</span>
+                            )}
                           </div>
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">Payment Date:</span>
-                            <span className="font-medium">{new Date().toLocaleDateString()}</span>
+                            <span className="font-medium">{new Date(registration.created_at).toLocaleDateString()}</span>
                           </div>
                         </div>
                         
@@ -127,35 +173,61 @@ const Success = () => {
                     <h2 className="text-xl font-bold text-primary mb-4">Event Information</h2>
                     <Card className="rounded-xl overflow-hidden shadow-sm">
                       <CardContent className="p-4 space-y-4">
-                        <div className="flex items-start gap-3">
-                          <Calendar className="h-5 w-5 text-tulip flex-shrink-0 mt-0.5" />
-                          <div>
-                            <p className="font-medium">Saturday, May 15, 2023</p>
-                            <p className="text-sm text-muted-foreground">Mark your calendar!</p>
-                          </div>
-                        </div>
-                        
-                        <div className="flex items-start gap-3">
-                          <Clock className="h-5 w-5 text-tulip flex-shrink-0 mt-0.5" />
-                          <div>
-                            <p className="font-medium">Registration: 8:00 AM</p>
-                            <p className="font-medium">Race Start: 9:00 AM</p>
-                            <p className="text-sm text-muted-foreground">Please arrive 30 minutes early</p>
-                          </div>
-                        </div>
-                        
-                        <div className="flex items-start gap-3">
-                          <MapPin className="h-5 w-5 text-tulip flex-shrink-0 mt-0.5" />
-                          <div>
-                            <p className="font-medium">Tulip Park</p>
-                            <p className="text-sm text-muted-foreground">123 Flower Lane, Bloomington, IN 47401</p>
-                          </div>
-                        </div>
+                        {event ? (
+                          <>
+                            <div className="flex items-start gap-3">
+                              <Calendar className="h-5 w-5 text-tulip flex-shrink-0 mt-0.5" />
+                              <div>
+                                <p className="font-medium">{formatEventDate(event)}</p>
+                                <p className="text-sm text-muted-foreground">Mark your calendar!</p>
+                              </div>
+                            </div>
+                            
+                            <div className="flex items-start gap-3">
+                              <Clock className="h-5 w-5 text-tulip flex-shrink-0 mt-0.5" />
+                              <div>
+                                {event.check_in_opens_at && (
+                                  <p className="font-medium">Registration: {formatEventTime(event, 'check_in_opens_at')}</p>
+                                )}
+                                <p className="font-medium">Walk Begins: {formatEventTime(event)}</p>
+                                <p className="text-sm text-muted-foreground">Please arrive 30 minutes early</p>
+                              </div>
+                            </div>
+                            
+                            <div className="flex items-start gap-3">
+                              <MapPin className="h-5 w-5 text-tulip flex-shrink-0 mt-0.5" />
+                              <div>
+                                <p className="font-medium">{event.venue_name}</p>
+                                {event.venue_address && (
+                                  <p className="text-sm text-muted-foreground">{event.venue_address}</p>
+                                )}
+                              </div>
+                            </div>
+                          </>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">
+                            Event details will be emailed to you closer to the day.
+                          </p>
+                        )}
                       </CardContent>
                     </Card>
                   </div>
                 </div>
                 
+                {ticketCode && (
+                  <div className="mt-8">
+                    <h2 className="text-xl font-bold text-primary mb-4">Your Ticket</h2>
+                    <Card className="rounded-xl overflow-hidden shadow-sm border-2 border-dashed border-tulip/40">
+                      <CardContent className="p-6 flex flex-col items-center text-center gap-3">
+                        <TicketQRCode code={ticketCode} />
+                        <p className="text-sm text-muted-foreground">
+                          Show this code at the check-in desk to collect your t-shirts. It is also in your confirmation email.
+                        </p>
+                      </CardContent>
+                    </Card>
+                  </div>
+                )}
+                
                 <div className="mt-8 flex flex-col sm:flex-row gap-4">
                   <Button 
                     variant="outline" 
@@ -164,7 +236,7 @@ const Success = () => {
                       window.print();
                     }}
                   >
-                    Print Receipt
+                    Print Receipt{ticketCode ? ' & Ticket' : ''}
                   </Button>
                   <Button 
                     className="w-full rounded-xl h-12 bg-tulip hover:bg-tulip-dark"
@@ -176,7 +248,8 @@ const Success = () => {
                 
                 <div className="mt-8 text-center">
                   <p className="text-sm text-muted-foreground">
-                    A confirmation email has been sent to <span className="font-medium">{registrationData.email}</span>
+                    A confirmation email has been sent to <span className="font-medium">{registration.email}</span>.
+                    Bookmark this page to come back to your receipt and ticket.
                   </p>
                   <p className="text-sm text-muted-foreground mt-2">
                     Questions? Contact us at <span className="text-tulip font-medium">info@tulipkids.org</span> or call <span className="text-tulip font-medium">(555) 123-4567</span>
@@ -7,6 +7,10 @@ import { Calendar, MapPin, Clock, Trophy, Heart, Mail, Phone } from "lucide-reac
 import RegistrationForm from "@/components/RegistrationForm";
 import { Elements } from '@stripe/react-stripe-js';
 import { loadStripe } from '@stripe/stripe-js';
+import { useActiveEvent } from "@/hooks/use-active-event";
+import { usePricingRules } from "@/hooks/use-pricing-rules";
+import { calculateRegistrationPrice } from "@/lib/pricing";
+import { formatEventDate, formatEventDeadline, formatEventTime } from "@/lib/events";
 
 // Initialize Stripe with a placeholder key if the env variable is not available
 const stripePromise = loadStripe(
@@ -18,6 +22,15 @@ const TulipTrot = () => {
   const registrationRef = useRef<HTMLDivElement>(null);
   const [formStep, setFormStep] = useState(1);
   const [paymentAmount, setPaymentAmount] = useState(2000); // Default to $20.00 (in cents)
+  const { data: event, isLoading: isEventLoading } = useActiveEvent();
+  const { data: pricingRules = [] } = usePricingRules(event?.id);
+
+  // Headline fee for a single participant, from the same rules used at checkout
+  const { adultPrice, kidPrice } = calculateRegistrationPrice(pricingRules, { adultCount: 1, kidsCount: 0 });
+  const feeLabel = adultPrice === kidPrice
+    ? `$${adultPrice} per participant`
+    : `$${adultPrice} per adult, $${kidPrice} per child`;
+  const placeholder = isEventLoading ? '…' : 'To be announced';
   
   const scrollToRegistration = () => {
     registrationRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -101,7 +114,7 @@ const TulipTrot = () => {
                       <Calendar size={24} className="text-tulip mr-3" />
                       <div>
                         <h3 className="font-semibold text-primary">Date</h3>
-                        <p>Sunday, May 4, 2025</p>
+                        <p>{event ? formatEventDate(event) : placeholder}</p>
                       </div>
                     </div>
                   </div>
@@ -111,7 +124,11 @@ const TulipTrot = () => {
                       <Clock size={24} className="text-tulip mr-3" />
                       <div>
                         <h3 className="font-semibold text-primary">Time</h3>
-                        <p>9:30 AM (Registration: 8:30 AM)</p>
+                        <p>
+                          {event
+                            ? `${formatEventTime(event)}${event.check_in_opens_at ? ` (Registration: ${formatEventTime(event, 'check_in_opens_at')})` : ''}`
+                            : placeholder}
+                        </p>
                       </div>
                     </div>
                   </div>
@@ -121,8 +138,10 @@ const TulipTrot = () => {
                       <MapPin size={24} className="text-tulip mr-3" />
                       <div>
                         <h3 className="font-semibold text-primary">Location</h3>
-                        <p>Santa Clara High School</p>
-                        <p className="text-sm text-gray-500">3000 Benton St, Santa Clara, CA 95051</p>
+                        <p>{event ? event.venue_name : placeholder}</p>
+                        {event?.venue_address && (
+                          <p className="text-sm text-gray-500">{event.venue_address}</p>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -167,15 +186,19 @@ const TulipTrot = () => {
                 <div className="grid md:grid-cols-3 gap-6 mb-6">
                   <div className="text-center">
                     <h3 className="font-semibold text-primary mb-2">Registration Timing</h3>
-                    <p className="text-lg font-bold text-tulip">8:30 AM - 9:30 AM</p>
+                    <p className="text-lg font-bold text-tulip">
+                      {event?.check_in_opens_at
+                        ? `${formatEventTime(event, 'check_in_opens_at')} - ${formatEventTime(event)}`
+                        : placeholder}
+                    </p>
                   </div>
                   <div className="text-center">
                     <h3 className="font-semibold text-primary mb-2">Walk Begins</h3>
-                    <p className="text-lg font-bold text-tulip">9:30 AM</p>
+                    <p className="text-lg font-bold text-tulip">{event ? formatEventTime(event) : placeholder}</p>
                   </div>
                   <div className="text-center">
                     <h3 className="font-semibold text-primary mb-2">Registration Fee</h3>
-                    <p className="text-lg font-bold text-tulip">$20 per participant</p>
+                    <p className="text-lg font-bold text-tulip">{feeLabel}</p>
                   </div>
                 </div>
                 <div className="text-center">
@@ -202,7 +225,7 @@ const TulipTrot = () => {
               }}
             >
               <div className="bg-white rounded-xl shadow-soft border border-gray-100 p-6">
-                <RegistrationForm formStep={formStep} setFormStep={setFormStep} setPaymentAmount={setPaymentAmount} />
+                <RegistrationForm event={event} formStep={formStep} setFormStep={setFormStep} setPaymentAmount={setPaymentAmount} />
               </div>
             </Elements>
           </div>
@@ -214,7 +237,9 @@ const TulipTrot = () => {
                 <div className="bg-white rounded-xl shadow-soft border border-gray-100 p-6">
                   <h4 className="font-bold text-primary mb-2">T-Shirt Availability</h4>
                   <p className="text-gray-600">
-                    Registrations after 15th April are not guaranteed a T-shirt.
+                    {event?.t_shirt_deadline
+                      ? `Registrations after ${formatEventDeadline(event, 't_shirt_deadline')} are not guaranteed a T-shirt.`
+                      : 'T-shirts are subject to availability.'}
                   </p>
                 </div>
                 
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import DataTable, { type DataTableColumn } from '@/components/DataTable';
+import { useAuditEvents } from '@/hooks/use-audit-events';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+type AuditEvent = Tables<'audit_events'>;
+
+const ENTITY_LABELS: Record<string, string> = {
+  registration: 'Registration',
+  donation: 'Donation',
+  giving_statement: 'Giving statement',
+  import: 'Import',
+  contact: 'Contact',
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  update: 'Edited',
+  promote: 'Promoted from waitlist',
+  check_in: 'Check-in',
+  send_receipt: 'Receipt sent',
+  send_tribute_card: 'Tribute card sent',
+  record_donation: 'Donation recorded',
+  send_statement: 'Statement sent',
+  refund: 'Refunded',
+  import: 'Imported from CSV',
+  undo_import: 'Import undone',
+  merge: 'Merged duplicate',
+};
+
+const formatValue = (value: Json | undefined) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const asRecord = (value: Json | null): Record<string, Json | undefined> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+
+const columns: DataTableColumn<AuditEvent>[] = [
+  {
+    id: 'created_at',
+    header: 'When',
+    sortValue: (event) => event.created_at,
+    cell: (event) => (
+      <span className="whitespace-nowrap text-sm">
+        {new Date(event.created_at).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}
+      </span>
+    ),
+  },
+  {
+    id: 'actor_email',
+    header: 'Admin',
+    sortValue: (event) => event.actor_email,
+    cell: (event) => <span className="text-sm">{event.actor_email || 'System'}</span>,
+  },
+  {
+    id: 'entity',
+    header: 'Record',
+    sortValue: (event) => event.entity_type,
+    cell: (event) => (
+      <div className="flex flex-col gap-1">
+        <span className="text-sm">
+          {ENTITY_LABELS[event.entity_type] || event.entity_type}{' '}
+          <span className="font-mono text-muted-foreground">#{event.entity_id.substring(0, 8)}</span>
+        </span>
+        <Badge variant="outline" className="w-fit">
+          {ACTION_LABELS[event.action] || event.action}
+        </Badge>
+      </div>
+    ),
+  },
+  {
+    id: 'changes',
+    header: 'Changes',
+    cell: (event) => {
+      const before = asRecord(event.before);
+      const after = asRecord(event.after);
+
+      return (
+        <ul className="space-y-1 text-sm">
+          {Object.keys(after).map((field) => (
+            <li key={field}>
+              <span className="font-medium">{field}</span>:{' '}
+              <span className="text-muted-foreground line-through">{formatValue(before[field])}</span>
+              {' → '}
+              <span>{formatValue(after[field])}</span>
+            </li>
+          ))}
+        </ul>
+      );
+    },
+  },
+];
+
+// Who changed what, newest first, from the audit_events table
+const Activity = () => {
+  const [entityType, setEntityType] = useState('all');
+  const [actor, setActor] = useState('');
+  const { data: events = [], isLoading, error } = useAuditEvents({
+    entityType: entityType === 'all' ? undefined : entityType,
+    actor,
+  });
+
+  return (
+    <DataTable
+      title="Activity"
+      data={events}
+      columns={columns}
+      getRowId={(event) => event.id}
+      isLoading={isLoading}
+      emptyMessage={error ? 'Failed to load activity' : 'No activity found'}
+      toolbar={
+        <>
+          <Select value={entityType} onValueChange={setEntityType}>
+            <SelectTrigger className="w-44 rounded-xl">
+              <SelectValue placeholder="All records" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All records</SelectItem>
+              <SelectItem value="registration">Registrations</SelectItem>
+              <SelectItem value="donation">Donations</SelectItem>
+              <SelectItem value="giving_statement">Giving statements</SelectItem>
+              <SelectItem value="import">Imports</SelectItem>
+              <SelectItem value="contact">Contacts</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Filter by admin email..."
+            className="max-w-xs rounded-xl"
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+          />
+        </>
+      }
+    />
+  );
+};
+
+export default Activity;
@@ -0,0 +1,109 @@
+import React, { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { NavLink, Outlet, useNavigate } from 'react-router-dom';
+import { Activity, Building2, ClipboardList, FileText, Heart, LogOut, QrCode, Scale, Upload, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { useActiveEvent } from '@/hooks/use-active-event';
+import { useAdminAuth } from '@/hooks/use-admin-auth';
+import { formatEventDate } from '@/lib/events';
+import { ADMIN_ROLE_LABELS, type AdminPermission } from '@/lib/permissions';
+import { checkSupabaseConnection } from '@/utils/supabaseUtils';
+import { cn } from '@/lib/utils';
+
+const NAV_ITEMS: { to: string; label: string; icon: React.ElementType; permission?: AdminPermission }[] = [
+  { to: 'registrations', label: 'Registrations', icon: ClipboardList },
+  { to: 'donations', label: 'Donations', icon: Heart },
+  { to: 'contacts', label: 'Contacts', icon: Users },
+  { to: 'statements', label: 'Statements', icon: FileText },
+  { to: 'matching-gifts', label: 'Matching Gifts', icon: Building2 },
+  { to: 'reconciliation', label: 'Reconciliation', icon: Scale, permission: 'payments.reconcile' },
+  { to: 'activity', label: 'Activity', icon: Activity },
+  { to: 'import', label: 'Import', icon: Upload, permission: 'data.import' },
+  { to: 'check-in', label: 'Check-in', icon: QrCode, permission: 'registrations.check_in' },
+];
+
+// Header and navigation shared by every page under /admin
+const AdminLayout = () => {
+  const navigate = useNavigate();
+  const { adminUser, signOut, can } = useAdminAuth();
+  const { data: activeEvent } = useActiveEvent();
+
+  useEffect(() => {
+    const checkConnection = async () => {
+      const isConnected = await checkSupabaseConnection();
+      if (!isConnected) {
+        console.error('Failed to connect to Supabase');
+      }
+    };
+
+    checkConnection();
+  }, []);
+
+  const handleLogout = async () => {
+    try {
+      await signOut();
+      navigate('/admin/login');
+    } catch (error) {
+      console.error('Logout error:', error);
+      toast.error('Failed to log out', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen py-12 px-4 sm:px-6 bg-gradient-to-b from-background to-secondary/30">
+      <motion.div
+        className="max-w-7xl mx-auto"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.5 }}
+      >
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold">Admin Dashboard</h1>
+            <p className="text-muted-foreground">
+              {activeEvent
+                ? `${activeEvent.name} · ${formatEventDate(activeEvent)}`
+                : 'Manage registrations, donations, and payments'}
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            {adminUser && (
+              <p className="text-sm text-muted-foreground text-right">
+                {adminUser.email}
+                <br />
+                {ADMIN_ROLE_LABELS[adminUser.role]}
+              </p>
+            )}
+            <Button variant="outline" className="rounded-xl" onClick={handleLogout}>
+              <LogOut className="h-4 w-4 mr-2" /> Logout
+            </Button>
+          </div>
+        </div>
+
+        <nav className="flex flex-wrap gap-2 mb-8">
+          {NAV_ITEMS.filter((item) => !item.permission || can(item.permission)).map(({ to, label, icon: Icon }) => (
+            <NavLink
+              key={to}
+              to={to}
+              className={({ isActive }) =>
+                cn(
+                  'inline-flex items-center rounded-xl px-4 py-2 text-sm font-medium transition-colors',
+                  isActive ? 'bg-primary text-primary-foreground' : 'bg-white hover:bg-secondary'
+                )
+              }
+            >
+              <Icon className="h-4 w-4 mr-2" /> {label}
+            </NavLink>
+          ))}
+        </nav>
+
+        <Outlet />
+      </motion.div>
+    </div>
+  );
+};
+
+export default AdminLayout;
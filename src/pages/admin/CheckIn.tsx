@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { Check, Loader2, QrCode, Shirt, UserCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Separator } from '@/components/ui/separator';
+import QrScanner from '@/components/QrScanner';
+import { lookupTicket, updateCheckIn, type TicketHolder } from '@/lib/check-in';
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+const CheckIn = () => {
+  const [code, setCode] = useState('');
+  const [registration, setRegistration] = useState<TicketHolder | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleLookup = async (ticketCode: string) => {
+    if (!ticketCode.trim() || isLookingUp) return;
+
+    setIsLookingUp(true);
+
+    try {
+      const result = await lookupTicket(ticketCode.trim());
+      setRegistration(result.registration);
+      setCode('');
+    } catch (error) {
+      console.error('Ticket lookup error:', error);
+      toast.error('Ticket not recognised', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handleUpdate = async (changes: { checkedIn?: boolean; tShirtsPickedUp?: boolean }) => {
+    if (!registration) return;
+
+    setIsSaving(true);
+
+    try {
+      const result = await updateCheckIn(registration.id, changes);
+      setRegistration(result.registration);
+    } catch (error) {
+      console.error('Check-in error:', error);
+      toast.error('Failed to save check-in', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isPaid = registration?.payment_status === 'paid' || registration?.payment_status === 'partially_refunded';
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Check-in</h2>
+        <p className="text-muted-foreground">Scan a family's ticket or type the code below it</p>
+      </div>
+
+      {!registration ? (
+        <Card className="rounded-xl shadow-medium overflow-hidden">
+          <CardContent className="p-6 space-y-4">
+            <QrScanner onScan={handleLookup} paused={isLookingUp} />
+
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleLookup(code);
+              }}
+            >
+              <Input
+                placeholder="TT1.…"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="rounded-xl h-11 font-mono"
+              />
+              <Button type="submit" className="rounded-xl h-11" disabled={isLookingUp || !code.trim()}>
+                {isLookingUp ? <Loader2 className="h-4 w-4 animate-spin" /> : <QrCode className="h-4 w-4" />}
+                <span className="ml-2">Look up</span>
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="rounded-xl shadow-medium overflow-hidden">
+          <CardHeader className="bg-primary/5">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>{registration.name}</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  {registration.events?.name} · {registration.family_category}
+                </p>
+              </div>
+              <Badge
+                variant="outline"
+                className={isPaid ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}
+              >
+                {registration.payment_status}
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4">
+            {registration.participants.length > 0 ? (
+              <div className="space-y-2">
+                {registration.participants.map((participant) => (
+                  <div key={participant.id} className="flex items-center justify-between">
+                    <span>
+                      <span className="font-medium">{participant.name}</span>
+                      <span className="text-sm text-muted-foreground">
+                        {' '}· {participant.participant_type === 'adult' ? 'Adult' : 'Child'}
+                        {participant.age != null && `, ${participant.age}`}
+                      </span>
+                    </span>
+                    <Badge variant="outline">{participant.t_shirt_size}</Badge>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="flex items-center justify-between">
+                <span>{registration.adult_count} adults, {registration.kids_count} kids</span>
+                <span className="text-sm">{registration.t_shirt_sizes?.join(', ')}</span>
+              </div>
+            )}
+
+            <Separator />
+
+            {isPaid ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <Button
+                  className="rounded-xl h-14"
+                  variant={registration.checked_in_at ? 'outline' : 'default'}
+                  disabled={isSaving}
+                  onClick={() => handleUpdate({ checkedIn: !registration.checked_in_at })}
+                >
+                  {registration.checked_in_at ? (
+                    <><Check className="h-4 w-4 mr-2" /> Checked in at {formatTime(registration.checked_in_at)}</>
+                  ) : (
+                    <><UserCheck className="h-4 w-4 mr-2" /> Check in</>
+                  )}
+                </Button>
+                <Button
+                  className="rounded-xl h-14"
+                  variant={registration.t_shirts_picked_up_at ? 'outline' : 'default'}
+                  disabled={isSaving}
+                  onClick={() => handleUpdate({ tShirtsPickedUp: !registration.t_shirts_picked_up_at })}
+                >
+                  {registration.t_shirts_picked_up_at ? (
+                    <><Check className="h-4 w-4 mr-2" /> T-shirts given at {formatTime(registration.t_shirts_picked_up_at)}</>
+                  ) : (
+                    <><Shirt className="h-4 w-4 mr-2" /> Hand out t-shirts</>
+                  )}
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-red-700">
+                This registration has not been paid. Please send the family to the help desk.
+              </p>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Tap a recorded time to undo it.
+            </p>
+
+            <Button variant="outline" className="w-full rounded-xl h-12" onClick={() => setRegistration(null)}>
+              <QrCode className="h-4 w-4 mr-2" /> Scan next ticket
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default CheckIn;
@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, ClipboardList, DollarSign, HandHeart, Heart, Loader2, Merge, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import MergeContactDialog from '@/components/MergeContactDialog';
+import StatCard from '@/components/StatCard';
+import StatusBadge from '@/components/StatusBadge';
+import { useAdminAuth } from '@/hooks/use-admin-auth';
+import { useContact } from '@/hooks/use-contact';
+import { useEvents } from '@/hooks/use-events';
+import { formatPhone } from '@/lib/contacts';
+import { describeTribute } from '@/lib/tributes';
+import { cn } from '@/lib/utils';
+
+type TimelineEntry = {
+  id: string;
+  kind: 'donation' | 'registration' | 'volunteer_application';
+  date: string;
+  title: string;
+  details: string[];
+  status?: string;
+};
+
+const TIMELINE_ICONS: Record<TimelineEntry['kind'], { icon: React.ElementType; className: string }> = {
+  donation: { icon: Heart, className: 'bg-pink-100 text-pink-700' },
+  registration: { icon: ClipboardList, className: 'bg-blue-100 text-blue-700' },
+  volunteer_application: { icon: HandHeart, className: 'bg-green-100 text-green-700' },
+};
+
+const formatAmount = (value: number) => `$${value.toFixed(2)}`;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+// One person or family: lifetime totals and everything they have done with the foundation, newest first
+const ContactProfile = () => {
+  const { id } = useParams<{ id: string }>();
+  const { can } = useAdminAuth();
+  const { data: profile, isLoading, error, refetch } = useContact(id);
+  const { data: events = [] } = useEvents();
+  const [isMerging, setIsMerging] = useState(false);
+
+  const timeline = useMemo(() => {
+    if (!profile) return [];
+
+    const eventNames = new Map(events.map((event) => [event.id, event.name]));
+
+    const entries: TimelineEntry[] = [
+      ...profile.donations.map((don) => ({
+        id: don.id,
+        kind: 'donation' as const,
+        date: don.created_at,
+        title: `Donated ${formatAmount(Number(don.amount) + Number(don.fee_covered_amount))}`,
+        details: [
+          don.designation,
+          don.donation_type,
+          describeTribute(don),
+          don.employer_name && `Matched by ${don.employer_name}`,
+          don.gift_description,
+        ].filter((detail): detail is string => !!detail),
+        status: don.status,
+      })),
+      ...profile.registrations.map((reg) => ({
+        id: reg.id,
+        kind: 'registration' as const,
+        date: reg.created_at,
+        title: `Registered for ${(reg.event_id && eventNames.get(reg.event_id)) || 'the Tulip Trot'}`,
+        details: [
+          `${reg.adult_count} adult(s), ${reg.kids_count} kid(s)`,
+          formatAmount(Number(reg.total_amount) + Number(reg.fee_covered_amount)),
+          reg.checked_in_at && `Checked in ${formatDate(reg.checked_in_at)}`,
+        ].filter((detail): detail is string => !!detail),
+        status: reg.payment_status,
+      })),
+      ...profile.volunteerApplications.map((application) => ({
+        id: application.id,
+        kind: 'volunteer_application' as const,
+        date: application.created_at,
+        title: 'Applied to volunteer',
+        details: [application.reason],
+      })),
+    ];
+
+    return entries.sort((a, b) => b.date.localeCompare(a.date));
+  }, [profile, events]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <p className="text-muted-foreground">
+          {error ? 'Failed to load contact' : 'This contact no longer exists. It may have been merged into another.'}
+        </p>
+        <Button variant="outline" asChild>
+          <Link to="/admin/contacts">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            All Contacts
+          </Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const { contact } = profile;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-4">
+        <div className="space-y-1">
+          <Link to="/admin/contacts" className="text-sm text-muted-foreground hover:underline inline-flex items-center">
+            <ArrowLeft className="h-3.5 w-3.5 mr-1" />
+            All Contacts
+          </Link>
+          <h2 className="text-2xl font-bold">{contact.name || 'Unnamed contact'}</h2>
+          <p className="text-muted-foreground">
+            {[...contact.emails, ...contact.phones.map(formatPhone)].join(' · ')}
+          </p>
+          <p className="text-sm text-muted-foreground">Contact since {formatDate(contact.created_at)}</p>
+        </div>
+        {can('contacts.merge') && (
+          <Button variant="outline" className="rounded-xl" onClick={() => setIsMerging(true)}>
+            <Merge className="h-4 w-4 mr-2" />
+            Merge a Duplicate
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatCard
+          icon={DollarSign}
+          iconClassName="bg-purple-100 text-purple-700"
+          label="Lifetime Giving"
+          value={formatAmount(Number(contact.lifetime_giving))}
+          note={
+            contact.first_gift_at
+              ? `${contact.gift_count} gift(s) since ${new Date(contact.first_gift_at).getFullYear()}`
+              : 'No gifts yet'
+          }
+        />
+        <StatCard
+          icon={Users}
+          iconClassName="bg-blue-100 text-blue-700"
+          label="Tulip Trot Registrations"
+          value={contact.registration_count}
+        />
+        <StatCard
+          icon={HandHeart}
+          iconClassName="bg-green-100 text-green-700"
+          label="Volunteer Applications"
+          value={contact.volunteer_application_count}
+        />
+      </div>
+
+      <Card className="rounded-xl shadow-medium overflow-hidden">
+        <CardHeader className="bg-primary/5">
+          <CardTitle>Timeline</CardTitle>
+        </CardHeader>
+        <CardContent className="p-6">
+          {timeline.length === 0 ? (
+            <p className="text-center text-muted-foreground py-4">Nothing recorded yet</p>
+          ) : (
+            <ol className="space-y-6">
+              {timeline.map((entry) => {
+                const { icon: Icon, className } = TIMELINE_ICONS[entry.kind];
+
+                return (
+                  <li key={`${entry.kind}-${entry.id}`} className="flex gap-4">
+                    <div className={cn('p-2 rounded-full h-fit', className)}>
+                      <Icon className="h-4 w-4" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-medium">{entry.title}</p>
+                        {entry.status && <StatusBadge status={entry.status} />}
+                      </div>
+                      <p className="text-sm text-muted-foreground">{formatDate(entry.date)}</p>
+                      {entry.details.length > 0 && (
+                        <p className="text-sm mt-1 whitespace-pre-line">{entry.details.join(' · ')}</p>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+
+      {isMerging && (
+        <MergeContactDialog contact={contact} onClose={() => setIsMerging(false)} onMerged={() => refetch()} />
+      )}
+    </div>
+  );
+};
+
+export default ContactProfile;
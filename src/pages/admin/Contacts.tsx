@@ -0,0 +1,161 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Copy, DollarSign, UserRound, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import DataTable, { type DataTableColumn, type DataTableFilter } from '@/components/DataTable';
+import StatCard from '@/components/StatCard';
+import { useContactTotals, useContacts } from '@/hooks/use-contacts';
+import { formatPhone, nameKey, type ContactSummary } from '@/lib/contacts';
+
+const formatAmount = (value: number) => `$${value.toFixed(2)}`;
+
+const columns: DataTableColumn<ContactSummary>[] = [
+  {
+    id: 'name',
+    header: 'Name',
+    sortValue: (contact) => contact.name,
+    cell: (contact) => (
+      <div>
+        <Link to={contact.id} className="font-medium hover:underline">
+          {contact.name || 'Unnamed contact'}
+        </Link>
+        {contact.emails.map((email) => (
+          <p key={email} className="text-sm text-muted-foreground">{email}</p>
+        ))}
+      </div>
+    ),
+  },
+  {
+    id: 'phone',
+    header: 'Phone',
+    sortValue: (contact) => contact.phones[0],
+    cell: (contact) => (
+      <div className="text-sm">
+        {contact.phones.map((phone) => <p key={phone}>{formatPhone(phone)}</p>)}
+      </div>
+    ),
+  },
+  {
+    id: 'involvement',
+    header: 'Involvement',
+    cell: (contact) => (
+      <div className="flex flex-wrap gap-1">
+        {contact.gift_count > 0 && (
+          <Badge variant="outline" className="bg-pink-100 text-pink-800">
+            {contact.gift_count} gift{contact.gift_count === 1 ? '' : 's'}
+          </Badge>
+        )}
+        {contact.registration_count > 0 && (
+          <Badge variant="outline" className="bg-blue-100 text-blue-800">
+            {contact.registration_count} registration{contact.registration_count === 1 ? '' : 's'}
+          </Badge>
+        )}
+        {contact.volunteer_application_count > 0 && (
+          <Badge variant="outline" className="bg-green-100 text-green-800">Volunteer</Badge>
+        )}
+      </div>
+    ),
+  },
+  {
+    id: 'lifetime_giving',
+    header: 'Lifetime Giving',
+    align: 'center',
+    sortValue: (contact) => Number(contact.lifetime_giving),
+    cell: (contact) => formatAmount(Number(contact.lifetime_giving)),
+  },
+  {
+    id: 'last_gift_at',
+    header: 'Last Gift',
+    align: 'center',
+    sortValue: (contact) => contact.last_gift_at,
+    cell: (contact) => (contact.last_gift_at ? new Date(contact.last_gift_at).toLocaleDateString() : '—'),
+  },
+];
+
+// Everyone who has donated, registered or applied to volunteer, one row per person or family
+const Contacts = () => {
+  const { data: contacts = [], isLoading, error } = useContacts();
+  const { data: totals } = useContactTotals();
+
+  // Names shared by more than one contact, e.g. a donor who used a work email for one gift
+  const duplicateNames = useMemo(() => {
+    const counts = new Map<string, number>();
+
+    for (const contact of contacts) {
+      if (nameKey(contact)) counts.set(nameKey(contact), (counts.get(nameKey(contact)) ?? 0) + 1);
+    }
+
+    return new Set([...counts].filter(([, count]) => count > 1).map(([key]) => key));
+  }, [contacts]);
+
+  const filters = useMemo<DataTableFilter<ContactSummary>[]>(
+    () => [
+      { value: 'all', label: 'All', matches: () => true },
+      { value: 'donors', label: 'Donors', matches: (contact) => contact.gift_count > 0 },
+      { value: 'families', label: 'Families', matches: (contact) => contact.registration_count > 0 },
+      { value: 'volunteers', label: 'Volunteers', matches: (contact) => contact.volunteer_application_count > 0 },
+      {
+        value: 'duplicates',
+        label: 'Possible Duplicates',
+        matches: (contact) => duplicateNames.has(nameKey(contact)),
+      },
+    ],
+    [duplicateNames]
+  );
+
+  const duplicateCount = useMemo(
+    () => contacts.filter((contact) => duplicateNames.has(nameKey(contact))).length,
+    [contacts, duplicateNames]
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatCard
+          icon={Users}
+          iconClassName="bg-blue-100 text-blue-700"
+          label="Contacts"
+          value={Number(totals?.contact_count ?? 0)}
+          note={`${Number(totals?.donor_count ?? 0)} have donated`}
+        />
+        <StatCard
+          icon={DollarSign}
+          iconClassName="bg-purple-100 text-purple-700"
+          label="Lifetime Giving"
+          value={formatAmount(Number(totals?.lifetime_giving ?? 0))}
+        />
+        <StatCard
+          icon={Copy}
+          iconClassName="bg-amber-100 text-amber-700"
+          label="Possible Duplicates"
+          value={duplicateCount}
+          note="contacts sharing a name with another"
+        />
+      </div>
+
+      <DataTable
+        title="Contacts"
+        data={contacts}
+        columns={columns}
+        getRowId={(contact) => contact.id}
+        isLoading={isLoading}
+        searchText={(contact) => `${contact.name} ${contact.emails.join(' ')} ${contact.phones.join(' ')}`}
+        searchPlaceholder="Search name, email or phone..."
+        filters={filters}
+        initialSort={{ columnId: 'name', direction: 'asc' }}
+        rowActions={(contact) => (
+          <Button variant="outline" size="sm" className="h-8" asChild>
+            <Link to={contact.id}>
+              <UserRound className="h-3.5 w-3.5 mr-1" />
+              Profile
+            </Link>
+          </Button>
+        )}
+        emptyMessage={error ? 'Failed to load contacts' : 'No contacts found'}
+      />
+    </div>
+  );
+};
+
+export default Contacts;
@@ -0,0 +1,426 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, Clock, DollarSign, Download, FileText, Flower2, Heart, Loader2, Mail, Plus, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import DataTable, { type DataTableColumn, type DataTableFilter } from '@/components/DataTable';
+import RecordDonationDialog from '@/components/RecordDonationDialog';
+import RefundDialog, { type RefundTarget } from '@/components/RefundDialog';
+import StatCard from '@/components/StatCard';
+import StatusBadge from '@/components/StatusBadge';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAdminAuth } from '@/hooks/use-admin-auth';
+import { useAdminDonations, useDonationTotals } from '@/hooks/use-admin-donations';
+import { downloadCsv } from '@/lib/csv';
+import { isOfflineDonation } from '@/lib/offline-donations';
+import { downloadDonationReceipt, formatReceiptNumber, isReceiptable, sendDonationReceipt } from '@/lib/tax-receipts';
+import { describeTribute, sendTributeCard } from '@/lib/tributes';
+
+type Donation = Tables<'donations'>;
+
+const donorName = (don: Donation) => `${don.first_name.trim()} ${don.last_name.trim()}`.trim();
+
+// Donations paid (or being paid) through Stripe carry the PaymentIntent id
+const hasStripePayment = (don: Donation) => !!don.payment_id?.startsWith('pi_');
+
+const filters: DataTableFilter<Donation>[] = [
+  { value: 'all', label: 'All', matches: () => true },
+  { value: 'completed', label: 'Completed', matches: (don) => don.status === 'completed' },
+  { value: 'pending', label: 'Pending', matches: (don) => don.status === 'pending' },
+  { value: 'recurring', label: 'Recurring', matches: (don) => don.donation_type === 'Recurring' },
+  { value: 'offline', label: 'Offline', matches: isOfflineDonation },
+  { value: 'imported', label: 'Imported', matches: (don) => !!don.import_id },
+  { value: 'tribute', label: 'Tribute', matches: (don) => !!don.tribute_type },
+  {
+    value: 'refunded',
+    label: 'Refunded',
+    matches: (don) => don.status === 'refunded' || don.status === 'partially_refunded',
+  },
+];
+
+const columns: DataTableColumn<Donation>[] = [
+  {
+    id: 'name',
+    header: 'Name',
+    sortValue: donorName,
+    cell: (don) => (
+      <div>
+        {don.contact_id ? (
+          <Link to={`/admin/contacts/${don.contact_id}`} className="font-medium hover:underline">
+            {donorName(don)}
+          </Link>
+        ) : (
+          <p className="font-medium">{donorName(don)}</p>
+        )}
+        <p className="text-sm text-muted-foreground">{don.email}</p>
+        {don.is_anonymous && (
+          <Badge variant="outline" className="mt-1 mr-1 bg-gray-100 text-gray-800">
+            Anonymous
+          </Badge>
+        )}
+        {don.donation_type === 'Recurring' && (
+          <Badge variant="outline" className="mt-1 mr-1 bg-purple-100 text-purple-800">
+            Recurring
+          </Badge>
+        )}
+        {isOfflineDonation(don) && (
+          <Badge variant="outline" className="mt-1 mr-1 bg-amber-100 text-amber-800">
+            {don.check_number ? `Check #${don.check_number}` : don.donation_type}
+          </Badge>
+        )}
+        {don.import_id && (
+          <Badge variant="outline" className="mt-1 mr-1 bg-slate-100 text-slate-800">
+            Imported
+          </Badge>
+        )}
+        {describeTribute(don) && (
+          <Badge variant="outline" className="mt-1 mr-1 bg-pink-100 text-pink-800">
+            {describeTribute(don)}
+          </Badge>
+        )}
+        {don.employer_name && (
+          <Badge variant="outline" className="mt-1 bg-blue-100 text-blue-800">
+            Matched by {don.employer_name}
+          </Badge>
+        )}
+      </div>
+    ),
+  },
+  {
+    id: 'designation',
+    header: 'Designation',
+    sortValue: (don) => don.designation,
+    cell: (don) => (
+      <div>
+        {don.designation}
+        {don.gift_description && <p className="text-sm text-muted-foreground">{don.gift_description}</p>}
+      </div>
+    ),
+  },
+  {
+    id: 'amount',
+    header: 'Amount',
+    align: 'center',
+    sortValue: (don) => Number(don.amount),
+    cell: (don) => (
+      <div>
+        ${don.amount}
+        {Number(don.fee_covered_amount) > 0 && (
+          <p className="text-xs text-muted-foreground">+${Number(don.fee_covered_amount).toFixed(2)} fees</p>
+        )}
+      </div>
+    ),
+  },
+  {
+    id: 'status',
+    header: 'Status',
+    align: 'center',
+    sortValue: (don) => don.status,
+    cell: (don) => <StatusBadge status={don.status} />,
+  },
+  {
+    id: 'created_at',
+    header: 'Date',
+    align: 'center',
+    sortValue: (don) => don.created_at,
+    cell: (don) => new Date(don.created_at).toLocaleDateString(),
+  },
+  {
+    id: 'receipt',
+    header: 'Receipt',
+    align: 'center',
+    sortValue: (don) => don.receipt_sent_at ?? (don.certificate_sent ? 'sent' : null),
+    cell: (don) => (
+      <div className="flex flex-col items-center gap-1">
+        {don.certificate_sent ? (
+          <Badge variant="default" className="bg-green-100 text-green-800 hover:bg-green-100">
+            <Check className="h-3 w-3 mr-1" /> Sent
+            {don.receipt_sent_at && ` ${new Date(don.receipt_sent_at).toLocaleDateString()}`}
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="bg-gray-100 text-gray-800 hover:bg-gray-100">
+            Not Sent
+          </Badge>
+        )}
+        <span className="font-mono text-xs text-muted-foreground">{formatReceiptNumber(don.receipt_number)}</span>
+      </div>
+    ),
+  },
+];
+
+const Donations = () => {
+  const { can } = useAdminAuth();
+  const { data: donations = [], isLoading, refetch } = useAdminDonations();
+  const { data: totals, refetch: refetchTotals } = useDonationTotals();
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  const [sendingCardId, setSendingCardId] = useState<string | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [refundTarget, setRefundTarget] = useState<RefundTarget | null>(null);
+
+  // Summed by the database, so they cover every donation
+  const stats = {
+    totalDonations: Number(totals?.donation_count ?? 0),
+    totalCompleted: Number(totals?.completed_count ?? 0),
+    // Partially refunded gifts count for what the foundation kept
+    totalAmount: Number(totals?.amount_raised ?? 0),
+    totalFeesCovered: Number(totals?.fees_covered ?? 0),
+    totalPending: Number(totals?.pending_count ?? 0),
+  };
+
+  const refresh = () => {
+    refetch();
+    refetchTotals();
+  };
+
+  // Stripe-backed donations get their status from the webhook; changing them by
+  // hand would leave the record out of step with the charge
+  const handleUpdateDonationStatus = async (don: Donation, status: 'completed' | 'pending') => {
+    if (hasStripePayment(don)) return;
+
+    try {
+      const { error } = await supabase
+        .from('donations')
+        .update({ status })
+        .eq('id', don.id);
+
+      if (error) throw error;
+
+      toast.success(`Donation status updated to ${status}`);
+      refresh();
+    } catch (error) {
+      console.error('Error updating donation status:', error);
+      toast.error('Failed to update donation status');
+    }
+  };
+
+  const handleSendReceipt = async (donation: Donation) => {
+    try {
+      setSendingId(donation.id);
+      await sendDonationReceipt(donation.id);
+      toast.success('Receipt sent', {
+        description: `${formatReceiptNumber(donation.receipt_number)} was emailed to ${donation.email}.`,
+      });
+      refresh();
+    } catch (error) {
+      console.error('Error sending receipt:', error);
+      toast.error('Failed to send receipt', {
+        description: error instanceof Error ? error.message : 'Please try again or contact support',
+      });
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  const handleSendTributeCard = async (donation: Donation) => {
+    try {
+      setSendingCardId(donation.id);
+      await sendTributeCard(donation.id);
+      toast.success('Tribute card sent', {
+        description: `The card was emailed to ${donation.tribute_recipient_email}.`,
+      });
+      refresh();
+    } catch (error) {
+      console.error('Error sending tribute card:', error);
+      toast.error('Failed to send tribute card', {
+        description: error instanceof Error ? error.message : 'Please try again or contact support',
+      });
+    } finally {
+      setSendingCardId(null);
+    }
+  };
+
+  const handleDownloadReceipt = async (donation: Donation) => {
+    try {
+      await downloadDonationReceipt(donation);
+    } catch (error) {
+      console.error('Error downloading receipt:', error);
+      toast.error('Failed to download receipt', {
+        description: error instanceof Error ? error.message : 'Please try again or contact support',
+      });
+    }
+  };
+
+  const handleExportData = () => {
+    downloadCsv(
+      'donations',
+      ['Name', 'Email', 'Amount', 'Fees Covered', 'Designation', 'Tribute', 'Employer Match', 'Anonymous', 'Payment ID', 'Type', 'Check Number', 'Gift Description', 'Status', 'Date'],
+      donations.map((don) => [
+        donorName(don),
+        don.email,
+        don.amount,
+        don.fee_covered_amount,
+        don.designation,
+        describeTribute(don) ?? '',
+        don.employer_name ?? '',
+        don.is_anonymous ? 'Yes' : 'No',
+        don.payment_id ?? '',
+        don.donation_type,
+        don.check_number ?? '',
+        don.gift_description ?? '',
+        don.status,
+        new Date(don.created_at).toLocaleDateString(),
+      ])
+    );
+  };
+
+  const renderActions = (don: Donation) => (
+    <>
+      {can('donations.update_status') && !hasStripePayment(don) && (
+        don.status === 'pending' ? (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 bg-green-50 text-green-700 hover:bg-green-100 hover:text-green-800"
+            onClick={() => handleUpdateDonationStatus(don, 'completed')}
+          >
+            <Check className="h-3.5 w-3.5 mr-1" />
+            Mark Completed
+          </Button>
+        ) : don.status === 'completed' && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 bg-amber-50 text-amber-700 hover:bg-amber-100 hover:text-amber-800"
+            onClick={() => handleUpdateDonationStatus(don, 'pending')}
+          >
+            <Clock className="h-3.5 w-3.5 mr-1" />
+            Mark Pending
+          </Button>
+        )
+      )}
+      {isReceiptable(don) && (
+        <>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8"
+            onClick={() => handleDownloadReceipt(don)}
+          >
+            <FileText className="h-3.5 w-3.5 mr-1" />
+            PDF
+          </Button>
+          {can('donations.send_certificate') && don.email && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8"
+              onClick={() => handleSendReceipt(don)}
+              disabled={sendingId === don.id}
+            >
+              {sendingId === don.id
+                ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                : <Mail className="h-3.5 w-3.5 mr-1" />}
+              {don.certificate_sent ? 'Resend Receipt' : 'Send Receipt'}
+            </Button>
+          )}
+          {can('donations.send_certificate') && don.tribute_recipient_email && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8"
+              onClick={() => handleSendTributeCard(don)}
+              disabled={sendingCardId === don.id}
+            >
+              {sendingCardId === don.id
+                ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                : <Flower2 className="h-3.5 w-3.5 mr-1" />}
+              {don.tribute_notified_at ? 'Resend Card' : 'Send Card'}
+            </Button>
+          )}
+        </>
+      )}
+      {can('payments.refund') && hasStripePayment(don) &&
+        (don.status === 'completed' || don.status === 'partially_refunded') && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 bg-red-50 text-red-700 hover:bg-red-100 hover:text-red-800"
+          onClick={() => setRefundTarget({
+            entityType: 'donation',
+            id: don.id,
+            payerName: donorName(don),
+            payerEmail: don.email,
+            amount: Number(don.amount) + Number(don.fee_covered_amount),
+            refunded: Number(don.refunded_amount),
+          })}
+        >
+          <RotateCcw className="h-3.5 w-3.5 mr-1" />
+          Refund
+        </Button>
+      )}
+    </>
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatCard
+          icon={Heart}
+          iconClassName="bg-pink-100 text-pink-700"
+          label="Total Donations"
+          value={stats.totalDonations}
+          note={stats.totalPending > 0 && `${stats.totalPending} pending`}
+        />
+        <StatCard
+          icon={Check}
+          iconClassName="bg-green-100 text-green-700"
+          label="Completed"
+          value={stats.totalCompleted}
+        />
+        <StatCard
+          icon={DollarSign}
+          iconClassName="bg-purple-100 text-purple-700"
+          label="Amount Raised"
+          value={`$${stats.totalAmount.toFixed(2)}`}
+          note={stats.totalFeesCovered > 0 && `+$${stats.totalFeesCovered.toFixed(2)} processing fees covered`}
+        />
+      </div>
+
+      <DataTable
+        title="Donations"
+        data={donations}
+        columns={columns}
+        getRowId={(don) => don.id}
+        isLoading={isLoading}
+        searchText={(don) => `${donorName(don)} ${don.email} ${don.designation} ${don.tribute_honoree_name ?? ''}`}
+        searchPlaceholder="Search donations..."
+        filters={filters}
+        rowActions={renderActions}
+        emptyMessage="No donations found"
+        toolbar={
+          <>
+            {can('donations.record') && (
+              <Button variant="outline" className="rounded-xl" onClick={() => setIsRecording(true)}>
+                <Plus className="h-4 w-4 mr-2" /> Record Donation
+              </Button>
+            )}
+            {can('data.export') && (
+              <Button variant="outline" className="rounded-xl" onClick={handleExportData}>
+                <Download className="h-4 w-4 mr-2" /> Export
+              </Button>
+            )}
+          </>
+        }
+      />
+
+      {isRecording && (
+        <RecordDonationDialog
+          onClose={() => setIsRecording(false)}
+          onRecorded={refresh}
+        />
+      )}
+
+      {refundTarget && (
+        <RefundDialog
+          target={refundTarget}
+          onClose={() => setRefundTarget(null)}
+          onRefunded={refresh}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Donations;
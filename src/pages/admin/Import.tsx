@@ -0,0 +1,499 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, Loader2, Undo2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import DataTable, { type DataTableColumn, type DataTableFilter } from '@/components/DataTable';
+import type { Tables } from '@/integrations/supabase/types';
+import { useEvents } from '@/hooks/use-events';
+import { useImports } from '@/hooks/use-imports';
+import { parseCsv } from '@/lib/csv';
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  guessColumnMapping,
+  type ImportEntityType,
+} from '@/lib/import-fields';
+import { importRecords, previewImport, undoImport, type ImportRequest, type ImportRowResult } from '@/lib/imports';
+
+type ImportBatch = Tables<'imports'>;
+
+type Step = 'upload' | 'map' | 'preview';
+
+type CsvFile = { name: string; headers: string[]; rows: string[][] };
+
+type PreviewRow = ImportRowResult & { values: Record<string, string> };
+
+const ENTITY_LABELS: Record<ImportEntityType, string> = {
+  donation: 'Donations',
+  registration: 'Registrations',
+};
+
+const ROW_STATUSES: Record<ImportRowResult['status'], { label: string; className: string }> = {
+  valid: { label: 'Ready', className: 'bg-green-100 text-green-800 hover:bg-green-100' },
+  invalid: { label: 'Invalid', className: 'bg-red-100 text-red-800 hover:bg-red-100' },
+  duplicate: { label: 'Duplicate', className: 'bg-amber-100 text-amber-800 hover:bg-amber-100' },
+};
+
+// Select items can't have an empty value
+const NOT_MAPPED = 'none';
+const NO_EVENT = 'none';
+
+const previewFilters: DataTableFilter<PreviewRow>[] = [
+  { value: 'all', label: 'All', matches: () => true },
+  ...(Object.keys(ROW_STATUSES) as ImportRowResult['status'][]).map((status) => ({
+    value: status,
+    label: ROW_STATUSES[status].label,
+    matches: (row: PreviewRow) => row.status === status,
+  })),
+];
+
+const describeProblems = (entityType: ImportEntityType, row: PreviewRow) => {
+  if (row.status === 'duplicate') {
+    return row.duplicateOf === 'existing' ? 'Already recorded' : 'Repeats an earlier row';
+  }
+
+  return Object.entries(row.errors ?? {})
+    .map(([key, messages]) => {
+      const label = IMPORT_FIELDS[entityType].find((field) => field.key === key)?.label ?? key;
+      return `${label}: ${messages.join(', ')}`;
+    })
+    .join('; ');
+};
+
+const importColumns: DataTableColumn<ImportBatch>[] = [
+  {
+    id: 'created_at',
+    header: 'Imported',
+    sortValue: (batch) => batch.created_at,
+    cell: (batch) => (
+      <div>
+        <p className="font-medium">{batch.file_name}</p>
+        <p className="text-sm text-muted-foreground">
+          {new Date(batch.created_at).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}
+          {' by '}
+          {batch.imported_by}
+        </p>
+      </div>
+    ),
+  },
+  {
+    id: 'entity_type',
+    header: 'Records',
+    sortValue: (batch) => batch.entity_type,
+    cell: (batch) => ENTITY_LABELS[batch.entity_type as ImportEntityType] ?? batch.entity_type,
+  },
+  {
+    id: 'row_count',
+    header: 'Rows',
+    align: 'center',
+    sortValue: (batch) => batch.row_count,
+    cell: (batch) => (
+      <div className="flex flex-col items-center">
+        {batch.row_count}
+        {batch.skipped_count > 0 && (
+          <span className="text-xs text-muted-foreground">{batch.skipped_count} skipped</span>
+        )}
+      </div>
+    ),
+  },
+  {
+    id: 'undone_at',
+    header: 'Status',
+    align: 'center',
+    sortValue: (batch) => batch.undone_at,
+    cell: (batch) =>
+      batch.undone_at ? (
+        <div className="flex flex-col items-center gap-1">
+          <Badge variant="outline" className="bg-gray-100 text-gray-700 hover:bg-gray-100">Undone</Badge>
+          <span className="text-xs text-muted-foreground">
+            {new Date(batch.undone_at).toLocaleDateString()} by {batch.undone_by}
+          </span>
+        </div>
+      ) : (
+        <Badge variant="outline" className="bg-green-100 text-green-800 hover:bg-green-100">Imported</Badge>
+      ),
+  },
+];
+
+// Brings past donations or registrations in from a spreadsheet: upload a CSV,
+// match its columns to fields, check every row, then import the valid ones
+// as a batch that can be undone
+const Import = () => {
+  const { data: imports = [], isLoading, error, refetch } = useImports();
+  const { data: events = [] } = useEvents();
+  const [step, setStep] = useState<Step>('upload');
+  const [entityType, setEntityType] = useState<ImportEntityType>('donation');
+  const [eventId, setEventId] = useState(NO_EVENT);
+  const [csv, setCsv] = useState<CsvFile | null>(null);
+  const [mapping, setMapping] = useState<Record<string, number>>({});
+  const [preview, setPreview] = useState<PreviewRow[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [undoTarget, setUndoTarget] = useState<ImportBatch | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
+
+  const fields = IMPORT_FIELDS[entityType];
+  const missingFields = fields.filter((field) => field.required && mapping[field.key] === undefined);
+
+  const validCount = useMemo(() => preview.filter((row) => row.status === 'valid').length, [preview]);
+
+  const previewColumns = useMemo<DataTableColumn<PreviewRow>[]>(
+    () => [
+      {
+        id: 'row',
+        header: 'Row',
+        sortValue: (row) => row.row,
+        cell: (row) => <span className="text-muted-foreground">{row.row}</span>,
+      },
+      ...fields
+        .filter((field) => mapping[field.key] !== undefined)
+        .map((field) => ({
+          id: field.key,
+          header: field.label,
+          sortValue: (row: PreviewRow) => row.values[field.key],
+          cell: (row: PreviewRow) => row.values[field.key] || '—',
+        })),
+      {
+        id: 'status',
+        header: 'Status',
+        align: 'center',
+        sortValue: (row) => row.status,
+        cell: (row) => (
+          <div className="flex flex-col items-center gap-1">
+            <Badge variant="outline" className={ROW_STATUSES[row.status].className}>
+              {ROW_STATUSES[row.status].label}
+            </Badge>
+            {row.status !== 'valid' && (
+              <span className="text-xs text-muted-foreground max-w-xs">{describeProblems(entityType, row)}</span>
+            )}
+          </div>
+        ),
+      },
+    ],
+    [entityType, fields, mapping]
+  );
+
+  const reset = () => {
+    setStep('upload');
+    setCsv(null);
+    setMapping({});
+    setPreview([]);
+  };
+
+  const buildRequest = (): ImportRequest => ({
+    entityType,
+    fileName: csv?.name ?? 'import.csv',
+    eventId: entityType === 'registration' && eventId !== NO_EVENT ? eventId : undefined,
+    rows: (csv?.rows ?? []).map((cells) =>
+      Object.fromEntries(Object.entries(mapping).map(([key, index]) => [key, cells[index] ?? '']))
+    ),
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const [headers = [], ...rows] = parseCsv(await file.text());
+      // Spreadsheets often end with blank lines
+      const dataRows = rows.filter((cells) => cells.some((cell) => cell.trim()));
+
+      if (!headers.length || !dataRows.length) {
+        toast.error('That file has no rows to import', {
+          description: 'The first row should be column headers, with one record per row below it.',
+        });
+        return;
+      }
+
+      if (dataRows.length > MAX_IMPORT_ROWS) {
+        toast.error(`That file has ${dataRows.length} rows`, {
+          description: `Up to ${MAX_IMPORT_ROWS} rows can be imported at once. Split the file and import each part.`,
+        });
+        return;
+      }
+
+      setCsv({ name: file.name, headers, rows: dataRows });
+      setMapping(guessColumnMapping(entityType, headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      toast.error('Failed to read file', {
+        description: error instanceof Error ? error.message : 'Please check it is a CSV file',
+      });
+    }
+  };
+
+  const handleMap = (fieldKey: string, value: string) => {
+    setMapping(({ [fieldKey]: _previous, ...rest }) =>
+      value === NOT_MAPPED ? rest : { ...rest, [fieldKey]: Number(value) }
+    );
+  };
+
+  const handlePreview = async () => {
+    try {
+      setIsWorking(true);
+      const request = buildRequest();
+      const { rows } = await previewImport(request);
+      setPreview(rows.map((row) => ({ ...row, values: request.rows[row.row - 1] })));
+      setStep('preview');
+    } catch (error) {
+      console.error('Error checking import:', error);
+      toast.error('Failed to check rows', {
+        description: error instanceof Error ? error.message : 'Please try again or contact support',
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      setIsWorking(true);
+      const result = await importRecords(buildRequest());
+      toast.success(`${result.imported} ${ENTITY_LABELS[entityType].toLowerCase()} imported`, {
+        description: result.skipped ? `${result.skipped} invalid or duplicate row(s) were skipped.` : undefined,
+      });
+      reset();
+    } catch (error) {
+      console.error('Error importing records:', error);
+      toast.error('Failed to import', {
+        description: error instanceof Error ? error.message : 'Please try again or contact support',
+      });
+    } finally {
+      setIsWorking(false);
+      refetch();
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!undoTarget) return;
+
+    try {
+      setIsUndoing(true);
+      const { undone } = await undoImport(undoTarget.id);
+      toast.success('Import undone', { description: `${undone} record(s) from ${undoTarget.file_name} were removed.` });
+    } catch (error) {
+      console.error('Error undoing import:', error);
+      toast.error('Failed to undo import', {
+        description: error instanceof Error ? error.message : 'Please try again or contact support',
+      });
+    } finally {
+      setIsUndoing(false);
+      setUndoTarget(null);
+      refetch();
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {step === 'preview' ? (
+        <DataTable
+          title={`Check ${csv?.name}`}
+          data={preview}
+          columns={previewColumns}
+          getRowId={(row) => String(row.row)}
+          searchText={(row) => Object.values(row.values).join(' ')}
+          searchPlaceholder="Search rows..."
+          filters={previewFilters}
+          emptyMessage="No rows"
+          toolbar={
+            <>
+              <Button variant="outline" className="rounded-xl" onClick={() => setStep('map')} disabled={isWorking}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <Button className="rounded-xl" onClick={handleImport} disabled={isWorking || validCount === 0}>
+                {isWorking
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : <Upload className="h-4 w-4 mr-2" />}
+                Import {validCount} of {preview.length}
+              </Button>
+            </>
+          }
+        />
+      ) : (
+        <Card className="rounded-xl shadow-medium overflow-hidden">
+          <CardHeader className="bg-primary/5">
+            <CardTitle>Import from CSV</CardTitle>
+          </CardHeader>
+          <CardContent className="p-6 space-y-6">
+            {step === 'upload' && (
+              <>
+                <div className="space-y-2">
+                  <Label>What does the file contain?</Label>
+                  <RadioGroup
+                    value={entityType}
+                    onValueChange={(value) => setEntityType(value as ImportEntityType)}
+                    className="flex gap-6"
+                  >
+                    {(Object.keys(ENTITY_LABELS) as ImportEntityType[]).map((value) => (
+                      <div key={value} className="flex items-center space-x-2">
+                        <RadioGroupItem value={value} id={`import-entity-${value}`} />
+                        <Label htmlFor={`import-entity-${value}`}>{ENTITY_LABELS[value]}</Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+
+                {entityType === 'registration' && (
+                  <div className="space-y-2">
+                    <Label>Event</Label>
+                    <Select value={eventId} onValueChange={setEventId}>
+                      <SelectTrigger className="max-w-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_EVENT}>No event</SelectItem>
+                        {events.map((event) => (
+                          <SelectItem key={event.id} value={event.id}>{event.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground">
+                      The Registrations page lists one event at a time, so choose the event these families
+                      signed up for.
+                    </p>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="import-file">CSV file</Label>
+                  <Input
+                    id="import-file"
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="max-w-sm"
+                    onChange={(e) => {
+                      handleFile(e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    The first row should be column headers. Up to {MAX_IMPORT_ROWS} rows at a time.
+                  </p>
+                </div>
+              </>
+            )}
+
+            {step === 'map' && csv && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {csv.name}: {csv.rows.length} row(s). Choose the column that holds each field; columns that
+                  aren't chosen are ignored.
+                </p>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {fields.map((field) => (
+                    <div key={field.key} className="space-y-2">
+                      <Label>
+                        {field.label}
+                        {field.required && <span className="text-destructive"> *</span>}
+                      </Label>
+                      <Select
+                        value={mapping[field.key] === undefined ? NOT_MAPPED : String(mapping[field.key])}
+                        onValueChange={(value) => handleMap(field.key, value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_MAPPED}>Not in this file</SelectItem>
+                          {csv.headers.map((header, index) => (
+                            <SelectItem key={index} value={String(index)}>
+                              {header || `Column ${index + 1}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {mapping[field.key] !== undefined && (
+                        <p className="text-xs text-muted-foreground truncate">
+                          e.g. {csv.rows[0][mapping[field.key]] || '(blank)'}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {missingFields.length > 0 && (
+                  <p className="text-sm text-destructive">
+                    Still needed: {missingFields.map((field) => field.label).join(', ')}
+                  </p>
+                )}
+
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={reset} disabled={isWorking}>
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Choose Another File
+                  </Button>
+                  <Button onClick={handlePreview} disabled={isWorking || missingFields.length > 0}>
+                    {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Check Rows
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <DataTable
+        title="Past Imports"
+        data={imports}
+        columns={importColumns}
+        getRowId={(batch) => batch.id}
+        isLoading={isLoading}
+        searchText={(batch) => `${batch.file_name} ${batch.imported_by}`}
+        searchPlaceholder="Search imports..."
+        rowActions={(batch) =>
+          !batch.undone_at && (
+            <Button variant="outline" size="sm" className="h-8" onClick={() => setUndoTarget(batch)}>
+              <Undo2 className="h-3.5 w-3.5 mr-1" />
+              Undo
+            </Button>
+          )}
+        emptyMessage={error ? 'Failed to load imports' : 'Nothing imported yet'}
+      />
+
+      <AlertDialog open={!!undoTarget} onOpenChange={(open) => !open && !isUndoing && setUndoTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Undo this import?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The {undoTarget?.row_count} {ENTITY_LABELS[undoTarget?.entity_type as ImportEntityType]?.toLowerCase()}{' '}
+              imported from {undoTarget?.file_name} will be deleted, including any changes made to them since.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isUndoing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleUndo();
+              }}
+              disabled={isUndoing}
+            >
+              {isUndoing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Undo Import
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Import;
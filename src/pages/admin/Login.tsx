@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Lock } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAdminAuth } from '@/hooks/use-admin-auth';
+
+const Login = () => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { adminUser, signIn } = useAdminAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Back to the admin page that sent us here, if any
+  const from = location.state?.from?.pathname || '/admin';
+
+  if (adminUser) {
+    return <Navigate to={from} replace />;
+  }
+  
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    
+    try {
+      await signIn(email, password);
+      toast.success("Logged in successfully", {
+        description: "Welcome to the admin panel",
+      });
+      navigate(from, { replace: true });
+    } catch (error) {
+      console.error("Login error:", error);
+      toast.error("Login failed", {
+        description: error instanceof Error ? error.message : "Please try again with the correct email and password",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+  
+  return (
+    <div className="min-h-screen py-12 px-4 sm:px-6 bg-gradient-to-b from-background to-secondary/30">
+      <motion.div 
+        className="max-w-md mx-auto mt-20"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <Card className="rounded-xl overflow-hidden shadow-medium">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center">Admin Login</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleLogin} className="space-y-4">
+              <div className="space-y-2">
+                <div className="relative">
+                  <Input
+                    type="email"
+                    placeholder="Enter email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="pr-10 rounded-xl h-12"
+                    disabled={loading}
+                  />
+                </div>
+                <div className="relative">
+                  <Input
+                    type="password"
+                    placeholder="Enter password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="pr-10 rounded-xl h-12"
+                    disabled={loading}
+                  />
+                  <Lock className="absolute right-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Use the credentials provided by your administrator.
+                </p>
+              </div>
+              
+              <Button 
+                type="submit" 
+                className="w-full rounded-xl h-12 btn-hover-effect"
+                disabled={loading}
+              >
+                {loading ? 'Logging in...' : 'Login to Admin Panel'}
+              </Button>
+              
+              <div className="text-center">
+                <a href="/" className="text-sm text-primary hover:text-primary/80 transition-colors">
+                  Return to registration
+                </a>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+};
+
+export default Login;
@@ -0,0 +1,320 @@
+import React, { useMemo, useState } from 'react';
+import { Check, DollarSign, Hourglass, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import DataTable, { type DataTableColumn, type DataTableFilter } from '@/components/DataTable';
+import MatchReceivedDialog from '@/components/MatchReceivedDialog';
+import StatCard from '@/components/StatCard';
+import StatusBadge from '@/components/StatusBadge';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { useAdminAuth } from '@/hooks/use-admin-auth';
+import { useAdminDonations } from '@/hooks/use-admin-donations';
+import type { MatchingGiftStatus } from '@/lib/matching-gifts';
+
+type Donation = Tables<'donations'>;
+
+type EmployerSummary = {
+  employer: string;
+  giftCount: number;
+  expected: number;
+  received: number;
+};
+
+const MATCH_STATUSES: Record<MatchingGiftStatus, { label: string; className: string }> = {
+  eligible: { label: 'Eligible', className: 'bg-amber-100 text-amber-800 hover:bg-amber-100' },
+  submitted: { label: 'Submitted', className: 'bg-blue-100 text-blue-800 hover:bg-blue-100' },
+  received: { label: 'Received', className: 'bg-green-100 text-green-800 hover:bg-green-100' },
+};
+
+const donorName = (don: Donation) => `${don.first_name.trim()} ${don.last_name.trim()}`.trim();
+
+// A fully refunded gift won't be matched, so it drops out of the follow-up queue and the totals
+const isMatchable = (don: Donation) => don.status === 'completed' || don.status === 'partially_refunded';
+
+const isOutstanding = (don: Donation) =>
+  isMatchable(don) && (don.matching_gift_status === 'eligible' || don.matching_gift_status === 'submitted');
+
+const formatAmount = (value: number) => `$${value.toFixed(2)}`;
+
+const filters: DataTableFilter<Donation>[] = [
+  { value: 'outstanding', label: 'Needs Follow-up', matches: isOutstanding },
+  { value: 'all', label: 'All', matches: () => true },
+  ...(Object.keys(MATCH_STATUSES) as MatchingGiftStatus[]).map((status) => ({
+    value: status,
+    label: MATCH_STATUSES[status].label,
+    matches: (don: Donation) => don.matching_gift_status === status,
+  })),
+];
+
+const columns: DataTableColumn<Donation>[] = [
+  {
+    id: 'employer',
+    header: 'Employer',
+    sortValue: (don) => don.employer_name,
+    cell: (don) => <span className="font-medium">{don.employer_name}</span>,
+  },
+  {
+    id: 'name',
+    header: 'Donor',
+    sortValue: donorName,
+    cell: (don) => (
+      <div>
+        <p className="font-medium">{donorName(don)}</p>
+        <p className="text-sm text-muted-foreground">{don.email}</p>
+      </div>
+    ),
+  },
+  {
+    id: 'amount',
+    header: 'Gift',
+    align: 'center',
+    sortValue: (don) => Number(don.amount),
+    cell: (don) => (
+      <div className="flex flex-col items-center gap-1">
+        {formatAmount(Number(don.amount))}
+        {don.status !== 'completed' && <StatusBadge status={don.status} />}
+      </div>
+    ),
+  },
+  {
+    id: 'created_at',
+    header: 'Date',
+    align: 'center',
+    sortValue: (don) => don.created_at,
+    cell: (don) => new Date(don.created_at).toLocaleDateString(),
+  },
+  {
+    id: 'match',
+    header: 'Match',
+    align: 'center',
+    sortValue: (don) => Number(don.matching_gift_received_amount ?? don.matching_gift_expected_amount),
+    cell: (don) => (
+      <div className="flex flex-col items-center">
+        {don.matching_gift_received_amount !== null
+          ? formatAmount(Number(don.matching_gift_received_amount))
+          : formatAmount(Number(don.matching_gift_expected_amount))}
+        {don.matching_gift_received_amount !== null && (
+          <span className="text-xs text-muted-foreground">
+            of {formatAmount(Number(don.matching_gift_expected_amount))} expected
+          </span>
+        )}
+      </div>
+    ),
+  },
+  {
+    id: 'status',
+    header: 'Status',
+    align: 'center',
+    sortValue: (don) => don.matching_gift_status,
+    cell: (don) => {
+      const style = MATCH_STATUSES[don.matching_gift_status as MatchingGiftStatus];
+
+      return (
+        <div className="flex flex-col items-center gap-1">
+          <Badge variant="outline" className={style?.className}>
+            {style?.label ?? don.matching_gift_status}
+          </Badge>
+          {don.matching_gift_updated_at && (
+            <span className="text-xs text-muted-foreground">
+              {new Date(don.matching_gift_updated_at).toLocaleDateString()}
+            </span>
+          )}
+        </div>
+      );
+    },
+  },
+];
+
+const employerColumns: DataTableColumn<EmployerSummary>[] = [
+  {
+    id: 'employer',
+    header: 'Employer',
+    sortValue: (summary) => summary.employer,
+    cell: (summary) => <span className="font-medium">{summary.employer}</span>,
+  },
+  {
+    id: 'giftCount',
+    header: 'Gifts',
+    align: 'center',
+    sortValue: (summary) => summary.giftCount,
+    cell: (summary) => summary.giftCount,
+  },
+  {
+    id: 'expected',
+    header: 'Expected',
+    align: 'center',
+    sortValue: (summary) => summary.expected,
+    cell: (summary) => formatAmount(summary.expected),
+  },
+  {
+    id: 'received',
+    header: 'Received',
+    align: 'center',
+    sortValue: (summary) => summary.received,
+    cell: (summary) => formatAmount(summary.received),
+  },
+];
+
+// Gifts donors said their employer would match, and the follow-up with each company
+const MatchingGifts = () => {
+  const { can } = useAdminAuth();
+  const { data: donations = [], isLoading, refetch } = useAdminDonations();
+  const [receivedTarget, setReceivedTarget] = useState<Donation | null>(null);
+
+  const matchingGifts = useMemo(
+    () => donations.filter((don) => don.matching_gift_status),
+    [donations]
+  );
+
+  const stats = useMemo(() => {
+    const matchable = matchingGifts.filter(isMatchable);
+    const outstanding = matchable.filter(isOutstanding);
+    const received = matchable.filter((don) => don.matching_gift_status === 'received');
+
+    return {
+      totalExpected: matchable.reduce((sum, don) => sum + Number(don.matching_gift_expected_amount), 0),
+      totalOutstanding: outstanding.reduce((sum, don) => sum + Number(don.matching_gift_expected_amount), 0),
+      outstandingCount: outstanding.length,
+      submittedCount: outstanding.filter((don) => don.matching_gift_status === 'submitted').length,
+      totalReceived: received.reduce((sum, don) => sum + Number(don.matching_gift_received_amount), 0),
+      receivedCount: received.length,
+    };
+  }, [matchingGifts]);
+
+  const employers = useMemo(() => {
+    const summaries = new Map<string, EmployerSummary>();
+
+    for (const don of matchingGifts.filter(isMatchable)) {
+      const employer = don.employer_name ?? 'Unknown';
+      const summary = summaries.get(employer.toLowerCase()) ?? { employer, giftCount: 0, expected: 0, received: 0 };
+
+      summary.giftCount += 1;
+      summary.expected += Number(don.matching_gift_expected_amount);
+      summary.received += Number(don.matching_gift_received_amount ?? 0);
+      summaries.set(employer.toLowerCase(), summary);
+    }
+
+    return [...summaries.values()];
+  }, [matchingGifts]);
+
+  const updateMatchingGift = async (
+    don: Donation,
+    update: Pick<TablesUpdate<'donations'>, 'matching_gift_status' | 'matching_gift_received_amount'>
+  ) => {
+    try {
+      const { error } = await supabase
+        .from('donations')
+        .update({ ...update, matching_gift_updated_at: new Date().toISOString() })
+        .eq('id', don.id);
+
+      if (error) throw error;
+
+      toast.success(`Match from ${don.employer_name} marked ${update.matching_gift_status}`);
+      refetch();
+    } catch (error) {
+      console.error('Error updating matching gift:', error);
+      toast.error('Failed to update matching gift', {
+        description: error instanceof Error ? error.message : 'Please try again or contact support',
+      });
+    }
+  };
+
+  const renderActions = (don: Donation) =>
+    can('donations.update_status') && isMatchable(don) && (
+      <>
+        {don.matching_gift_status === 'eligible' && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8"
+            onClick={() => updateMatchingGift(don, { matching_gift_status: 'submitted' })}
+          >
+            <Send className="h-3.5 w-3.5 mr-1" />
+            Mark Submitted
+          </Button>
+        )}
+        {don.matching_gift_status !== 'received' && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 bg-green-50 text-green-700 hover:bg-green-100 hover:text-green-800"
+            onClick={() => setReceivedTarget(don)}
+          >
+            <Check className="h-3.5 w-3.5 mr-1" />
+            Mark Received
+          </Button>
+        )}
+      </>
+    );
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatCard
+          icon={DollarSign}
+          iconClassName="bg-purple-100 text-purple-700"
+          label="Expected Match Revenue"
+          value={formatAmount(stats.totalExpected)}
+          note={`from ${matchingGifts.filter(isMatchable).length} matchable gifts`}
+        />
+        <StatCard
+          icon={Hourglass}
+          iconClassName="bg-amber-100 text-amber-700"
+          label="Outstanding"
+          value={formatAmount(stats.totalOutstanding)}
+          note={`${stats.outstandingCount} gifts, ${stats.submittedCount} submitted to employers`}
+        />
+        <StatCard
+          icon={Check}
+          iconClassName="bg-green-100 text-green-700"
+          label="Received"
+          value={formatAmount(stats.totalReceived)}
+          note={`${stats.receivedCount} matches paid`}
+        />
+      </div>
+
+      <DataTable
+        title="Matching Gifts"
+        data={matchingGifts}
+        columns={columns}
+        getRowId={(don) => don.id}
+        isLoading={isLoading}
+        searchText={(don) => `${don.employer_name ?? ''} ${donorName(don)} ${don.email}`}
+        searchPlaceholder="Search matching gifts..."
+        filters={filters}
+        rowActions={renderActions}
+        emptyMessage="No matching gifts found"
+      />
+
+      <DataTable
+        title="By Employer"
+        data={employers}
+        columns={employerColumns}
+        getRowId={(summary) => summary.employer}
+        isLoading={isLoading}
+        searchText={(summary) => summary.employer}
+        searchPlaceholder="Search employers..."
+        initialSort={{ columnId: 'expected', direction: 'desc' }}
+        emptyMessage="No employers yet"
+      />
+
+      {receivedTarget && (
+        <MatchReceivedDialog
+          employerName={receivedTarget.employer_name ?? 'The employer'}
+          donorName={donorName(receivedTarget)}
+          expectedAmount={Number(receivedTarget.matching_gift_expected_amount)}
+          onClose={() => setReceivedTarget(null)}
+          onConfirm={(receivedAmount) =>
+            updateMatchingGift(receivedTarget, {
+              matching_gift_status: 'received',
+              matching_gift_received_amount: receivedAmount,
+            })}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MatchingGifts;
@@ -0,0 +1,232 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, CreditCard, Database, ExternalLink, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import DataTable, { type DataTableColumn, type DataTableFilter } from '@/components/DataTable';
+import StatCard from '@/components/StatCard';
+import StatusBadge from '@/components/StatusBadge';
+import { useReconciliation } from '@/hooks/use-reconciliation';
+import type { ReconciliationIssue, ReconciliationItem } from '@/lib/reconciliation';
+
+const ISSUES: Record<ReconciliationIssue, { label: string; className: string }> = {
+  missing_payment: { label: 'No Stripe payment', className: 'bg-red-100 text-red-800 hover:bg-red-100' },
+  amount_mismatch: { label: 'Amount mismatch', className: 'bg-amber-100 text-amber-800 hover:bg-amber-100' },
+  status_mismatch: { label: 'Status out of date', className: 'bg-amber-100 text-amber-800 hover:bg-amber-100' },
+  missing_record: { label: 'No record', className: 'bg-red-100 text-red-800 hover:bg-red-100' },
+  orphan_payment: { label: 'Orphan payment', className: 'bg-purple-100 text-purple-800 hover:bg-purple-100' },
+};
+
+const KIND_LABELS = {
+  registration: 'Registration',
+  donation: 'Donation',
+};
+
+// Statuses that say the money was received, whatever has been refunded since
+const PAID_STATUSES = ['paid', 'completed', 'partially_refunded', 'refunded'];
+
+const formatAmount = (value: number | null) => (value === null ? '—' : `$${value.toFixed(2)}`);
+
+// yyyy-mm-dd in the browser's time zone, for the date inputs
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const filters: DataTableFilter<ReconciliationItem>[] = [
+  { value: 'issues', label: 'Needs Attention', matches: (item) => !!item.issue },
+  { value: 'all', label: 'All', matches: () => true },
+  { value: 'matched', label: 'Matched', matches: (item) => !item.issue },
+  {
+    value: 'records',
+    label: 'Record Problems',
+    matches: (item) => ['missing_payment', 'amount_mismatch', 'status_mismatch'].includes(item.issue ?? ''),
+  },
+  {
+    value: 'payments',
+    label: 'Unrecorded Payments',
+    matches: (item) => item.issue === 'missing_record' || item.issue === 'orphan_payment',
+  },
+];
+
+const columns: DataTableColumn<ReconciliationItem>[] = [
+  {
+    id: 'created',
+    header: 'Date',
+    sortValue: (item) => item.created,
+    cell: (item) => new Date(item.created).toLocaleDateString(),
+  },
+  {
+    id: 'name',
+    header: 'Record',
+    sortValue: (item) => item.name,
+    cell: (item) => (
+      <div>
+        <p className="font-medium">{item.name || 'Unknown payer'}</p>
+        {item.email && <p className="text-sm text-muted-foreground">{item.email}</p>}
+        <Badge variant="outline" className="mt-1 bg-gray-100 text-gray-800">
+          {item.kind ? KIND_LABELS[item.kind] : 'Unknown'}
+        </Badge>
+      </div>
+    ),
+  },
+  {
+    id: 'paymentId',
+    header: 'Payment',
+    sortValue: (item) => item.paymentId,
+    cell: (item) => <span className="font-mono text-xs">{item.paymentId || '—'}</span>,
+  },
+  {
+    id: 'recordAmount',
+    header: 'Recorded',
+    align: 'center',
+    sortValue: (item) => item.recordAmount,
+    cell: (item) => (
+      <div className="flex flex-col items-center gap-1">
+        {formatAmount(item.recordAmount)}
+        {item.recordStatus && <StatusBadge status={item.recordStatus} />}
+      </div>
+    ),
+  },
+  {
+    id: 'stripeAmount',
+    header: 'Stripe',
+    align: 'center',
+    sortValue: (item) => item.stripeAmount,
+    cell: (item) => (
+      <div className="flex flex-col items-center">
+        {formatAmount(item.stripeAmount)}
+        {!!item.stripeRefunded && (
+          <span className="text-xs text-muted-foreground">{formatAmount(item.stripeRefunded)} refunded</span>
+        )}
+        {item.stripeStatus && item.stripeStatus !== 'succeeded' && (
+          <span className="text-xs text-muted-foreground">{item.stripeStatus.replace(/_/g, ' ')}</span>
+        )}
+      </div>
+    ),
+  },
+  {
+    id: 'issue',
+    header: 'Result',
+    align: 'center',
+    sortValue: (item) => item.issue,
+    cell: (item) =>
+      item.issue ? (
+        <Badge variant="outline" className={ISSUES[item.issue].className}>
+          {ISSUES[item.issue].label}
+        </Badge>
+      ) : (
+        <Badge variant="outline" className="bg-green-100 text-green-800 hover:bg-green-100">
+          Matched
+        </Badge>
+      ),
+  },
+];
+
+// Stripe's settled payments for a date range, matched to registrations and donations
+const Reconciliation = () => {
+  const today = new Date();
+  const [from, setFrom] = useState(toDateInput(new Date(today.getFullYear(), today.getMonth(), 1)));
+  const [to, setTo] = useState(toDateInput(today));
+  const { data: report, isLoading, error } = useReconciliation(from, to);
+
+  const items = useMemo(() => report?.items ?? [], [report]);
+
+  const stats = useMemo(() => {
+    const charged = items.filter((item) => item.stripeStatus === 'succeeded');
+    const recorded = items.filter((item) => item.recordStatus && PAID_STATUSES.includes(item.recordStatus));
+
+    return {
+      totalCharged: charged.reduce((sum, item) => sum + (item.stripeAmount ?? 0), 0),
+      totalRefunded: charged.reduce((sum, item) => sum + (item.stripeRefunded ?? 0), 0),
+      totalRecorded: recorded.reduce((sum, item) => sum + (item.recordAmount ?? 0), 0),
+      totalIssues: items.filter((item) => item.issue).length,
+    };
+  }, [items]);
+
+  const renderActions = (item: ReconciliationItem) =>
+    report?.source === 'stripe' && item.paymentId?.startsWith('pi_') && (
+      <Button variant="outline" size="sm" className="h-8" asChild>
+        <a href={`https://dashboard.stripe.com/payments/${item.paymentId}`} target="_blank" rel="noreferrer">
+          <ExternalLink className="h-3.5 w-3.5 mr-1" />
+          Stripe
+        </a>
+      </Button>
+    );
+
+  return (
+    <div className="space-y-8">
+      {report?.source === 'fixture' && (
+        <div className="flex items-center rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          <AlertTriangle className="h-4 w-4 mr-2 shrink-0" />
+          Showing sample payments from the server's reconciliation fixture, not your Stripe account.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <StatCard
+          icon={CreditCard}
+          iconClassName="bg-blue-100 text-blue-700"
+          label="Charged in Stripe"
+          value={formatAmount(stats.totalCharged)}
+        />
+        <StatCard
+          icon={Database}
+          iconClassName="bg-green-100 text-green-700"
+          label="Recorded as Paid"
+          value={formatAmount(stats.totalRecorded)}
+        />
+        <StatCard
+          icon={RotateCcw}
+          iconClassName="bg-gray-100 text-gray-700"
+          label="Refunded in Stripe"
+          value={formatAmount(stats.totalRefunded)}
+        />
+        <StatCard
+          icon={AlertTriangle}
+          iconClassName="bg-amber-100 text-amber-700"
+          label="Needs Attention"
+          value={stats.totalIssues}
+          note={`of ${items.length} payments and records`}
+        />
+      </div>
+
+      <DataTable
+        title="Reconciliation"
+        data={items}
+        columns={columns}
+        getRowId={(item) => `${item.recordId ?? ''}:${item.paymentId ?? ''}`}
+        isLoading={isLoading}
+        searchText={(item) => `${item.name ?? ''} ${item.email ?? ''} ${item.paymentId ?? ''}`}
+        searchPlaceholder="Search payments..."
+        filters={filters}
+        rowActions={renderActions}
+        emptyMessage={
+          error
+            ? error instanceof Error ? error.message : 'Failed to load reconciliation'
+            : 'Nothing to reconcile in this range'
+        }
+        toolbar={
+          <>
+            <Input
+              type="date"
+              aria-label="From"
+              className="w-40 rounded-xl"
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+            <Input
+              type="date"
+              aria-label="To"
+              className="w-40 rounded-xl"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </>
+        }
+      />
+    </div>
+  );
+};
+
+export default Reconciliation;
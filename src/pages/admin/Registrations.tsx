@@ -0,0 +1,332 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, DollarSign, Download, Loader2, RotateCcw, User, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import DataTable, { type DataTableColumn, type DataTableFilter } from '@/components/DataTable';
+import RefundDialog, { type RefundTarget } from '@/components/RefundDialog';
+import RegistrationDetailsDialog from '@/components/RegistrationDetailsDialog';
+import StatCard from '@/components/StatCard';
+import StatusBadge from '@/components/StatusBadge';
+import { supabase } from '@/integrations/supabase/client';
+import { useActiveEvent } from '@/hooks/use-active-event';
+import { useAdminAuth } from '@/hooks/use-admin-auth';
+import { useAdminRegistrations, useRegistrationTotals, type AdminRegistration } from '@/hooks/use-admin-registrations';
+import { downloadCsv } from '@/lib/csv';
+import { promoteRegistration } from '@/lib/waitlist';
+
+const filters: DataTableFilter<AdminRegistration>[] = [
+  { value: 'all', label: 'All', matches: () => true },
+  { value: 'paid', label: 'Paid', matches: (reg) => reg.payment_status === 'paid' },
+  { value: 'pending', label: 'Pending', matches: (reg) => reg.payment_status === 'pending' },
+  { value: 'waitlisted', label: 'Waitlisted', matches: (reg) => reg.payment_status === 'waitlisted' },
+  {
+    value: 'refunded',
+    label: 'Refunded',
+    matches: (reg) => reg.payment_status === 'refunded' || reg.payment_status === 'partially_refunded',
+  },
+];
+
+// Registrations paid (or being paid) through Stripe carry the PaymentIntent id
+const hasStripePayment = (reg: AdminRegistration) => !!reg.transaction_id?.startsWith('pi_');
+
+const columns: DataTableColumn<AdminRegistration>[] = [
+  {
+    id: 'name',
+    header: 'Name',
+    sortValue: (reg) => reg.name,
+    cell: (reg) => (
+      <div>
+        {reg.contact_id ? (
+          <Link to={`/admin/contacts/${reg.contact_id}`} className="font-medium hover:underline">
+            {reg.name}
+          </Link>
+        ) : (
+          <p className="font-medium">{reg.name}</p>
+        )}
+        <p className="text-sm text-muted-foreground">{reg.email}</p>
+        {reg.is_tulip_parent && (
+          <Badge variant="outline" className="mt-1 bg-blue-100 text-blue-800">
+            Tulip Parent
+          </Badge>
+        )}
+      </div>
+    ),
+  },
+  {
+    id: 'family_category',
+    header: 'Family Type',
+    sortValue: (reg) => reg.family_category,
+    cell: (reg) => reg.family_category,
+  },
+  {
+    id: 'participants',
+    header: 'Participants',
+    align: 'center',
+    sortValue: (reg) => reg.adult_count + reg.kids_count,
+    cell: (reg) => reg.adult_count + reg.kids_count,
+  },
+  {
+    id: 'total_amount',
+    header: 'Amount',
+    align: 'center',
+    sortValue: (reg) => Number(reg.total_amount),
+    cell: (reg) => (
+      <div>
+        ${reg.total_amount}
+        {Number(reg.fee_covered_amount) > 0 && (
+          <p className="text-xs text-muted-foreground">+${Number(reg.fee_covered_amount).toFixed(2)} fees</p>
+        )}
+      </div>
+    ),
+  },
+  {
+    id: 'created_at',
+    header: 'Date',
+    align: 'center',
+    sortValue: (reg) => reg.created_at,
+    cell: (reg) => new Date(reg.created_at).toLocaleDateString(),
+  },
+  {
+    id: 'payment_status',
+    header: 'Status',
+    align: 'center',
+    sortValue: (reg) => reg.payment_status,
+    cell: (reg) => <StatusBadge status={reg.payment_status} />,
+  },
+];
+
+const Registrations = () => {
+  const { can } = useAdminAuth();
+  const { data: activeEvent, isLoading: isEventLoading } = useActiveEvent();
+  // Wait for the active event so only its registrations are loaded
+  const { data: registrations = [], isLoading, refetch } = useAdminRegistrations(activeEvent?.id, !isEventLoading);
+  const { data: totals, refetch: refetchTotals } = useRegistrationTotals(activeEvent?.id, !isEventLoading);
+  const [selectedRegistration, setSelectedRegistration] = useState<AdminRegistration | null>(null);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+  const [refundTarget, setRefundTarget] = useState<RefundTarget | null>(null);
+
+  // Summed by the database, so they cover every registration for the event
+  const stats = {
+    totalRegistrations: totals?.registration_count ?? 0,
+    totalParticipants: totals?.participant_count ?? 0,
+    totalPaid: totals?.paid_count ?? 0,
+    totalRevenue: totals?.revenue ?? 0,
+    totalFeesCovered: totals?.fees_covered ?? 0,
+    totalWaitlisted: totals?.waitlisted_count ?? 0,
+  };
+
+  const refresh = () => {
+    refetch();
+    refetchTotals();
+  };
+
+  // Stripe-backed registrations are marked paid by the webhook; changing them by
+  // hand would leave the record out of step with the charge
+  const handleUpdatePaymentStatus = async (reg: AdminRegistration, status: 'paid' | 'pending') => {
+    if (hasStripePayment(reg)) return;
+
+    try {
+      const { error } = await supabase
+        .from('registrations')
+        .update({
+          payment_status: status,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', reg.id);
+
+      if (error) throw error;
+
+      toast.success(`Payment status updated to ${status}`, {
+        description: `Registration #${reg.id.substring(0, 8)} has been marked as ${status}.`,
+      });
+
+      refresh();
+    } catch (error) {
+      console.error('Error updating payment status:', error);
+      toast.error('Failed to update payment status', {
+        description: 'Please try again or contact support',
+      });
+    }
+  };
+
+  const handlePromote = async (registration: AdminRegistration) => {
+    try {
+      setPromotingId(registration.id);
+      const { paymentUrl, emailSent } = await promoteRegistration(registration.id);
+
+      if (emailSent) {
+        toast.success('Payment link sent', {
+          description: `${registration.name} has been emailed a link to complete their registration.`,
+        });
+      } else {
+        toast.warning('Promoted, but the email could not be sent', {
+          description: `Share this payment link with ${registration.email}: ${paymentUrl}`,
+          duration: 20000,
+        });
+      }
+
+      refresh();
+    } catch (error) {
+      console.error('Error promoting registration:', error);
+      toast.error('Failed to promote registration', {
+        description: error instanceof Error ? error.message : 'Please try again or contact support',
+      });
+    } finally {
+      setPromotingId(null);
+    }
+  };
+
+  const handleExportData = () => {
+    downloadCsv(
+      'registrations',
+      ['Name', 'Email', 'Phone', 'Adults', 'Kids', 'Family Type', 'Amount', 'Fees Covered', 'Status', 'Transaction ID', 'Date', 'T-Shirt Sizes'],
+      registrations.map((reg) => [
+        reg.name,
+        reg.email,
+        reg.phone,
+        reg.adult_count,
+        reg.kids_count,
+        reg.family_category,
+        reg.total_amount,
+        reg.fee_covered_amount,
+        reg.payment_status,
+        reg.transaction_id || 'N/A',
+        new Date(reg.created_at).toLocaleDateString(),
+        reg.t_shirt_sizes ? reg.t_shirt_sizes.join(', ') : 'N/A',
+      ])
+    );
+  };
+
+  const renderActions = (reg: AdminRegistration) => (
+    <>
+      <Button
+        size="sm"
+        variant="outline"
+        className="rounded-lg h-8"
+        onClick={() => setSelectedRegistration(reg)}
+      >
+        View Details
+      </Button>
+      {reg.payment_status === 'waitlisted' ? (
+        can('registrations.promote') && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="rounded-lg h-8 bg-purple-50 text-purple-600 border-purple-200 hover:bg-purple-100 hover:text-purple-700"
+            onClick={() => handlePromote(reg)}
+            disabled={promotingId === reg.id}
+          >
+            {promotingId === reg.id && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Promote &amp; Send Payment Link
+          </Button>
+        )
+      ) : can('registrations.update_payment') && !hasStripePayment(reg) && (
+        reg.payment_status === 'pending' ? (
+          <Button
+            size="sm"
+            variant="outline"
+            className="rounded-lg h-8 bg-green-50 text-green-600 border-green-200 hover:bg-green-100 hover:text-green-700"
+            onClick={() => handleUpdatePaymentStatus(reg, 'paid')}
+          >
+            Mark as Paid
+          </Button>
+        ) : reg.payment_status === 'paid' && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="rounded-lg h-8 bg-amber-50 text-amber-600 border-amber-200 hover:bg-amber-100 hover:text-amber-700"
+            onClick={() => handleUpdatePaymentStatus(reg, 'pending')}
+          >
+            Mark as Pending
+          </Button>
+        )
+      )}
+      {can('payments.refund') && (reg.payment_status === 'paid' || reg.payment_status === 'partially_refunded') && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="rounded-lg h-8 bg-red-50 text-red-600 border-red-200 hover:bg-red-100 hover:text-red-700"
+          onClick={() => setRefundTarget({
+            entityType: 'registration',
+            id: reg.id,
+            payerName: reg.name,
+            payerEmail: reg.email,
+            amount: Number(reg.total_amount) + Number(reg.fee_covered_amount),
+            refunded: Number(reg.refunded_amount),
+          })}
+        >
+          <RotateCcw className="h-3 w-3 mr-1" />
+          Refund
+        </Button>
+      )}
+    </>
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <StatCard
+          icon={Users}
+          iconClassName="bg-blue-100 text-blue-700"
+          label="Total Registrations"
+          value={stats.totalRegistrations}
+          note={stats.totalWaitlisted > 0 && `+${stats.totalWaitlisted} waitlisted`}
+        />
+        <StatCard
+          icon={User}
+          iconClassName="bg-green-100 text-green-700"
+          label="Total Participants"
+          value={`${stats.totalParticipants}${activeEvent?.capacity ? `/${activeEvent.capacity}` : ''}`}
+        />
+        <StatCard
+          icon={Check}
+          iconClassName="bg-amber-100 text-amber-700"
+          label="Payments Completed"
+          value={`${stats.totalPaid}/${stats.totalRegistrations}`}
+        />
+        <StatCard
+          icon={DollarSign}
+          iconClassName="bg-purple-100 text-purple-700"
+          label="Total Revenue"
+          value={`$${stats.totalRevenue.toFixed(2)}`}
+          note={stats.totalFeesCovered > 0 && `+$${stats.totalFeesCovered.toFixed(2)} processing fees covered`}
+        />
+      </div>
+
+      <DataTable
+        title="Registrations"
+        data={registrations}
+        columns={columns}
+        getRowId={(reg) => reg.id}
+        isLoading={isEventLoading || isLoading}
+        searchText={(reg) => `${reg.name} ${reg.email} ${reg.family_category}`}
+        searchPlaceholder="Search registrations..."
+        filters={filters}
+        rowActions={renderActions}
+        emptyMessage="No registrations found"
+        toolbar={can('data.export') && (
+          <Button variant="outline" className="rounded-xl" onClick={handleExportData}>
+            <Download className="h-4 w-4 mr-2" /> Export
+          </Button>
+        )}
+      />
+
+      <RegistrationDetailsDialog
+        registration={selectedRegistration}
+        onClose={() => setSelectedRegistration(null)}
+      />
+
+      {refundTarget && (
+        <RefundDialog
+          target={refundTarget}
+          onClose={() => setRefundTarget(null)}
+          onRefunded={refresh}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Registrations;
@@ -0,0 +1,281 @@
+import React, { useMemo, useState } from 'react';
+import { Check, DollarSign, FileText, Loader2, Mail, Send, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import DataTable, { type DataTableColumn, type DataTableFilter } from '@/components/DataTable';
+import StatCard from '@/components/StatCard';
+import { useAdminAuth } from '@/hooks/use-admin-auth';
+import { useGivingStatements } from '@/hooks/use-giving-statements';
+import {
+  downloadGivingStatement,
+  sendGivingStatements,
+  type GivingStatementSummary,
+  type SendGivingStatementsResult,
+} from '@/lib/giving-statements';
+
+// Statements are usually sent early in the new year, for the year just ended
+const DEFAULT_YEAR = new Date().getFullYear() - 1;
+const YEARS = Array.from({ length: 5 }, (_, i) => new Date().getFullYear() - i);
+
+const filters: DataTableFilter<GivingStatementSummary>[] = [
+  { value: 'all', label: 'All', matches: () => true },
+  { value: 'unsent', label: 'Not Sent', matches: (statement) => !statement.sentAt },
+  { value: 'sent', label: 'Sent', matches: (statement) => !!statement.sentAt },
+];
+
+const columns: DataTableColumn<GivingStatementSummary>[] = [
+  {
+    id: 'name',
+    header: 'Donor',
+    sortValue: (statement) => statement.name,
+    cell: (statement) => (
+      <div>
+        <p className="font-medium">{statement.name}</p>
+        <p className="text-sm text-muted-foreground">{statement.email}</p>
+      </div>
+    ),
+  },
+  {
+    id: 'donationCount',
+    header: 'Gifts',
+    align: 'center',
+    sortValue: (statement) => statement.donationCount,
+    cell: (statement) => statement.donationCount,
+  },
+  {
+    id: 'total',
+    header: 'Total',
+    align: 'center',
+    sortValue: (statement) => statement.total,
+    cell: (statement) => `$${statement.total.toFixed(2)}`,
+  },
+  {
+    id: 'sentAt',
+    header: 'Statement',
+    align: 'center',
+    sortValue: (statement) => statement.sentAt,
+    cell: (statement) =>
+      statement.sentAt ? (
+        <Badge variant="default" className="bg-green-100 text-green-800 hover:bg-green-100">
+          <Check className="h-3 w-3 mr-1" /> Sent {new Date(statement.sentAt).toLocaleDateString()}
+        </Badge>
+      ) : (
+        <Badge variant="outline" className="bg-gray-100 text-gray-800 hover:bg-gray-100">
+          Not Sent
+        </Badge>
+      ),
+  },
+];
+
+const describeResult = ({ sent, skipped, failed }: SendGivingStatementsResult) =>
+  [
+    `${sent.length} sent`,
+    skipped.length > 0 && `${skipped.length} already sent`,
+    failed.length > 0 && `${failed.length} failed (${failed.map((f) => f.email).join(', ')})`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+// Year-end giving statements: one per donor, listing every completed gift that year
+const Statements = () => {
+  const { can } = useAdminAuth();
+  const [year, setYear] = useState(DEFAULT_YEAR);
+  const { data: statements = [], isLoading, error, refetch } = useGivingStatements(year);
+  const [sendingEmail, setSendingEmail] = useState<string | null>(null);
+  const [isSendingAll, setIsSendingAll] = useState(false);
+  const [confirmSendAll, setConfirmSendAll] = useState(false);
+
+  const stats = useMemo(() => {
+    const sent = statements.filter((statement) => statement.sentAt);
+
+    return {
+      totalDonors: statements.length,
+      totalSent: sent.length,
+      totalAmount: statements.reduce((sum, statement) => sum + statement.total, 0),
+    };
+  }, [statements]);
+
+  const unsentCount = stats.totalDonors - stats.totalSent;
+
+  const reportResult = (result: SendGivingStatementsResult) => {
+    if (result.failed.length) {
+      toast.warning(`${result.year} statements: some could not be sent`, {
+        description: describeResult(result),
+        duration: 20000,
+      });
+    } else {
+      toast.success(`${result.year} statements sent`, { description: describeResult(result) });
+    }
+  };
+
+  const handleSendAll = async () => {
+    try {
+      setIsSendingAll(true);
+      reportResult(await sendGivingStatements(year));
+    } catch (error) {
+      console.error('Error sending giving statements:', error);
+      toast.error('Failed to send statements', {
+        description: error instanceof Error ? error.message : 'Please try again or contact support',
+      });
+    } finally {
+      setIsSendingAll(false);
+      setConfirmSendAll(false);
+      refetch();
+    }
+  };
+
+  const handleSend = async (statement: GivingStatementSummary) => {
+    try {
+      setSendingEmail(statement.email);
+      reportResult(await sendGivingStatements(year, { emails: [statement.email], resend: true }));
+    } catch (error) {
+      console.error('Error sending giving statement:', error);
+      toast.error('Failed to send statement', {
+        description: error instanceof Error ? error.message : 'Please try again or contact support',
+      });
+    } finally {
+      setSendingEmail(null);
+      refetch();
+    }
+  };
+
+  const handleDownload = async (statement: GivingStatementSummary) => {
+    try {
+      await downloadGivingStatement(year, statement.email);
+    } catch (error) {
+      console.error('Error downloading giving statement:', error);
+      toast.error('Failed to download statement', {
+        description: error instanceof Error ? error.message : 'Please try again or contact support',
+      });
+    }
+  };
+
+  const renderActions = (statement: GivingStatementSummary) => (
+    <>
+      <Button variant="outline" size="sm" className="h-8" onClick={() => handleDownload(statement)}>
+        <FileText className="h-3.5 w-3.5 mr-1" />
+        PDF
+      </Button>
+      {can('donations.send_certificate') && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8"
+          onClick={() => handleSend(statement)}
+          disabled={isSendingAll || sendingEmail === statement.email}
+        >
+          {sendingEmail === statement.email
+            ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+            : <Mail className="h-3.5 w-3.5 mr-1" />}
+          {statement.sentAt ? 'Resend' : 'Send'}
+        </Button>
+      )}
+    </>
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatCard
+          icon={Users}
+          iconClassName="bg-blue-100 text-blue-700"
+          label={`Donors in ${year}`}
+          value={stats.totalDonors}
+        />
+        <StatCard
+          icon={Check}
+          iconClassName="bg-green-100 text-green-700"
+          label="Statements Sent"
+          value={`${stats.totalSent}/${stats.totalDonors}`}
+        />
+        <StatCard
+          icon={DollarSign}
+          iconClassName="bg-purple-100 text-purple-700"
+          label={`Given in ${year}`}
+          value={`$${stats.totalAmount.toFixed(2)}`}
+        />
+      </div>
+
+      <DataTable
+        title="Giving Statements"
+        data={statements}
+        columns={columns}
+        getRowId={(statement) => statement.email}
+        isLoading={isLoading}
+        searchText={(statement) => `${statement.name} ${statement.email}`}
+        searchPlaceholder="Search donors..."
+        filters={filters}
+        rowActions={renderActions}
+        emptyMessage={error ? 'Failed to load giving statements' : `No completed donations in ${year}`}
+        toolbar={
+          <>
+            <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+              <SelectTrigger className="w-28 rounded-xl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {YEARS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {can('donations.send_certificate') && (
+              <Button
+                className="rounded-xl"
+                onClick={() => setConfirmSendAll(true)}
+                disabled={isSendingAll || unsentCount === 0}
+              >
+                {isSendingAll
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : <Send className="h-4 w-4 mr-2" />}
+                Send {unsentCount} Unsent
+              </Button>
+            )}
+          </>
+        }
+      />
+
+      <AlertDialog open={confirmSendAll} onOpenChange={(open) => !isSendingAll && setConfirmSendAll(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Send {year} giving statements?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {unsentCount} donor(s) who haven't received their {year} statement will be emailed one now.
+              Donors who already have it are skipped.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSendingAll}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isSendingAll}
+              onClick={(e) => {
+                // Keep the dialog open until the job finishes
+                e.preventDefault();
+                handleSendAll();
+              }}
+            >
+              {isSendingAll && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send Statements
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Statements;
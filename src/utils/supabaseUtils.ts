@@ -1,6 +1,32 @@
+import type { PostgrestError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 
+// The most rows the Supabase API returns for one request
+const PAGE_SIZE = 1000;
+
+/**
+ * Reads every row of a query that can grow past the API's row limit, one page
+ * at a time. The query needs a stable order (e.g. ending with the id) so rows
+ * don't move between pages.
+ * @param page - runs the query for rows `from` to `to`, inclusive
+ */
+export const fetchAllRows = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    rows.push(...data);
+
+    if (data.length < PAGE_SIZE) return rows;
+  }
+};
+
 /**
  * Utility function to check if Supabase connection is working
  * @returns Promise<boolean> - true if connection is working, false otherwise
@@ -1,3 +1,844 @@
 -- Add certificate_sent column to donations table
 ALTER TABLE donations 
-ADD COLUMN certificate_sent BOOLEAN DEFAULT false;
\ No newline at end of file
+ADD COLUMN certificate_sent BOOLEAN DEFAULT false;
+
+-- Let the Stripe webhook upsert donations and registrations by PaymentIntent id
+CREATE UNIQUE INDEX IF NOT EXISTS donations_payment_id_key ON donations (payment_id);
+CREATE INDEX IF NOT EXISTS registrations_transaction_id_idx ON registrations (transaction_id);
+
+
+-- Configurable Tulip Trot pricing (see src/lib/pricing.js for how rules combine)
+CREATE TABLE IF NOT EXISTS pricing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('per_person', 'family_bundle', 'early_bird', 'tulip_parent_discount', 'cap')),
+  participant_type TEXT CHECK (participant_type IN ('adult', 'child')),
+  amount NUMERIC(10, 2),
+  percent_off NUMERIC(5, 2) CHECK (percent_off BETWEEN 0 AND 100),
+  min_adults INTEGER,
+  max_adults INTEGER,
+  min_kids INTEGER,
+  max_kids INTEGER,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  priority INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE pricing_rules ENABLE ROW LEVEL SECURITY;
+
+-- The registration form prices families in the browser, so active rules are public
+CREATE POLICY "Anyone can read active pricing rules"
+ON "public"."pricing_rules"
+FOR SELECT
+USING (active = true);
+
+INSERT INTO pricing_rules (name, rule_type, participant_type, amount) VALUES
+  ('Adult registration', 'per_person', 'adult', 20),
+  ('Child registration', 'per_person', 'child', 20);
+
+
+-- One row per Tulip Trot so each year is configured in data rather than code
+CREATE TABLE IF NOT EXISTS events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  starts_at TIMESTAMPTZ NOT NULL,
+  check_in_opens_at TIMESTAMPTZ,
+  timezone TEXT NOT NULL DEFAULT 'America/Los_Angeles',
+  venue_name TEXT NOT NULL,
+  venue_address TEXT,
+  registration_opens_at TIMESTAMPTZ,
+  registration_closes_at TIMESTAMPTZ,
+  t_shirt_deadline TIMESTAMPTZ,
+  capacity INTEGER CHECK (capacity > 0),
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Only one event can be promoted on the site at a time
+CREATE UNIQUE INDEX IF NOT EXISTS events_single_active_idx ON events (is_active) WHERE is_active;
+
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read events"
+ON "public"."events"
+FOR SELECT
+USING (true);
+
+INSERT INTO events (name, starts_at, check_in_opens_at, venue_name, venue_address, t_shirt_deadline, is_active)
+VALUES (
+  'Tulip Trot 2025',
+  '2025-05-04 09:30:00 America/Los_Angeles',
+  '2025-05-04 08:30:00 America/Los_Angeles',
+  'Santa Clara High School',
+  '3000 Benton St, Santa Clara, CA 95051',
+  '2025-04-15 23:59:59 America/Los_Angeles',
+  true
+);
+
+ALTER TABLE registrations
+ADD COLUMN event_id UUID REFERENCES events (id);
+
+-- Registrations taken before events existed all belong to the 2025 walk
+UPDATE registrations
+SET event_id = (SELECT id FROM events WHERE name = 'Tulip Trot 2025')
+WHERE event_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS registrations_event_id_idx ON registrations (event_id);
+
+ALTER TABLE pricing_rules
+ADD COLUMN event_id UUID REFERENCES events (id);
+
+
+-- Capacity and waitlist. payment_status may now also be 'waitlisted'.
+-- Pending registrations hold their spots until hold_expires_at so abandoned
+-- payments stop counting against events.capacity.
+ALTER TABLE registrations
+ADD COLUMN hold_expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS registrations_event_status_idx ON registrations (event_id, payment_status);
+
+
+-- One row per person on a registration, for name badges and the day-of roster
+CREATE TABLE IF NOT EXISTS participants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  registration_id UUID NOT NULL REFERENCES registrations (id) ON DELETE CASCADE,
+  participant_type TEXT NOT NULL CHECK (participant_type IN ('adult', 'child')),
+  position INTEGER NOT NULL DEFAULT 0,
+  name TEXT NOT NULL,
+  age INTEGER CHECK (age > 0),
+  t_shirt_size TEXT NOT NULL CHECK (t_shirt_size IN ('XS', 'S', 'M', 'L', 'XL', 'XXL')),
+  emergency_contact_name TEXT NOT NULL,
+  emergency_contact_phone TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS participants_registration_id_idx ON participants (registration_id, position);
+
+-- Children's details and emergency contacts: admins read them through the
+-- policy in supabase-policy.sql, and only the server writes them
+ALTER TABLE participants ENABLE ROW LEVEL SECURITY;
+
+
+-- Day-of check-in, recorded from the QR ticket at the registration desk
+ALTER TABLE registrations
+ADD COLUMN checked_in_at TIMESTAMPTZ,
+ADD COLUMN t_shirts_picked_up_at TIMESTAMPTZ;
+
+
+-- Unguessable tokens for the reload-safe confirmation pages linked from emails.
+-- The volatile default gives every existing row its own token.
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE registrations
+ADD COLUMN receipt_token TEXT NOT NULL DEFAULT encode(gen_random_bytes(24), 'hex');
+
+ALTER TABLE donations
+ADD COLUMN receipt_token TEXT NOT NULL DEFAULT encode(gen_random_bytes(24), 'hex');
+
+CREATE UNIQUE INDEX IF NOT EXISTS registrations_receipt_token_idx ON registrations (receipt_token);
+CREATE UNIQUE INDEX IF NOT EXISTS donations_receipt_token_idx ON donations (receipt_token);
+
+
+-- Admins sign in with Supabase Auth. Invite them from the Supabase dashboard
+-- (Authentication > Users) and add their email to admin_users; only emails
+-- listed there are let into /admin. Passwords now live in Supabase Auth.
+ALTER TABLE admin_users
+ALTER COLUMN password_hash DROP NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS admin_users_email_idx ON admin_users (lower(email));
+
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+
+-- Lets the admin panel confirm the signed-in user is an admin without exposing the list
+CREATE POLICY "Admins can read their own admin row"
+ON "public"."admin_users"
+FOR SELECT
+USING (lower(email) = lower(auth.email()));
+
+-- For use in RLS policies on admin-only tables
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM admin_users WHERE lower(email) = lower(auth.email()));
+$$;
+
+
+-- Admin roles; see src/lib/permissions.js for what each one may do.
+-- Admins added before roles existed keep full access as owners.
+ALTER TABLE admin_users
+ADD COLUMN role TEXT NOT NULL DEFAULT 'read_only'
+CHECK (role IN ('owner', 'finance', 'event_staff', 'volunteer_coordinator', 'read_only'));
+
+UPDATE admin_users SET role = 'owner';
+
+-- For RLS policies that only some roles pass
+CREATE OR REPLACE FUNCTION has_admin_role(roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM admin_users
+    WHERE lower(email) = lower(auth.email()) AND role = ANY (roles)
+  );
+$$;
+
+
+-- Audit log of admin changes. before/after hold only the columns that changed.
+-- Updates made with an admin's session are logged by the trigger below; the
+-- Express admin routes use the service role and log their own actions.
+CREATE TABLE audit_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_email TEXT,
+  entity_type TEXT NOT NULL,
+  entity_id UUID NOT NULL,
+  action TEXT NOT NULL,
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS audit_events_created_at_idx ON audit_events (created_at DESC);
+CREATE INDEX IF NOT EXISTS audit_events_entity_idx ON audit_events (entity_type, entity_id);
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for admins; rows are only ever added by the trigger and the server
+CREATE POLICY "Admins can read audit events"
+ON "public"."audit_events"
+FOR SELECT
+USING (is_admin());
+
+-- TG_ARGV[0] is the entity_type to record, e.g. 'registration'
+CREATE OR REPLACE FUNCTION log_admin_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := to_jsonb(OLD);
+  new_row JSONB := to_jsonb(NEW);
+  changed TEXT[];
+BEGIN
+  -- Webhooks and the server have no auth.email(); only admin sessions are logged here
+  IF auth.email() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT array_agg(key) INTO changed
+  FROM jsonb_object_keys(new_row) AS key
+  WHERE key <> 'updated_at' AND new_row -> key IS DISTINCT FROM old_row -> key;
+
+  IF changed IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO audit_events (actor_email, entity_type, entity_id, action, before, after)
+  VALUES (
+    auth.email(),
+    TG_ARGV[0],
+    NEW.id,
+    'update',
+    (SELECT jsonb_object_agg(key, old_row -> key) FROM unnest(changed) AS key),
+    (SELECT jsonb_object_agg(key, new_row -> key) FROM unnest(changed) AS key)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER registrations_audit
+AFTER UPDATE ON registrations
+FOR EACH ROW EXECUTE FUNCTION log_admin_update('registration');
+
+CREATE TRIGGER donations_audit
+AFTER UPDATE ON donations
+FOR EACH ROW EXECUTE FUNCTION log_admin_update('donation');
+
+
+-- Sequential numbers printed on donation tax receipts (TKF-000001, ...).
+-- Existing donations are numbered in insertion order.
+ALTER TABLE donations
+ADD COLUMN receipt_number BIGINT GENERATED BY DEFAULT AS IDENTITY UNIQUE;
+
+-- When the PDF receipt was last emailed; certificate_sent stays for older rows
+ALTER TABLE donations
+ADD COLUMN receipt_sent_at TIMESTAMPTZ;
+
+
+-- Year-end giving statements: one row per donor (by email) and calendar year,
+-- updated each time the statement is emailed
+CREATE TABLE giving_statements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  donation_count INTEGER NOT NULL,
+  total_amount NUMERIC NOT NULL,
+  sent_at TIMESTAMPTZ NOT NULL,
+  sent_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (email, year)
+);
+
+ALTER TABLE giving_statements ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the server
+CREATE POLICY "Admins can read giving statements"
+ON "public"."giving_statements"
+FOR SELECT
+USING (is_admin());
+
+
+-- Monthly and annual gifts, each backed by a Stripe subscription. Every paid
+-- invoice is recorded in donations with donation_type 'Recurring'.
+CREATE TABLE recurring_donations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  amount NUMERIC NOT NULL,
+  interval TEXT NOT NULL CHECK (interval IN ('month', 'year')),
+  designation TEXT NOT NULL,
+  is_anonymous BOOLEAN NOT NULL DEFAULT false,
+  stripe_customer_id TEXT NOT NULL,
+  stripe_subscription_id TEXT NOT NULL UNIQUE,
+  -- Mirrors the Stripe subscription status: incomplete, active, past_due, canceled, ...
+  status TEXT NOT NULL DEFAULT 'incomplete',
+  current_period_end TIMESTAMPTZ,
+  canceled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE recurring_donations ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the server
+CREATE POLICY "Admins can read recurring donations"
+ON "public"."recurring_donations"
+FOR SELECT
+USING (is_admin());
+
+ALTER TABLE donations
+ADD COLUMN recurring_donation_id UUID REFERENCES recurring_donations (id);
+
+
+-- Donors can pause a recurring gift from /my-giving; mirrors the Stripe
+-- subscription's pause_collection. Donors sign in with magic links generated
+-- by the server, so add SITE_URL/my-giving to Authentication > URL
+-- Configuration > Redirect URLs in the Supabase dashboard.
+ALTER TABLE recurring_donations
+ADD COLUMN is_paused BOOLEAN NOT NULL DEFAULT false;
+
+
+-- Stripe refunds issued from the admin dashboard. The registration or donation
+-- status itself is updated to refunded or partially_refunded alongside.
+CREATE TABLE refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('registration', 'donation')),
+  entity_id UUID NOT NULL,
+  payment_intent_id TEXT NOT NULL,
+  stripe_refund_id TEXT NOT NULL UNIQUE,
+  amount NUMERIC NOT NULL,
+  reason TEXT,
+  -- Stripe's refund status: pending, succeeded, failed, ...
+  status TEXT NOT NULL,
+  refunded_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS refunds_entity_idx ON refunds (entity_type, entity_id);
+
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the server
+CREATE POLICY "Admins can read refunds"
+ON "public"."refunds"
+FOR SELECT
+USING (is_admin());
+
+
+-- Card processing fees a donor or family chose to cover, on top of the gift
+-- or registration price in amount/total_amount. Stripe charged the sum.
+ALTER TABLE registrations
+ADD COLUMN fee_covered_amount NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE donations
+ADD COLUMN fee_covered_amount NUMERIC NOT NULL DEFAULT 0;
+
+ALTER TABLE recurring_donations
+ADD COLUMN fee_covered_amount NUMERIC NOT NULL DEFAULT 0;
+
+
+-- Gifts made in honor or memory of someone. When a recipient email is given,
+-- they are sent a card (without the amount) once the payment completes.
+ALTER TABLE donations
+ADD COLUMN tribute_type TEXT CHECK (tribute_type IN ('honor', 'memory')),
+ADD COLUMN tribute_honoree_name TEXT,
+ADD COLUMN tribute_recipient_email TEXT,
+ADD COLUMN tribute_message TEXT,
+ADD COLUMN tribute_notified_at TIMESTAMPTZ;
+
+
+-- Gifts the donor's employer should match. Finance follows up with each
+-- company, moving matching_gift_status from eligible to submitted to received.
+-- The expected amount uses the employer's ratio from src/lib/matching-gifts.js.
+ALTER TABLE donations
+ADD COLUMN employer_name TEXT,
+ADD COLUMN matching_gift_status TEXT CHECK (matching_gift_status IN ('eligible', 'submitted', 'received')),
+ADD COLUMN matching_gift_expected_amount NUMERIC,
+ADD COLUMN matching_gift_received_amount NUMERIC,
+ADD COLUMN matching_gift_updated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS donations_matching_gift_status_idx
+ON donations (matching_gift_status)
+WHERE matching_gift_status IS NOT NULL;
+
+
+-- Checks, cash, stock and in-kind gifts recorded by hand from the admin
+-- dashboard, each with its own donation_type. They have no Stripe payment.
+ALTER TABLE donations
+ALTER COLUMN payment_id DROP NOT NULL;
+
+ALTER TABLE donations
+ADD COLUMN check_number TEXT,
+ADD COLUMN check_date DATE,
+-- Stock and in-kind gifts; amount holds their fair-market value
+ADD COLUMN gift_description TEXT,
+ADD COLUMN recorded_by TEXT;
+
+
+-- CSV imports of historical donations and registrations. Every imported row
+-- points back at its import so the whole batch can be undone.
+CREATE TABLE imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('donation', 'registration')),
+  file_name TEXT NOT NULL,
+  row_count INTEGER NOT NULL,
+  -- Invalid rows and duplicates of existing records, left out of the batch
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  imported_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  undone_at TIMESTAMPTZ,
+  undone_by TEXT
+);
+
+ALTER TABLE imports ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the server
+CREATE POLICY "Admins can read imports"
+ON "public"."imports"
+FOR SELECT
+USING (is_admin());
+
+ALTER TABLE donations
+ADD COLUMN import_id UUID REFERENCES imports (id);
+
+ALTER TABLE registrations
+ADD COLUMN import_id UUID REFERENCES imports (id);
+
+CREATE INDEX IF NOT EXISTS donations_import_id_idx ON donations (import_id) WHERE import_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS registrations_import_id_idx ON registrations (import_id) WHERE import_id IS NOT NULL;
+
+
+-- Volunteer applications from the Join Our Team page, kept alongside the
+-- email to the volunteer coordinator so they appear in contact profiles
+CREATE TABLE volunteer_applications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  phone TEXT,
+  reason TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE volunteer_applications ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the server
+CREATE POLICY "Admins can read volunteer applications"
+ON "public"."volunteer_applications"
+FOR SELECT
+USING (is_admin());
+
+
+-- Contacts: one person or family across their donations, registrations and
+-- volunteer applications. Records are matched to a contact automatically by
+-- the trigger below; duplicates the matching missed are merged by hand.
+-- emails and phones hold every normalized address and number seen for the
+-- contact: lowercase emails, and the last 10 digits of phone numbers.
+CREATE TABLE contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL DEFAULT '',
+  emails TEXT[] NOT NULL DEFAULT '{}',
+  phones TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS contacts_emails_idx ON contacts USING GIN (emails);
+CREATE INDEX IF NOT EXISTS contacts_phones_idx ON contacts USING GIN (phones);
+
+ALTER TABLE contacts ENABLE ROW LEVEL SECURITY;
+
+-- Created by the matching trigger and merged by the server
+CREATE POLICY "Admins can read contacts"
+ON "public"."contacts"
+FOR SELECT
+USING (is_admin());
+
+ALTER TABLE donations
+ADD COLUMN contact_id UUID REFERENCES contacts (id);
+
+ALTER TABLE registrations
+ADD COLUMN contact_id UUID REFERENCES contacts (id);
+
+ALTER TABLE volunteer_applications
+ADD COLUMN contact_id UUID REFERENCES contacts (id);
+
+CREATE INDEX IF NOT EXISTS donations_contact_id_idx ON donations (contact_id);
+CREATE INDEX IF NOT EXISTS registrations_contact_id_idx ON registrations (contact_id);
+CREATE INDEX IF NOT EXISTS volunteer_applications_contact_id_idx ON volunteer_applications (contact_id);
+
+CREATE OR REPLACE FUNCTION normalize_email(value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(lower(trim(value)), '');
+$$;
+
+-- Ignores formatting and a leading country code, so (555) 123-4567 and
+-- +1 555.123.4567 match. Anything too short to be a phone number is ignored.
+CREATE OR REPLACE FUNCTION normalize_phone(value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN length(regexp_replace(coalesce(value, ''), '\D', '', 'g')) >= 7
+      THEN right(regexp_replace(value, '\D', '', 'g'), 10)
+  END;
+$$;
+
+-- The contact with this email, or failing that this phone number, creating one
+-- if neither has been seen. The contact picks up whichever of the two it was
+-- missing. Returns null when there is neither an email nor a phone number.
+CREATE OR REPLACE FUNCTION match_contact(contact_name TEXT, contact_email TEXT, contact_phone TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  email_key TEXT := normalize_email(contact_email);
+  phone_key TEXT := normalize_phone(contact_phone);
+  matched_id UUID;
+BEGIN
+  IF email_key IS NULL AND phone_key IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Two records from a new contact arriving together must not create two contacts
+  PERFORM pg_advisory_xact_lock(hashtext('match_contact'));
+
+  IF email_key IS NOT NULL THEN
+    SELECT id INTO matched_id FROM contacts
+    WHERE emails @> ARRAY[email_key]
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  IF matched_id IS NULL AND phone_key IS NOT NULL THEN
+    SELECT id INTO matched_id FROM contacts
+    WHERE phones @> ARRAY[phone_key]
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  IF matched_id IS NULL THEN
+    INSERT INTO contacts (name, emails, phones)
+    VALUES (
+      coalesce(trim(contact_name), ''),
+      array_remove(ARRAY[email_key], NULL),
+      array_remove(ARRAY[phone_key], NULL)
+    )
+    RETURNING id INTO matched_id;
+  ELSE
+    UPDATE contacts
+    SET
+      name = CASE WHEN name = '' THEN coalesce(trim(contact_name), '') ELSE name END,
+      emails = CASE WHEN email_key IS NULL OR email_key = ANY (emails) THEN emails ELSE emails || email_key END,
+      phones = CASE WHEN phone_key IS NULL OR phone_key = ANY (phones) THEN phones ELSE phones || phone_key END,
+      updated_at = now()
+    WHERE id = matched_id
+      AND (
+        name = ''
+        OR (email_key IS NOT NULL AND NOT email_key = ANY (emails))
+        OR (phone_key IS NOT NULL AND NOT phone_key = ANY (phones))
+      );
+  END IF;
+
+  RETURN matched_id;
+END;
+$$;
+
+-- Sets contact_id on new records, and re-matches a record whose email or phone
+-- is edited. Works from the row as JSON since only registrations and volunteer
+-- applications have a phone, and registrations have a single name column.
+CREATE OR REPLACE FUNCTION assign_contact()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_row JSONB := to_jsonb(NEW);
+  old_row JSONB;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    old_row := to_jsonb(OLD);
+
+    IF new_row -> 'email' IS NOT DISTINCT FROM old_row -> 'email'
+      AND new_row -> 'phone' IS NOT DISTINCT FROM old_row -> 'phone' THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  NEW.contact_id := match_contact(
+    coalesce(new_row ->> 'name', concat_ws(' ', new_row ->> 'first_name', new_row ->> 'last_name')),
+    new_row ->> 'email',
+    new_row ->> 'phone'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER registrations_contact
+BEFORE INSERT OR UPDATE OF email, phone ON registrations
+FOR EACH ROW EXECUTE FUNCTION assign_contact();
+
+CREATE TRIGGER donations_contact
+BEFORE INSERT OR UPDATE OF email ON donations
+FOR EACH ROW EXECUTE FUNCTION assign_contact();
+
+CREATE TRIGGER volunteer_applications_contact
+BEFORE INSERT OR UPDATE OF email, phone ON volunteer_applications
+FOR EACH ROW EXECUTE FUNCTION assign_contact();
+
+-- Existing records, oldest first so each contact is named from its earliest record
+DO $$
+DECLARE
+  pending RECORD;
+BEGIN
+  FOR pending IN
+    SELECT id, name, email, phone FROM registrations WHERE contact_id IS NULL ORDER BY created_at
+  LOOP
+    UPDATE registrations
+    SET contact_id = match_contact(pending.name, pending.email, pending.phone)
+    WHERE id = pending.id;
+  END LOOP;
+
+  FOR pending IN
+    SELECT id, first_name, last_name, email FROM donations WHERE contact_id IS NULL ORDER BY created_at
+  LOOP
+    UPDATE donations
+    SET contact_id = match_contact(concat_ws(' ', pending.first_name, pending.last_name), pending.email, NULL)
+    WHERE id = pending.id;
+  END LOOP;
+END;
+$$;
+
+-- Contacts with their totals for the admin list and profile pages. Lifetime
+-- giving counts completed and partially refunded gifts, including any fees the
+-- donor covered, less what has been refunded. security_invoker applies the
+-- callers' RLS policies to the tables underneath.
+CREATE VIEW contact_summaries
+WITH (security_invoker = true)
+AS
+SELECT
+  c.*,
+  coalesce(gifts.lifetime_giving, 0) AS lifetime_giving,
+  coalesce(gifts.gift_count, 0) AS gift_count,
+  gifts.first_gift_at,
+  gifts.last_gift_at,
+  (SELECT count(*) FROM registrations r WHERE r.contact_id = c.id) AS registration_count,
+  (SELECT count(*) FROM volunteer_applications v WHERE v.contact_id = c.id) AS volunteer_application_count
+FROM contacts c
+LEFT JOIN LATERAL (
+  SELECT
+    sum(d.amount + d.fee_covered_amount - coalesce(refunded.amount, 0)) AS lifetime_giving,
+    count(*) AS gift_count,
+    min(d.created_at) AS first_gift_at,
+    max(d.created_at) AS last_gift_at
+  FROM donations d
+  LEFT JOIN LATERAL (
+    SELECT sum(rf.amount) AS amount FROM refunds rf
+    WHERE rf.entity_type = 'donation' AND rf.entity_id = d.id AND rf.status = 'succeeded'
+  ) refunded ON true
+  WHERE d.contact_id = c.id AND d.status IN ('completed', 'partially_refunded')
+) gifts ON true;
+
+
+-- How much of each donation has been refunded, from Stripe's running total on
+-- the charge, so receipts and totals can count partially refunded gifts at
+-- what the foundation kept. Refunds issued from the dashboard are backfilled
+-- from the refunds table.
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC NOT NULL DEFAULT 0;
+
+UPDATE donations d
+SET refunded_amount = refunded.amount
+FROM (
+  SELECT entity_id, sum(amount) AS amount FROM refunds
+  WHERE entity_type = 'donation' AND status IN ('pending', 'succeeded')
+  GROUP BY entity_id
+) refunded
+WHERE refunded.entity_id = d.id AND d.refunded_amount = 0;
+
+-- Lifetime giving now nets out refunds made in the Stripe dashboard as well
+CREATE OR REPLACE VIEW contact_summaries
+WITH (security_invoker = true)
+AS
+SELECT
+  c.*,
+  coalesce(gifts.lifetime_giving, 0) AS lifetime_giving,
+  coalesce(gifts.gift_count, 0) AS gift_count,
+  gifts.first_gift_at,
+  gifts.last_gift_at,
+  (SELECT count(*) FROM registrations r WHERE r.contact_id = c.id) AS registration_count,
+  (SELECT count(*) FROM volunteer_applications v WHERE v.contact_id = c.id) AS volunteer_application_count
+FROM contacts c
+LEFT JOIN LATERAL (
+  SELECT
+    sum(d.amount + d.fee_covered_amount - d.refunded_amount) AS lifetime_giving,
+    count(*) AS gift_count,
+    min(d.created_at) AS first_gift_at,
+    max(d.created_at) AS last_gift_at
+  FROM donations d
+  WHERE d.contact_id = c.id AND d.status IN ('completed', 'partially_refunded')
+) gifts ON true;
+
+
+-- Totals for the admin Donations, Registrations and Contacts pages. The pages
+-- read their lists a page at a time, so the figures above them are summed in
+-- the database over every row. security_invoker keeps the tables' RLS
+-- policies in force, so only admins see anything.
+
+-- Amount raised is what the foundation kept from completed and partially
+-- refunded gifts; fees donors covered are reported separately
+CREATE OR REPLACE VIEW donation_totals
+WITH (security_invoker = true)
+AS
+SELECT
+  count(*) AS donation_count,
+  count(*) FILTER (WHERE status = 'completed') AS completed_count,
+  count(*) FILTER (WHERE status = 'pending') AS pending_count,
+  coalesce(sum(amount - refunded_amount) FILTER (WHERE status IN ('completed', 'partially_refunded')), 0) AS amount_raised,
+  coalesce(sum(fee_covered_amount) FILTER (WHERE status IN ('completed', 'partially_refunded')), 0) AS fees_covered
+FROM donations;
+
+-- One row per event. Waitlisted families don't have spots yet, so they are
+-- counted on their own.
+CREATE OR REPLACE VIEW registration_totals
+WITH (security_invoker = true)
+AS
+SELECT
+  event_id,
+  count(*) FILTER (WHERE payment_status <> 'waitlisted') AS registration_count,
+  coalesce(sum(adult_count + kids_count) FILTER (WHERE payment_status <> 'waitlisted'), 0) AS participant_count,
+  count(*) FILTER (WHERE payment_status = 'paid') AS paid_count,
+  coalesce(sum(total_amount) FILTER (WHERE payment_status = 'paid'), 0) AS revenue,
+  coalesce(sum(fee_covered_amount) FILTER (WHERE payment_status = 'paid'), 0) AS fees_covered,
+  count(*) FILTER (WHERE payment_status = 'waitlisted') AS waitlisted_count
+FROM registrations
+GROUP BY event_id;
+
+CREATE OR REPLACE VIEW contact_totals
+WITH (security_invoker = true)
+AS
+SELECT
+  count(*) AS contact_count,
+  count(*) FILTER (WHERE gift_count > 0) AS donor_count,
+  coalesce(sum(lifetime_giving), 0) AS lifetime_giving
+FROM contact_summaries;
+
+
+-- Holds a registration's spots until hold_until, moving it from from_status to
+-- pending, if the event still has room for its participants. The event row is
+-- locked first, so reservations for the same event run one at a time and two
+-- families can't both take the last spots. Counts spots the same way as
+-- getEventAvailability in api/lib/capacity.js. Returns whether the spots are
+-- held.
+CREATE OR REPLACE FUNCTION hold_registration_spots(
+  target_registration_id UUID,
+  hold_until TIMESTAMPTZ,
+  from_status TEXT DEFAULT 'pending'
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reg registrations%ROWTYPE;
+  event_capacity INTEGER;
+  taken INTEGER;
+BEGIN
+  SELECT * INTO reg FROM registrations WHERE id = target_registration_id;
+
+  IF NOT FOUND OR reg.payment_status <> from_status THEN
+    RETURN false;
+  END IF;
+
+  SELECT capacity INTO event_capacity FROM events WHERE id = reg.event_id FOR UPDATE;
+
+  IF event_capacity IS NOT NULL THEN
+    SELECT coalesce(sum(adult_count + kids_count), 0) INTO taken
+    FROM registrations
+    WHERE event_id = reg.event_id
+      AND id <> reg.id
+      AND (
+        payment_status IN ('paid', 'partially_refunded')
+        OR (payment_status = 'pending' AND hold_expires_at > now())
+      );
+
+    IF taken + reg.adult_count + reg.kids_count > event_capacity THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  UPDATE registrations
+  SET payment_status = 'pending', hold_expires_at = hold_until, updated_at = now()
+  WHERE id = reg.id AND payment_status = from_status;
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Only the server, with the service role, places holds
+REVOKE EXECUTE ON FUNCTION hold_registration_spots(UUID, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon, authenticated;
+
+
+-- How much of each registration has been refunded, from Stripe's running total
+-- on the charge like donations.refunded_amount, so a refund can't be offered
+-- for more than is left. Dashboard refunds are backfilled from the refunds table.
+ALTER TABLE registrations ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC NOT NULL DEFAULT 0;
+
+UPDATE registrations r
+SET refunded_amount = refunded.amount
+FROM (
+  SELECT entity_id, sum(amount) AS amount FROM refunds
+  WHERE entity_type = 'registration' AND status IN ('pending', 'succeeded')
+  GROUP BY entity_id
+) refunded
+WHERE refunded.entity_id = r.id AND r.refunded_amount = 0;
@@ -1,11 +1,38 @@
--- Example policy to allow authenticated users to read donations
-CREATE POLICY "Allow authenticated users to read donations" 
+-- Admin access by role. Every admin (is_admin) can read; only the roles
+-- listed in src/lib/permissions.js can change payment or donation records.
+-- Check-in and waitlist promotion go through the Express server instead.
+DROP POLICY IF EXISTS "Allow authenticated users to read donations" ON "public"."donations";
+DROP POLICY IF EXISTS "Allow admins to update donations" ON "public"."donations";
+DROP POLICY IF EXISTS "Allow admins to read donations" ON "public"."donations";
+DROP POLICY IF EXISTS "Allow admins to read registrations" ON "public"."registrations";
+DROP POLICY IF EXISTS "Allow admins to update registrations" ON "public"."registrations";
+DROP POLICY IF EXISTS "Allow admins to read participants" ON "public"."participants";
+DROP POLICY IF EXISTS "Allow finance admins to update donations" ON "public"."donations";
+DROP POLICY IF EXISTS "Allow finance admins to update registrations" ON "public"."registrations";
+
+CREATE POLICY "Allow admins to read donations" 
 ON "public"."donations"
 FOR SELECT
-USING (auth.role() = 'authenticated');
+USING (is_admin());
 
--- If you need to allow admins to update donations
-CREATE POLICY "Allow admins to update donations" 
+-- Status changes and sending certificates
+CREATE POLICY "Allow finance admins to update donations" 
 ON "public"."donations"
 FOR UPDATE
-USING (auth.role() = 'authenticated');
\ No newline at end of file
+USING (has_admin_role(ARRAY['owner', 'finance']));
+
+CREATE POLICY "Allow admins to read registrations" 
+ON "public"."registrations"
+FOR SELECT
+USING (is_admin());
+
+-- Marking registrations paid or pending by hand
+CREATE POLICY "Allow finance admins to update registrations" 
+ON "public"."registrations"
+FOR UPDATE
+USING (has_admin_role(ARRAY['owner', 'finance']));
+
+CREATE POLICY "Allow admins to read participants" 
+ON "public"."participants"
+FOR SELECT
+USING (is_admin());